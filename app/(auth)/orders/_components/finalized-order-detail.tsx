@@ -0,0 +1,178 @@
+"use client";
+
+import { useState } from "react";
+import { AlertTriangle, Copy } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useFinalizedOrderTexts } from "@/hooks/order";
+import type { OrderLine } from "@/lib/db/schema";
+import { REPLENISHMENT_POLICY_LABELS } from "@/lib/workflow/compute";
+
+interface FinalizedOrderDetailProps {
+  orderId: string;
+  lines: OrderLine[];
+}
+
+// Radix Select does not allow an empty value, so the default template needs a sentinel
+const DEFAULT_TEMPLATE = "__default__";
+
+/**
+ * Stored lines of a finalized order and its order text (rendered from the
+ * stored lines, not recomputed)
+ */
+export function FinalizedOrderDetail({ orderId, lines }: FinalizedOrderDetailProps) {
+  const [selected, setSelected] = useState(DEFAULT_TEMPLATE);
+  const { data, isLoading } = useFinalizedOrderTexts(orderId);
+
+  const texts = data?.texts ?? [];
+  const current =
+    texts.find((t) => (t.templateId ?? DEFAULT_TEMPLATE) === selected) ??
+    texts[0];
+
+  const handleCopy = async () => {
+    if (!current) return;
+    try {
+      await navigator.clipboard.writeText(current.text);
+      toast.success("Order text copied to clipboard");
+    } catch {
+      toast.error("Failed to copy to clipboard");
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="flex flex-row items-center justify-between gap-2">
+        <CardTitle>Order Lines</CardTitle>
+        <div className="flex items-center gap-1">
+          <Select
+            value={current?.templateId ?? DEFAULT_TEMPLATE}
+            onValueChange={setSelected}
+            disabled={isLoading}
+          >
+            <SelectTrigger size="sm" className="min-w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {texts.map((t) => (
+                <SelectItem
+                  key={t.templateId ?? DEFAULT_TEMPLATE}
+                  value={t.templateId ?? DEFAULT_TEMPLATE}
+                >
+                  {t.name} ({t.stockLocation})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleCopy}
+            disabled={!current}
+            title="Copy order text"
+          >
+            <Copy className="size-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {lines.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8">
+            No order lines
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead className="text-right">Demand</TableHead>
+                <TableHead className="text-right">On Hand</TableHead>
+                <TableHead className="text-right">Min</TableHead>
+                <TableHead className="text-right">Max</TableHead>
+                <TableHead className="text-right">Order</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lines.map((line) => (
+                <TableRow key={line.id}>
+                  <TableCell>
+                    <span className="flex items-center gap-2">
+                      <span className="w-5 flex-shrink-0">
+                        {line.exceedsMax && (
+                          <AlertTriangle className="size-4 text-amber-500" />
+                        )}
+                      </span>
+                      <span>
+                        <span className="font-mono text-sm">{line.productCode}</span>
+                        {line.replenishmentPolicy && line.isCaptured && (
+                          <span className="block text-xs text-muted-foreground">
+                            {REPLENISHMENT_POLICY_LABELS[line.replenishmentPolicy]}
+                          </span>
+                        )}
+                        {line.adjustmentReason && (
+                          <span className="block text-xs text-muted-foreground">
+                            {line.computedOrderQty === null
+                              ? "Extra line"
+                              : `Computed ${line.computedOrderQty}`}{" "}
+                            · {line.adjustmentReason}
+                          </span>
+                        )}
+                      </span>
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-right text-muted-foreground">{line.demandQty}</TableCell>
+                  <TableCell className="text-right text-muted-foreground">{line.onHandQty}</TableCell>
+                  <TableCell className="text-right text-muted-foreground">
+                    {line.minQty ?? "—"}
+                  </TableCell>
+                  <TableCell className="text-right text-muted-foreground">
+                    {line.maxQty ?? "—"}
+                  </TableCell>
+                  <TableCell className="text-right font-semibold">
+                    {line.recommendedOrderQty}
+                    {line.unitNeedQty !== null &&
+                      line.unitNeedQty !== line.recommendedOrderQty && (
+                        <span className="block text-xs font-normal text-muted-foreground whitespace-nowrap">
+                          need {line.unitNeedQty}
+                          {line.packSize && line.packSize > 1
+                            ? ` · packs of ${line.packSize}`
+                            : ""}
+                        </span>
+                      )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-4 w-full" />
+            ))}
+          </div>
+        ) : (
+          <pre className="text-xs font-mono whitespace-pre-wrap bg-muted rounded-md p-3">
+            {current?.text}
+          </pre>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
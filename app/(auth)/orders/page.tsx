@@ -0,0 +1,158 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { ArrowLeft, ArrowRight, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useOrderHistory, useUpdateOrderStatus } from "@/hooks/order";
+import {
+  nextOrderStatus,
+  ORDER_STATUS_LABELS,
+  type OrderStatus,
+} from "@/lib/orders/status";
+import { cn } from "@/lib/utils";
+import { FinalizedOrderDetail } from "./_components/finalized-order-detail";
+
+const formatDate = (value: string) =>
+  new Intl.DateTimeFormat("en-US", {
+    dateStyle: "medium",
+    timeStyle: "short",
+  }).format(new Date(value));
+
+export default function OrderHistoryPage() {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { data, isLoading } = useOrderHistory();
+  const updateStatus = useUpdateOrderStatus();
+
+  const orders = data?.orders ?? [];
+  const selected = orders.find((o) => o.id === selectedId);
+
+  const handleAdvance = (id: string, next: OrderStatus) => {
+    updateStatus.mutate(
+      { id, status: next },
+      {
+        onSuccess: () => {
+          toast.success(`Order marked as ${ORDER_STATUS_LABELS[next].toLowerCase()}`);
+        },
+        onError: (error) => {
+          toast.error(error.message);
+        },
+      }
+    );
+  };
+
+  return (
+    <main className="container max-w-4xl mx-auto p-4 py-8">
+      <div className="flex items-center gap-4 mb-6">
+        <Button asChild variant="ghost" size="icon">
+          <Link href="/">
+            <ArrowLeft className="size-4" />
+          </Link>
+        </Button>
+        <div className="flex-1">
+          <h1 className="text-2xl font-bold tracking-tight">Orders</h1>
+          {isLoading ? (
+            <Skeleton className="h-4 w-24 mt-1" />
+          ) : (
+            <p className="text-muted-foreground text-sm">
+              {orders.length} finalized orders
+            </p>
+          )}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-2">
+          {[1, 2, 3, 4, 5].map((i) => (
+            <Skeleton key={i} className="h-10 w-full" />
+          ))}
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Finalized</TableHead>
+              <TableHead>Session</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Lines</TableHead>
+              <TableHead className="w-40" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {orders.map((order) => {
+              const next = nextOrderStatus(order.status);
+              return (
+                <TableRow
+                  key={order.id}
+                  className={cn("cursor-pointer", order.id === selectedId && "bg-muted")}
+                  onClick={() => setSelectedId(order.id)}
+                >
+                  <TableCell className="text-sm">
+                    {formatDate(order.finalizedAt)}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {order.sessionId ? (
+                      <Link
+                        href={`/sessions/${order.sessionId}/order`}
+                        className="underline"
+                        onClick={(e) => e.stopPropagation()}
+                      >
+                        {formatDate(order.sessionCreatedAt)}
+                      </Link>
+                    ) : (
+                      // Session cleaned up - the order is all that is left
+                      formatDate(order.sessionCreatedAt)
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="secondary">
+                      {ORDER_STATUS_LABELS[order.status]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right text-muted-foreground">
+                    {order.lines.length}
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    {next && (
+                      <Button
+                        variant="ghost"
+                        size="xs"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleAdvance(order.id, next);
+                        }}
+                        disabled={updateStatus.isPending}
+                      >
+                        {updateStatus.isPending ? (
+                          <Loader2 className="size-3 animate-spin" />
+                        ) : (
+                          <ArrowRight className="size-3" />
+                        )}
+                        Mark as {ORDER_STATUS_LABELS[next].toLowerCase()}
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      {selected && (
+        <FinalizedOrderDetail orderId={selected.id} lines={selected.lines} />
+      )}
+    </main>
+  );
+}
@@ -2,7 +2,7 @@
 
 import Link from "next/link";
 import { useRouter } from "next/navigation";
-import { Plus, FolderOpen, Loader2 } from "lucide-react";
+import { Plus, FolderOpen, Loader2, ClipboardList } from "lucide-react";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import {
@@ -24,11 +24,13 @@ import { useSessions, useCreateSession } from "@/hooks/sessions";
 import { DeleteSessionButton } from "./_components/delete-session-button";
 import type { Session } from "@/lib/db/schema";
 
-const phaseLabels: Record<Session["lastPhase"], string> = {
-  "loading-lists": "Loading Lists",
-  demand: "Demand Review",
-  inventory: "Inventory Capture",
-  order: "Order Review",
+const statusLabels: Record<Session["status"], string> = {
+  draft: "Draft",
+  capturing_loading_lists: "Capturing Loading Lists",
+  review_demand: "Demand Review",
+  capturing_inventory: "Inventory Capture",
+  review_order: "Order Review",
+  completed: "Completed",
 };
 
 function formatDateTime(date: Date | string) {
@@ -81,7 +83,13 @@ export default function HomePage() {
 
   return (
     <main className="container max-w-2xl mx-auto p-4 py-8">
-      <div className="flex justify-end mb-6">
+      <div className="flex justify-end gap-2 mb-6">
+        <Button asChild variant="outline">
+          <Link href="/orders">
+            <ClipboardList className="size-4 mr-2" />
+            Orders
+          </Link>
+        </Button>
         <Button
           onClick={handleCreateSession}
           disabled={createSession.isPending}
@@ -127,8 +135,12 @@ export default function HomePage() {
                       {formatDateTime(session.createdAt)}
                     </CardTitle>
                     <CardDescription className="mt-1">
-                      <Badge variant="secondary">
-                        {phaseLabels[session.lastPhase]}
+                      <Badge
+                        variant={
+                          session.status === "completed" ? "success" : "secondary"
+                        }
+                      >
+                        {statusLabels[session.status]}
                       </Badge>
                     </CardDescription>
                   </div>
@@ -0,0 +1,232 @@
+"use client";
+
+import { useState } from "react";
+import { FileUp, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useImportProducts } from "@/hooks/products";
+import { REPLENISHMENT_POLICY_LABELS } from "@/lib/workflow/compute";
+
+interface ImportCatalogDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type DiffRow = {
+  articleNumber: string;
+  kind: "added" | "changed" | "removed";
+  detail: string;
+};
+
+const kindVariants = {
+  added: "success",
+  changed: "warning",
+  removed: "error",
+} as const;
+
+const kindLabels = {
+  added: "Added",
+  changed: "Changed",
+  removed: "Retired",
+} as const;
+
+export function ImportCatalogDialog({
+  open,
+  onOpenChange,
+}: ImportCatalogDialogProps) {
+  const [csv, setCsv] = useState<string | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const importProducts = useImportProducts();
+  const preview = importProducts.data?.applied === false ? importProducts.data.diff : null;
+
+  const reset = () => {
+    setCsv(null);
+    setFileName(null);
+    importProducts.reset();
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await file.text();
+    setCsv(text);
+    setFileName(file.name);
+
+    // Dry run straight away so the user sees what would change
+    importProducts.mutate(
+      { csv: text, dryRun: true },
+      {
+        onError: (error) => {
+          toast.error(error.message);
+        },
+      }
+    );
+  };
+
+  const handleApply = () => {
+    if (!csv) return;
+    importProducts.mutate(
+      { csv, dryRun: false },
+      {
+        onSuccess: () => {
+          toast.success("Catalog updated");
+          reset();
+          onOpenChange(false);
+        },
+        onError: (error) => {
+          toast.error(error.message);
+        },
+      }
+    );
+  };
+
+  const rows: DiffRow[] = preview
+    ? [
+        ...preview.added.map((p) => ({
+          articleNumber: p.articleNumber,
+          kind: "added" as const,
+          detail: `${p.description} (min ${p.minQty}, max ${p.maxQty})`,
+        })),
+        ...preview.changed.map((c) => ({
+          articleNumber: c.articleNumber,
+          kind: "changed" as const,
+          detail: [
+            c.before.minQty !== c.after.minQty &&
+              `min ${c.before.minQty} → ${c.after.minQty}`,
+            c.before.maxQty !== c.after.maxQty &&
+              `max ${c.before.maxQty} → ${c.after.maxQty}`,
+            c.before.description !== c.after.description && "description",
+            c.before.replenishmentPolicy !== c.after.replenishmentPolicy &&
+              `policy ${REPLENISHMENT_POLICY_LABELS[c.before.replenishmentPolicy]} → ${REPLENISHMENT_POLICY_LABELS[c.after.replenishmentPolicy]}`,
+            c.before.packSize !== c.after.packSize &&
+              `pack ${c.before.packSize} → ${c.after.packSize}`,
+            c.before.minOrderQty !== c.after.minOrderQty &&
+              `min order ${c.before.minOrderQty} → ${c.after.minOrderQty}`,
+            c.before.packRounding !== c.after.packRounding &&
+              `rounding ${c.before.packRounding} → ${c.after.packRounding}`,
+          ]
+            .filter(Boolean)
+            .join(", "),
+        })),
+        ...preview.removed.map((p) => ({
+          articleNumber: p.articleNumber,
+          kind: "removed" as const,
+          detail: p.description,
+        })),
+      ]
+    : [];
+
+  const hasChanges = rows.length > 0;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) reset();
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import catalog CSV</DialogTitle>
+          <DialogDescription>
+            Columns: article number, description, min, max, and optionally
+            policy, pack size, min order and rounding (empty keeps the current
+            rule). Articles missing from the file are retired.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input
+          type="file"
+          accept=".csv,text/csv"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          disabled={importProducts.isPending}
+        />
+
+        {importProducts.isPending && !preview && (
+          <div className="flex items-center justify-center gap-2 py-4 text-muted-foreground">
+            <Loader2 className="size-4 animate-spin" />
+            Comparing {fileName}...
+          </div>
+        )}
+
+        {preview && (
+          <div className="space-y-2">
+            <p className="text-muted-foreground">
+              {preview.added.length} added, {preview.changed.length} changed,{" "}
+              {preview.removed.length} retired, {preview.unchangedCount} unchanged
+            </p>
+            {hasChanges ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="h-8">Article</TableHead>
+                    <TableHead className="h-8">Change</TableHead>
+                    <TableHead className="h-8" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => (
+                    <TableRow key={`${row.kind}-${row.articleNumber}`}>
+                      <TableCell className="py-1.5 font-mono">
+                        {row.articleNumber}
+                      </TableCell>
+                      <TableCell className="py-1.5 text-muted-foreground max-w-80 truncate">
+                        {row.detail}
+                      </TableCell>
+                      <TableCell className="py-1.5 text-right">
+                        <Badge variant={kindVariants[row.kind]}>
+                          {kindLabels[row.kind]}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="py-2 text-center text-muted-foreground">
+                The catalog already matches this file
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            onClick={handleApply}
+            disabled={!preview || !hasChanges || importProducts.isPending}
+          >
+            {importProducts.isPending && preview ? (
+              <>
+                <Loader2 className="size-4 mr-2 animate-spin" />
+                Applying...
+              </>
+            ) : (
+              <>
+                <FileUp className="size-4 mr-2" />
+                Apply changes
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
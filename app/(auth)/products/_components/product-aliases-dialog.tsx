@@ -0,0 +1,179 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  useCreateProductAlias,
+  useDeleteProductAlias,
+  useProductAliases,
+} from "@/hooks/products";
+import { cn } from "@/lib/utils";
+
+interface ProductAliasesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ProductAliasesDialog({
+  open,
+  onOpenChange,
+}: ProductAliasesDialogProps) {
+  const [code, setCode] = useState("");
+  const [articleNumber, setArticleNumber] = useState("");
+  const { data, isLoading } = useProductAliases();
+  const createAlias = useCreateProductAlias();
+  const deleteAlias = useDeleteProductAlias();
+
+  const aliases = data?.aliases ?? [];
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim() || !articleNumber.trim()) {
+      toast.error("Alias code and article number are required");
+      return;
+    }
+
+    createAlias.mutate(
+      { code, articleNumber },
+      {
+        onSuccess: ({ alias }) => {
+          toast.success(`${alias.code} added`);
+          setCode("");
+          setArticleNumber("");
+        },
+        onError: (error) => {
+          toast.error(error.message);
+        },
+      }
+    );
+  };
+
+  const handleDelete = (id: string, aliasCode: string) => {
+    deleteAlias.mutate(id, {
+      onSuccess: () => {
+        toast.success(`${aliasCode} removed`);
+      },
+      onError: (error) => {
+        toast.error(error.message);
+      },
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Product aliases</DialogTitle>
+          <DialogDescription>
+            Alternative codes printed on loading lists or signs, resolved to a
+            catalog article for demand, stations and ordering.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="flex items-center gap-2">
+          <Input
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="JOE.023596"
+            className="font-mono"
+            aria-label="Alias code"
+            disabled={createAlias.isPending}
+          />
+          <span className="text-muted-foreground">→</span>
+          <Input
+            value={articleNumber}
+            onChange={(e) => setArticleNumber(e.target.value)}
+            placeholder="GHA.000001"
+            className="font-mono"
+            aria-label="Article number"
+            disabled={createAlias.isPending}
+          />
+          <Button type="submit" size="sm" disabled={createAlias.isPending}>
+            {createAlias.isPending ? (
+              <Loader2 className="size-4 animate-spin" />
+            ) : (
+              <Plus className="size-4" />
+            )}
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-8 w-full" />
+            ))}
+          </div>
+        ) : aliases.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="h-8">Alias</TableHead>
+                <TableHead className="h-8">Article</TableHead>
+                <TableHead className="h-8">Description</TableHead>
+                <TableHead className="h-8 w-10" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {aliases.map((alias) => (
+                <TableRow
+                  key={alias.id}
+                  className={cn(alias.retiredAt && "text-muted-foreground")}
+                >
+                  <TableCell className="py-1.5 font-mono">{alias.code}</TableCell>
+                  <TableCell className="py-1.5 font-mono">
+                    <span className="flex items-center gap-2">
+                      {alias.articleNumber}
+                      {alias.retiredAt && (
+                        <Badge variant="secondary" className="font-sans">
+                          Retired
+                        </Badge>
+                      )}
+                    </span>
+                  </TableCell>
+                  <TableCell className="py-1.5 text-muted-foreground max-w-60 truncate">
+                    {alias.description}
+                  </TableCell>
+                  <TableCell className="py-1.5 text-right">
+                    <Button
+                      variant="ghost"
+                      size="icon-xs"
+                      onClick={() => handleDelete(alias.id, alias.code)}
+                      disabled={deleteAlias.isPending}
+                      title="Remove alias"
+                    >
+                      <Trash2 className="size-3" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="py-2 text-center text-muted-foreground">
+            No aliases yet
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
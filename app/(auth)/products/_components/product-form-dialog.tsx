@@ -0,0 +1,308 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Field,
+  FieldDescription,
+  FieldGroup,
+  FieldLabel,
+} from "@/components/ui/field";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useCreateProduct, useUpdateProduct } from "@/hooks/products";
+import {
+  REPLENISHMENT_POLICY_LABELS,
+  type PackRounding,
+  type ReplenishmentPolicy,
+} from "@/lib/workflow/compute";
+
+const POLICY_DESCRIPTIONS: Record<ReplenishmentPolicy, string> = {
+  demand_only: "Order what the loading lists need beyond the stock on hand.",
+  top_up_to_max: "Cover demand and refill the station to max.",
+  reorder_below_min:
+    "Order nothing while the stock left after demand stays at or above min, otherwise enough to bring it back to max.",
+};
+
+export interface EditableProduct {
+  id: string;
+  articleNumber: string;
+  description: string;
+  minQty: number;
+  maxQty: number;
+  replenishmentPolicy: ReplenishmentPolicy;
+  packSize: number;
+  minOrderQty: number;
+  packRounding: PackRounding;
+}
+
+interface ProductFormDialogProps {
+  /** Product to edit; omit to create a new one */
+  product?: EditableProduct;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function ProductForm({
+  product,
+  onDone,
+}: {
+  product?: EditableProduct;
+  onDone: () => void;
+}) {
+  const [articleNumber, setArticleNumber] = useState(product?.articleNumber ?? "");
+  const [description, setDescription] = useState(product?.description ?? "");
+  const [minQty, setMinQty] = useState(String(product?.minQty ?? 0));
+  const [maxQty, setMaxQty] = useState(String(product?.maxQty ?? 0));
+  const [policy, setPolicy] = useState<ReplenishmentPolicy>(
+    product?.replenishmentPolicy ?? "demand_only"
+  );
+  const [packSize, setPackSize] = useState(String(product?.packSize ?? 1));
+  const [minOrderQty, setMinOrderQty] = useState(
+    String(product?.minOrderQty ?? 0)
+  );
+  const [rounding, setRounding] = useState<PackRounding>(
+    product?.packRounding ?? "up"
+  );
+  const createProduct = useCreateProduct();
+  const updateProduct = useUpdateProduct();
+
+  const isPending = createProduct.isPending || updateProduct.isPending;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const min = Number(minQty);
+    const max = Number(maxQty);
+    if (!Number.isInteger(min) || !Number.isInteger(max) || min < 0 || max < 0) {
+      toast.error("Min and max must be whole numbers of at least 0");
+      return;
+    }
+    if (min > max) {
+      toast.error("Min cannot be greater than max");
+      return;
+    }
+    const pack = Number(packSize);
+    const moq = Number(minOrderQty);
+    if (!Number.isInteger(pack) || pack < 1 || !Number.isInteger(moq) || moq < 0) {
+      toast.error("Pack size must be at least 1 and minimum order at least 0");
+      return;
+    }
+    if (!description.trim() || (!product && !articleNumber.trim())) {
+      toast.error("Article number and description are required");
+      return;
+    }
+
+    const callbacks = {
+      onSuccess: () => {
+        toast.success(product ? "Product updated" : "Product added");
+        onDone();
+      },
+      onError: (error: Error) => {
+        toast.error(error.message);
+      },
+    };
+
+    if (product) {
+      updateProduct.mutate(
+        {
+          id: product.id,
+          changes: {
+            description,
+            minQty: min,
+            maxQty: max,
+            replenishmentPolicy: policy,
+            packSize: pack,
+            minOrderQty: moq,
+            packRounding: rounding,
+          },
+        },
+        callbacks
+      );
+    } else {
+      createProduct.mutate(
+        {
+          articleNumber,
+          description,
+          minQty: min,
+          maxQty: max,
+          replenishmentPolicy: policy,
+          packSize: pack,
+          minOrderQty: moq,
+          packRounding: rounding,
+        },
+        callbacks
+      );
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="grid gap-4">
+      <FieldGroup>
+        <Field>
+          <FieldLabel htmlFor="product-article">Article number</FieldLabel>
+          <Input
+            id="product-article"
+            value={articleNumber}
+            onChange={(e) => setArticleNumber(e.target.value)}
+            placeholder="ART.100013"
+            className="font-mono"
+            disabled={!!product || isPending}
+          />
+        </Field>
+        <Field>
+          <FieldLabel htmlFor="product-description">Description</FieldLabel>
+          <Input
+            id="product-description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            disabled={isPending}
+          />
+        </Field>
+        <div className="grid grid-cols-2 gap-4">
+          <Field>
+            <FieldLabel htmlFor="product-min">Min</FieldLabel>
+            <Input
+              id="product-min"
+              type="number"
+              min={0}
+              value={minQty}
+              onChange={(e) => setMinQty(e.target.value)}
+              disabled={isPending}
+            />
+          </Field>
+          <Field>
+            <FieldLabel htmlFor="product-max">Max</FieldLabel>
+            <Input
+              id="product-max"
+              type="number"
+              min={0}
+              value={maxQty}
+              onChange={(e) => setMaxQty(e.target.value)}
+              disabled={isPending}
+            />
+          </Field>
+        </div>
+        <Field>
+          <FieldLabel htmlFor="product-policy">Replenishment</FieldLabel>
+          <Select
+            value={policy}
+            onValueChange={(value) => setPolicy(value as ReplenishmentPolicy)}
+            disabled={isPending}
+          >
+            <SelectTrigger id="product-policy" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(REPLENISHMENT_POLICY_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FieldDescription>{POLICY_DESCRIPTIONS[policy]}</FieldDescription>
+        </Field>
+        <div className="grid grid-cols-3 gap-4">
+          <Field>
+            <FieldLabel htmlFor="product-pack">Pack size</FieldLabel>
+            <Input
+              id="product-pack"
+              type="number"
+              min={1}
+              value={packSize}
+              onChange={(e) => setPackSize(e.target.value)}
+              disabled={isPending}
+            />
+          </Field>
+          <Field>
+            <FieldLabel htmlFor="product-moq">Min. order</FieldLabel>
+            <Input
+              id="product-moq"
+              type="number"
+              min={0}
+              value={minOrderQty}
+              onChange={(e) => setMinOrderQty(e.target.value)}
+              disabled={isPending}
+            />
+          </Field>
+          <Field>
+            <FieldLabel htmlFor="product-rounding">Rounding</FieldLabel>
+            <Select
+              value={rounding}
+              onValueChange={(value) => setRounding(value as PackRounding)}
+              disabled={isPending}
+            >
+              <SelectTrigger id="product-rounding" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="up">Up</SelectItem>
+                <SelectItem value="nearest">Nearest</SelectItem>
+              </SelectContent>
+            </Select>
+          </Field>
+        </div>
+      </FieldGroup>
+      <DialogFooter>
+        <Button type="submit" disabled={isPending}>
+          {isPending ? (
+            <>
+              <Loader2 className="size-4 mr-2 animate-spin" />
+              Saving...
+            </>
+          ) : product ? (
+            "Save"
+          ) : (
+            "Add product"
+          )}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+}
+
+export function ProductFormDialog({
+  product,
+  open,
+  onOpenChange,
+}: ProductFormDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{product ? "Edit product" : "Add product"}</DialogTitle>
+          <DialogDescription>
+            {product
+              ? "The article number cannot be changed."
+              : "New products are used for code resolution and station limits."}
+          </DialogDescription>
+        </DialogHeader>
+        {/* Remount per product so the form starts from its current values */}
+        {open && (
+          <ProductForm
+            key={product?.id ?? "new"}
+            product={product}
+            onDone={() => onOpenChange(false)}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
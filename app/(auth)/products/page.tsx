@@ -1,8 +1,21 @@
 "use client";
 
+import { useState } from "react";
 import Link from "next/link";
-import { ArrowLeft } from "lucide-react";
+import {
+  ArrowLeft,
+  Archive,
+  ArchiveRestore,
+  Download,
+  Link2,
+  Pencil,
+  Plus,
+  Upload,
+} from "lucide-react";
+import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
 import {
   Table,
   TableBody,
@@ -11,9 +24,62 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { PRODUCT_CATALOG } from "@/lib/products/catalog";
+import {
+  useProducts,
+  useRestoreProduct,
+  useRetireProduct,
+} from "@/hooks/products";
+import { cn } from "@/lib/utils";
+import { REPLENISHMENT_POLICY_LABELS } from "@/lib/workflow/compute";
+import {
+  ProductFormDialog,
+  type EditableProduct,
+} from "./_components/product-form-dialog";
+import { ImportCatalogDialog } from "./_components/import-catalog-dialog";
+import { ProductAliasesDialog } from "./_components/product-aliases-dialog";
 
 export default function ProductCatalogPage() {
+  const [showRetired, setShowRetired] = useState(false);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<EditableProduct | undefined>();
+  const [importOpen, setImportOpen] = useState(false);
+  const [aliasesOpen, setAliasesOpen] = useState(false);
+  const { data, isLoading } = useProducts(showRetired);
+  const retireProduct = useRetireProduct();
+  const restoreProduct = useRestoreProduct();
+
+  const products = data?.products ?? [];
+  const activeCount = products.filter((p) => !p.retiredAt).length;
+
+  const openForm = (product?: EditableProduct) => {
+    setEditing(product);
+    setFormOpen(true);
+  };
+
+  const handleRetire = (id: string, articleNumber: string) => {
+    retireProduct.mutate(id, {
+      onSuccess: () => {
+        toast.success(`${articleNumber} retired`);
+      },
+      onError: (error) => {
+        toast.error(error.message);
+      },
+    });
+  };
+
+  const handleRestore = (id: string, articleNumber: string) => {
+    restoreProduct.mutate(id, {
+      onSuccess: () => {
+        toast.success(`${articleNumber} restored`);
+      },
+      onError: (error) => {
+        toast.error(error.message);
+      },
+    });
+  };
+
+  const isBusy = retireProduct.isPending || restoreProduct.isPending;
+
   return (
     <main className="container max-w-4xl mx-auto p-4 py-8">
       <div className="flex items-center gap-4 mb-6">
@@ -22,42 +88,138 @@ export default function ProductCatalogPage() {
             <ArrowLeft className="size-4" />
           </Link>
         </Button>
-        <div>
+        <div className="flex-1">
           <h1 className="text-2xl font-bold tracking-tight">Product Catalog</h1>
-          <p className="text-muted-foreground text-sm">
-            {PRODUCT_CATALOG.length} products
-          </p>
+          {isLoading ? (
+            <Skeleton className="h-4 w-24 mt-1" />
+          ) : (
+            <p className="text-muted-foreground text-sm">
+              {activeCount} products
+            </p>
+          )}
         </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setShowRetired(!showRetired)}
+        >
+          {showRetired ? "Hide retired" : "Show retired"}
+        </Button>
+        <Button asChild variant="outline" size="sm">
+          <a href="/api/products/export" download>
+            <Download className="size-4 mr-2" />
+            Export
+          </a>
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => setAliasesOpen(true)}>
+          <Link2 className="size-4 mr-2" />
+          Aliases
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => setImportOpen(true)}>
+          <Upload className="size-4 mr-2" />
+          Import
+        </Button>
+        <Button size="sm" onClick={() => openForm()}>
+          <Plus className="size-4 mr-2" />
+          Add
+        </Button>
       </div>
 
-      <Table>
-        <TableHeader>
-          <TableRow>
-            <TableHead>Article Number</TableHead>
-            <TableHead>Description</TableHead>
-            <TableHead className="text-right">Min</TableHead>
-            <TableHead className="text-right">Max</TableHead>
-          </TableRow>
-        </TableHeader>
-        <TableBody>
-          {PRODUCT_CATALOG.map((product) => (
-            <TableRow key={product.articleNumber}>
-              <TableCell className="font-mono text-sm">
-                {product.articleNumber}
-              </TableCell>
-              <TableCell className="text-sm">
-                {product.description}
-              </TableCell>
-              <TableCell className="text-right text-muted-foreground">
-                {product.minQty}
-              </TableCell>
-              <TableCell className="text-right text-muted-foreground">
-                {product.maxQty}
-              </TableCell>
-            </TableRow>
+      {isLoading ? (
+        <div className="space-y-2">
+          {[1, 2, 3, 4, 5].map((i) => (
+            <Skeleton key={i} className="h-10 w-full" />
           ))}
-        </TableBody>
-      </Table>
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Article Number</TableHead>
+              <TableHead>Description</TableHead>
+              <TableHead className="text-right">Min</TableHead>
+              <TableHead className="text-right">Max</TableHead>
+              <TableHead>Replenishment</TableHead>
+              <TableHead className="text-right">Pack</TableHead>
+              <TableHead className="w-20" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {products.map((product) => (
+              <TableRow
+                key={product.id}
+                className={cn(product.retiredAt && "text-muted-foreground")}
+              >
+                <TableCell className="font-mono text-sm">
+                  <span className="flex items-center gap-2">
+                    {product.articleNumber}
+                    {product.retiredAt && (
+                      <Badge variant="secondary" className="font-sans">
+                        Retired
+                      </Badge>
+                    )}
+                  </span>
+                </TableCell>
+                <TableCell className="text-sm">
+                  {product.description}
+                </TableCell>
+                <TableCell className="text-right text-muted-foreground">
+                  {product.minQty}
+                </TableCell>
+                <TableCell className="text-right text-muted-foreground">
+                  {product.maxQty}
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {REPLENISHMENT_POLICY_LABELS[product.replenishmentPolicy]}
+                </TableCell>
+                <TableCell className="text-right text-sm text-muted-foreground whitespace-nowrap">
+                  {product.packSize > 1 ? `× ${product.packSize}` : "—"}
+                  {product.minOrderQty > 0 && ` (min ${product.minOrderQty})`}
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  <Button
+                    variant="ghost"
+                    size="icon-xs"
+                    onClick={() => openForm(product)}
+                    title="Edit product"
+                  >
+                    <Pencil className="size-3" />
+                  </Button>
+                  {product.retiredAt ? (
+                    <Button
+                      variant="ghost"
+                      size="icon-xs"
+                      onClick={() => handleRestore(product.id, product.articleNumber)}
+                      disabled={isBusy}
+                      title="Restore product"
+                    >
+                      <ArchiveRestore className="size-3" />
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="ghost"
+                      size="icon-xs"
+                      onClick={() => handleRetire(product.id, product.articleNumber)}
+                      disabled={isBusy}
+                      title="Retire product"
+                    >
+                      <Archive className="size-3" />
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <ProductFormDialog
+        product={editing}
+        open={formOpen}
+        onOpenChange={setFormOpen}
+      />
+      <ImportCatalogDialog open={importOpen} onOpenChange={setImportOpen} />
+      <ProductAliasesDialog open={aliasesOpen} onOpenChange={setAliasesOpen} />
     </main>
   );
 }
@@ -0,0 +1,109 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { CheckCircle, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { useApproveDemand } from "@/hooks/demand";
+import type { DemandChange } from "@/lib/workflow/compute";
+
+interface DemandApprovalProps {
+  sessionId: string;
+  approval: { approvedAt: string; changes: DemandChange[] } | null;
+  /** False when there is nothing to approve or the session is read-only */
+  canApprove: boolean;
+}
+
+function formatApprovedAt(approvedAt: string) {
+  return new Intl.DateTimeFormat("en-US", {
+    dateStyle: "medium",
+    timeStyle: "short",
+  }).format(new Date(approvedAt));
+}
+
+/**
+ * Approve demand (Flow 2.4) - the order is computed from the approved snapshot,
+ * so changes made afterwards need a re-approval before they reach the order
+ */
+export function DemandApproval({
+  sessionId,
+  approval,
+  canApprove,
+}: DemandApprovalProps) {
+  const router = useRouter();
+  const approveDemand = useApproveDemand();
+  const isReapproval = !!approval;
+
+  const handleApprove = () => {
+    approveDemand.mutate(sessionId, {
+      onSuccess: () => {
+        toast.success(isReapproval ? "Demand re-approved" : "Demand approved");
+        if (!isReapproval) {
+          router.push(`/sessions/${sessionId}/inventory`);
+        }
+      },
+      onError: (error) => {
+        toast.error(error.message);
+      },
+    });
+  };
+
+  const approveButton = (label: string) => (
+    <Button
+      size="sm"
+      onClick={handleApprove}
+      disabled={!canApprove || approveDemand.isPending}
+    >
+      {approveDemand.isPending ? (
+        <Loader2 className="size-4 mr-2 animate-spin" />
+      ) : (
+        <CheckCircle className="size-4 mr-2" />
+      )}
+      {label}
+    </Button>
+  );
+
+  if (!approval) {
+    return (
+      <div className="border rounded-lg p-4 mb-6 flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Approve demand to lock it in for the order.
+        </p>
+        {approveButton("Approve demand")}
+      </div>
+    );
+  }
+
+  if (approval.changes.length === 0) {
+    return (
+      <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-6 flex items-center gap-2">
+        <CheckCircle className="size-4 text-green-700" />
+        <p className="text-green-800 text-sm">
+          Demand approved {formatApprovedAt(approval.approvedAt)}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-6">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-amber-800 text-sm font-medium">
+          Demand changed since approval ({formatApprovedAt(approval.approvedAt)}).
+          The order still uses the approved quantities.
+        </p>
+        {approveButton("Re-approve")}
+      </div>
+      <ul className="mt-2 space-y-1 text-sm text-amber-800">
+        {approval.changes.map((change) => (
+          <li key={change.productCode} className="flex items-center gap-2">
+            <span className="font-mono">{change.productCode}</span>
+            <span className="ml-auto tabular-nums">
+              {change.approvedQty} → {change.currentQty}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+"use client";
+
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Radix Select does not allow an empty value, so "all" needs a sentinel
+const ALL = "__all__";
+
+export interface DemandFilterValue {
+  room?: string;
+  endUser?: string;
+}
+
+interface DemandFiltersProps {
+  rooms: string[];
+  endUsers: string[];
+  value: DemandFilterValue;
+  onChange: (value: DemandFilterValue) => void;
+}
+
+function FilterSelect({
+  placeholder,
+  options,
+  value,
+  onChange,
+}: {
+  placeholder: string;
+  options: string[];
+  value?: string;
+  onChange: (value?: string) => void;
+}) {
+  return (
+    <Select
+      value={value ?? ALL}
+      onValueChange={(next) => onChange(next === ALL ? undefined : next)}
+      disabled={options.length === 0}
+    >
+      <SelectTrigger size="sm" className="min-w-36">
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL}>{placeholder}</SelectItem>
+        {options.map((option) => (
+          <SelectItem key={option} value={option}>
+            {option}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+/**
+ * Narrows demand to the items going to one room and/or end user
+ */
+export function DemandFilters({
+  rooms,
+  endUsers,
+  value,
+  onChange,
+}: DemandFiltersProps) {
+  const isFiltered = !!value.room || !!value.endUser;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <FilterSelect
+        placeholder="All rooms"
+        options={rooms}
+        value={value.room}
+        onChange={(room) => onChange({ ...value, room })}
+      />
+      <FilterSelect
+        placeholder="All end users"
+        options={endUsers}
+        value={value.endUser}
+        onChange={(endUser) => onChange({ ...value, endUser })}
+      />
+      {isFiltered && (
+        <Button variant="ghost" size="xs" onClick={() => onChange({})}>
+          <X className="size-3" />
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useSetActivityOwner } from "@/hooks/demand";
+import type { DuplicateActivity } from "@/lib/workflow/compute";
+
+interface DuplicateActivitiesProps {
+  sessionId: string;
+  duplicates: DuplicateActivity[];
+}
+
+/**
+ * Activities found on more than one loading list - the coordinator picks which
+ * group's items count so the activity is not ordered twice
+ */
+export function DuplicateActivities({
+  sessionId,
+  duplicates,
+}: DuplicateActivitiesProps) {
+  const setOwner = useSetActivityOwner();
+
+  const handleChange = (activityCode: string, groupId: string) => {
+    setOwner.mutate(
+      { sessionId, activityCode, groupId },
+      {
+        onSuccess: () => {
+          toast.success(`${activityCode} counted once`);
+        },
+        onError: (error) => {
+          toast.error(error.message);
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-6">
+      <p className="text-amber-800 text-sm font-medium">
+        {duplicates.length} activit{duplicates.length !== 1 ? "ies appear" : "y appears"} on
+        more than one loading list. Each is counted once - choose whose list to use.
+      </p>
+      <div className="mt-3 space-y-2">
+        {duplicates.map((duplicate) => (
+          <div
+            key={duplicate.activityCode}
+            className="flex flex-wrap items-center gap-2 text-sm"
+          >
+            <span className="font-mono text-amber-900">{duplicate.activityCode}</span>
+            {!duplicate.ownerChosen && (
+              <Badge variant="warning" title="Using the list with the most items until you choose">
+                Default
+              </Badge>
+            )}
+            <Select
+              value={duplicate.ownerGroupId}
+              onValueChange={(groupId) => handleChange(duplicate.activityCode, groupId)}
+              disabled={setOwner.isPending}
+            >
+              <SelectTrigger size="sm" className="ml-auto min-w-48 bg-background">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {duplicate.groups.map((group) => (
+                  <SelectItem key={group.groupId} value={group.groupId}>
+                    {group.employeeLabel ?? `Group ${group.groupId.slice(0, 8)}`} (
+                    {group.itemCount} item{group.itemCount !== 1 ? "s" : ""},{" "}
+                    {group.totalQuantity} pcs)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { use } from "react";
+import { use, useState } from "react";
 import Link from "next/link";
 import { ChevronDown } from "lucide-react";
 import { Button } from "@/components/ui/button";
@@ -16,6 +16,12 @@ import { useSession } from "@/hooks/sessions";
 import { useGroups } from "@/hooks/groups";
 import { useDemand } from "@/hooks/demand";
 import { WorkflowNavigation } from "@/components/workflow-navigation";
+import {
+  DemandFilters,
+  type DemandFilterValue,
+} from "./_components/demand-filters";
+import { DuplicateActivities } from "./_components/duplicate-activities";
+import { DemandApproval } from "./_components/demand-approval";
 
 interface DemandPageProps {
   params: Promise<{ id: string }>;
@@ -53,7 +59,8 @@ export default function DemandPage({ params }: DemandPageProps) {
   const { id } = use(params);
   const { data: sessionData, isLoading: sessionLoading } = useSession(id);
   const { data: groupsData, isLoading: groupsLoading } = useGroups(id);
-  const { data: demandData, isLoading: demandLoading } = useDemand(id);
+  const [filter, setFilter] = useState<DemandFilterValue>({});
+  const { data: demandData, isLoading: demandLoading } = useDemand(id, filter);
 
   const session = sessionData?.session;
   const groups = groupsData?.groups ?? [];
@@ -76,6 +83,12 @@ export default function DemandPage({ params }: DemandPageProps) {
 
   // Get stats from API response
   const stats = demandData?.stats;
+  const unresolvedCodes = demandData?.unresolved ?? [];
+  const duplicateActivities = demandData?.duplicateActivities ?? [];
+  const filterOptions = demandData?.filters;
+  const hasFilterOptions =
+    !!filterOptions &&
+    (filterOptions.rooms.length > 0 || filterOptions.endUsers.length > 0);
 
   // Session not found after loading
   if (!sessionLoading && !session) {
@@ -167,6 +180,51 @@ export default function DemandPage({ params }: DemandPageProps) {
         </div>
       )}
 
+      {/* Same activity on several loading lists - pick the owner */}
+      {!demandLoading && duplicateActivities.length > 0 && (
+        <DuplicateActivities sessionId={id} duplicates={duplicateActivities} />
+      )}
+
+      {/* Codes not in the catalog - fix on the loading lists before inventory */}
+      {!demandLoading && unresolvedCodes.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-6">
+          <p className="text-amber-800 text-sm font-medium">
+            {unresolvedCodes.length} code{unresolvedCodes.length !== 1 ? "s are" : " is"} not
+            in the product catalog and will be ordered as-is. Correct them on the{" "}
+            <Link href={`/sessions/${id}/loading-lists`} className="underline">
+              loading lists
+            </Link>{" "}
+            before moving to inventory.
+          </p>
+          <ul className="mt-2 space-y-1 text-sm text-amber-800">
+            {unresolvedCodes.map((code) => (
+              <li key={code.productCode} className="flex items-center gap-2">
+                <span className="font-mono">{code.productCode}</span>
+                {code.suggestedCode && (
+                  <span className="text-amber-700">
+                    did you mean <span className="font-mono">{code.suggestedCode}</span>?
+                  </span>
+                )}
+                <span className="ml-auto text-xs text-amber-700 truncate">
+                  {code.employeeLabels.join(", ")} · {code.demandQty}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Approval - the order reads the approved snapshot */}
+      {!demandLoading && !sessionLoading && session && (
+        <DemandApproval
+          sessionId={id}
+          approval={demandData?.approval ?? null}
+          canApprove={
+            (stats?.totalItems ?? 0) > 0 && session.status !== "completed"
+          }
+        />
+      )}
+
       {/* Demand Table with Drilldown */}
       {demandLoading ? (
         <DemandTableSkeleton />
@@ -174,11 +232,21 @@ export default function DemandPage({ params }: DemandPageProps) {
         <Card>
           <CardHeader>
             <CardTitle>Aggregated Demand</CardTitle>
+            {hasFilterOptions && (
+              <DemandFilters
+                rooms={filterOptions.rooms}
+                endUsers={filterOptions.endUsers}
+                value={filter}
+                onChange={setFilter}
+              />
+            )}
           </CardHeader>
           <CardContent>
             {demandItems.length === 0 ? (
               <p className="text-muted-foreground text-center py-8">
-                No demand items extracted
+                {filter.room || filter.endUser
+                  ? "No demand items match the filter"
+                  : "No demand items extracted"}
               </p>
             ) : (
               <div className="space-y-1">
@@ -219,6 +287,27 @@ export default function DemandPage({ params }: DemandPageProps) {
                             </Badge>
                             <span className="text-muted-foreground">/</span>
                             <span className="font-mono text-xs">{source.activityCode}</span>
+                            {source.productCode !== item.productCode && (
+                              <span
+                                className="font-mono text-xs text-muted-foreground"
+                                title="Listed under this code, resolved to the canonical product"
+                              >
+                                as {source.productCode}
+                              </span>
+                            )}
+                            {(source.room || source.endUser) && (
+                              <span className="text-xs text-muted-foreground truncate">
+                                {[source.room, source.endUser].filter(Boolean).join(" · ")}
+                              </span>
+                            )}
+                            {(source.secondaryCode || source.internalCode) && (
+                              <span className="font-mono text-xs text-muted-foreground">
+                                {[source.secondaryCode, source.internalCode]
+                                  .filter(Boolean)
+                                  .join(" / ")}
+                              </span>
+                            )}
+                            <span className="ml-auto tabular-nums">{source.quantity}</span>
                           </div>
                         ))}
                       </div>
@@ -232,15 +321,24 @@ export default function DemandPage({ params }: DemandPageProps) {
       )}
 
       {/* Empty demand info - only show after loaded */}
-      {!demandLoading && demandItems.length === 0 && (
+      {!demandLoading && demandItems.length === 0 && !filter.room && !filter.endUser && (
         <p className="mt-4 text-center text-muted-foreground text-sm">
           Add loading lists and run extraction to generate demand items.
         </p>
       )}
 
       <WorkflowNavigation
-        prev={{ href: `/sessions/${id}/loading-lists`, label: "Loading Lists" }}
-        next={{ href: `/sessions/${id}/inventory`, label: "Inventory" }}
+        sessionId={id}
+        prev={{
+          href: `/sessions/${id}/loading-lists`,
+          label: "Loading Lists",
+          status: "capturing_loading_lists",
+        }}
+        // Approving demand moves the session on - navigating alone does not
+        next={{
+          href: `/sessions/${id}/inventory`,
+          label: "Inventory",
+        }}
       />
     </main>
   );
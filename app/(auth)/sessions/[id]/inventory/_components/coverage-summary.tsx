@@ -1,6 +1,7 @@
 "use client";
 
 import { Check, AlertTriangle } from "lucide-react";
+import { toast } from "sonner";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -11,17 +12,54 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useUpdateCoverageMode } from "@/hooks/sessions";
 import type { CoverageItem, CoverageSummary } from "@/hooks/stations";
+import type { CoverageMode } from "@/lib/workflow/compute";
 
 interface CoverageSummaryCardProps {
+  sessionId: string;
   coverage: CoverageItem[];
   summary: CoverageSummary;
 }
 
+// What is left to do for a product without a usable station (strict mode)
+const MISSING_REASON_LABELS: Record<
+  NonNullable<CoverageItem["missingReason"]>,
+  string
+> = {
+  no_station: "To capture",
+  station_invalid: "Needs review",
+  missing_data: "Missing data",
+};
+
+/**
+ * Demanded products and whether their station is captured. In strict mode the
+ * uncaptured products are a to-do list that blocks finishing the order.
+ */
 export function CoverageSummaryCard({
+  sessionId,
   coverage,
   summary,
 }: CoverageSummaryCardProps) {
+  const updateCoverageMode = useUpdateCoverageMode();
+  const isStrict = summary.coverageMode === "strict";
+  const missingCount = summary.totalCount - summary.coveredCount;
+
+  const handleModeChange = (value: string) => {
+    // Radix sends an empty value when the active item is clicked again
+    if (!value || value === summary.coverageMode) return;
+
+    updateCoverageMode.mutate(
+      { id: sessionId, coverageMode: value as CoverageMode },
+      {
+        onError: (error) => {
+          toast.error(error.message);
+        },
+      }
+    );
+  };
+
   if (coverage.length === 0) {
     return (
       <Card>
@@ -48,6 +86,26 @@ export function CoverageSummaryCard({
         </CardTitle>
       </CardHeader>
       <CardContent>
+        <div className="flex items-center justify-between gap-3 mb-3">
+          <p className="text-xs text-muted-foreground">
+            {isStrict
+              ? missingCount > 0
+                ? `Capture ${missingCount} more station${missingCount !== 1 ? "s" : ""} before the order can be finished.`
+                : "Every demanded product has a valid station."
+              : "Products without a station are ordered in full (on hand 0)."}
+          </p>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={summary.coverageMode}
+            onValueChange={handleModeChange}
+            disabled={updateCoverageMode.isPending}
+          >
+            <ToggleGroupItem value="lenient">Defaults</ToggleGroupItem>
+            <ToggleGroupItem value="strict">Strict</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
         <Table>
           <TableHeader>
             <TableRow>
@@ -65,6 +123,11 @@ export function CoverageSummaryCard({
                       <Check className="size-3 mr-1" />
                       Captured
                     </Badge>
+                  ) : isStrict && item.missingReason ? (
+                    <Badge variant="destructive" className="text-xs">
+                      <AlertTriangle className="size-3 mr-1" />
+                      {MISSING_REASON_LABELS[item.missingReason]}
+                    </Badge>
                   ) : (
                     <Badge variant="secondary" className="text-xs">
                       <AlertTriangle className="size-3 mr-1" />
@@ -0,0 +1,123 @@
+"use client";
+
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useResolveDuplicateStations } from "@/hooks/stations";
+import type { DuplicateStation } from "@/lib/workflow/compute";
+
+interface DuplicateStationsProps {
+  sessionId: string;
+  duplicates: DuplicateStation[];
+}
+
+// Select values: "merge", or "keep:<captureId>" for keeping one capture
+const MERGE = "merge";
+const KEEP_PREFIX = "keep:";
+
+/**
+ * Products captured at more than one station - the user merges the counts
+ * (split stations) or keeps one capture so the stock is not counted twice
+ */
+export function DuplicateStations({
+  sessionId,
+  duplicates,
+}: DuplicateStationsProps) {
+  const resolveDuplicates = useResolveDuplicateStations();
+
+  const handleChange = (productCode: string, value: string) => {
+    resolveDuplicates.mutate(
+      {
+        sessionId,
+        productCode,
+        resolution:
+          value === MERGE
+            ? { rule: "merge" }
+            : { rule: "keep", keepCaptureId: value.slice(KEEP_PREFIX.length) },
+      },
+      {
+        onSuccess: () => {
+          toast.success(
+            value === MERGE
+              ? `${productCode} counts merged`
+              : `${productCode} counted once`
+          );
+        },
+        onError: (error) => {
+          toast.error(error.message);
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-6">
+      <p className="text-amber-800 text-sm font-medium">
+        {duplicates.length} product{duplicates.length !== 1 ? "s were" : " was"}{" "}
+        captured at more than one station. Merge the counts of a split station or
+        keep one capture.
+      </p>
+      <div className="mt-3 space-y-4">
+        {duplicates.map((duplicate) => (
+          <div key={duplicate.productCode} className="space-y-1 text-sm">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-mono text-amber-900">
+                {duplicate.productCode}
+              </span>
+              {!duplicate.resolved && (
+                <Badge
+                  variant="warning"
+                  title="Using the newest counted capture until you choose"
+                >
+                  Default
+                </Badge>
+              )}
+              <Select
+                value={
+                  duplicate.rule === "merge"
+                    ? MERGE
+                    : `${KEEP_PREFIX}${duplicate.keepCaptureId}`
+                }
+                onValueChange={(value) =>
+                  handleChange(duplicate.productCode, value)
+                }
+                disabled={resolveDuplicates.isPending}
+              >
+                <SelectTrigger size="sm" className="ml-auto min-w-48 bg-background">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={MERGE}>Merge (sum the counts)</SelectItem>
+                  {duplicate.captures.map((capture, index) => (
+                    <SelectItem
+                      key={capture.captureId}
+                      value={`${KEEP_PREFIX}${capture.captureId}`}
+                    >
+                      Keep capture {index + 1} only
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {/* The captures side by side, oldest first */}
+            <ul className="text-amber-900">
+              {duplicate.captures.map((capture, index) => (
+                <li key={capture.captureId}>
+                  Capture {index + 1}: on hand {capture.onHandQty ?? "?"}, min{" "}
+                  {capture.minQty ?? "?"}, max {capture.maxQty ?? "?"}
+                  {!capture.isCounted && " (not counted yet)"}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+"use client";
+
+import { AlertTriangle, Camera, Check, MapPin, Route, SkipForward, X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import type {
+  CoverageItem,
+  KnownStation,
+  StationWithDetails,
+} from "@/hooks/stations";
+import { UNEXPECTED_PRODUCT_ISSUE } from "@/lib/stations/issues";
+
+interface GuidedCaptureCardProps {
+  /** Demanded products without a valid station (in demand order) */
+  missing: string[];
+  /** Product to photograph now (undefined when the walk-through is done) */
+  productCode: string | undefined;
+  isActive: boolean;
+  skippedCount: number;
+  coverage: CoverageItem[];
+  knownStations: KnownStation[];
+  stations: StationWithDetails[];
+  onStart: () => void;
+  onSkip: () => void;
+  onRestart: () => void;
+  onStop: () => void;
+  /** Picks a known station for a stock-only capture */
+  onCount: (stationId: string) => void;
+}
+
+/**
+ * Guided walk-through of the coverage gaps: one uncaptured product at a time.
+ * A product drops out of the list once its station is valid, which moves the
+ * walk-through on to the next one.
+ */
+export function GuidedCaptureCard({
+  missing,
+  productCode,
+  isActive,
+  skippedCount,
+  coverage,
+  knownStations,
+  stations,
+  onStart,
+  onSkip,
+  onRestart,
+  onStop,
+  onCount,
+}: GuidedCaptureCardProps) {
+  if (!isActive) {
+    if (missing.length === 0) return null;
+
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">
+            {missing.length} demanded product{missing.length !== 1 ? "s" : ""}{" "}
+            still need{missing.length === 1 ? "s" : ""} a station photo.
+          </p>
+          <Button size="sm" onClick={onStart}>
+            <Route className="size-4 mr-2" />
+            Guided capture
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!productCode) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground flex items-center gap-2">
+            {missing.length === 0 ? (
+              <>
+                <Check className="size-4 text-green-600" />
+                Every demanded product has a valid station.
+              </>
+            ) : (
+              `${skippedCount} skipped product${skippedCount !== 1 ? "s" : ""} still need${skippedCount === 1 ? "s" : ""} a station photo.`
+            )}
+          </p>
+          <div className="flex gap-2">
+            {missing.length > 0 && (
+              <Button variant="outline" size="sm" onClick={onRestart}>
+                Start over
+              </Button>
+            )}
+            <Button size="sm" onClick={onStop}>
+              Done
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const item = coverage.find((c) => c.productCode === productCode);
+  const knownStation = knownStations.find((s) => s.productCode === productCode);
+  // Did the latest capture taken for this product (stations are newest first)
+  // show another product on its sign?
+  const lastCapture = stations.find((s) => s.expectedProductCode === productCode);
+  const wrongProductIssue = lastCapture?.issues?.find(
+    (i) => i.code === UNEXPECTED_PRODUCT_ISSUE
+  );
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center justify-between">
+          <span>Guided capture</span>
+          <span className="text-sm font-normal text-muted-foreground">
+            {missing.indexOf(productCode) + 1} of {missing.length}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div>
+          <p className="font-mono text-xl font-semibold">{productCode}</p>
+          {item?.productDescription && (
+            <p className="text-sm text-muted-foreground">
+              {item.productDescription}
+            </p>
+          )}
+          {item && (
+            <p className="text-sm text-muted-foreground">
+              Demand {item.demandQty}
+            </p>
+          )}
+          {knownStation?.location && (
+            <p className="text-sm flex items-center gap-1 mt-1">
+              <MapPin className="size-3" />
+              {knownStation.location}
+            </p>
+          )}
+        </div>
+
+        {wrongProductIssue && (
+          <Alert variant="destructive">
+            <AlertTriangle className="size-4" />
+            <AlertDescription>
+              {wrongProductIssue.message} - photograph the right station.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          {knownStation?.hasSignPhoto
+            ? "This station is known - counting the stock photo is enough."
+            : "Photograph this product's sign and stock below."}{" "}
+          The next product comes up once the station is valid.
+        </p>
+
+        <div className="flex flex-wrap gap-2">
+          {knownStation?.hasSignPhoto && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onCount(knownStation.id)}
+            >
+              <Camera className="size-4 mr-2" />
+              Count stock only
+            </Button>
+          )}
+          <Button variant="outline" size="sm" onClick={onSkip}>
+            <SkipForward className="size-4 mr-2" />
+            Skip
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onStop}>
+            <X className="size-4 mr-2" />
+            Stop
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
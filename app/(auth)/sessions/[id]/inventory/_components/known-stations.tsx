@@ -0,0 +1,193 @@
+"use client";
+
+import { useState } from "react";
+import { Camera, Check, Loader2, MapPin, Pencil, X } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useUpdateRegistryStation, type KnownStation } from "@/hooks/stations";
+
+interface KnownStationsCardProps {
+  sessionId: string;
+  stations: KnownStation[];
+  /** Picks the station for a stock-only capture */
+  onCount?: (stationId: string) => void;
+}
+
+/**
+ * Location cell with inline edit (location is only kept in the registry)
+ */
+function LocationCell({
+  station,
+  sessionId,
+}: {
+  station: KnownStation;
+  sessionId: string;
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [location, setLocation] = useState(station.location ?? "");
+  const updateStation = useUpdateRegistryStation();
+
+  const handleSave = () => {
+    updateStation.mutate(
+      { id: station.id, sessionId, location: location.trim() || null },
+      {
+        onSuccess: () => {
+          setIsEditing(false);
+        },
+        onError: (error) => {
+          toast.error(error.message);
+        },
+      }
+    );
+  };
+
+  if (isEditing) {
+    return (
+      <span className="flex items-center gap-1">
+        <Input
+          value={location}
+          onChange={(e) => setLocation(e.target.value)}
+          placeholder="Dock 2, rack B"
+          className="h-7"
+          disabled={updateStation.isPending}
+          autoFocus
+        />
+        <Button
+          variant="ghost"
+          size="icon-xs"
+          onClick={handleSave}
+          disabled={updateStation.isPending}
+          title="Save"
+        >
+          {updateStation.isPending ? (
+            <Loader2 className="size-3 animate-spin" />
+          ) : (
+            <Check className="size-3" />
+          )}
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon-xs"
+          onClick={() => setIsEditing(false)}
+          disabled={updateStation.isPending}
+          title="Cancel"
+        >
+          <X className="size-3" />
+        </Button>
+      </span>
+    );
+  }
+
+  return (
+    <span className="flex items-center gap-1 text-muted-foreground">
+      {station.location || "—"}
+      <Button
+        variant="ghost"
+        size="icon-xs"
+        onClick={() => {
+          setLocation(station.location ?? "");
+          setIsEditing(true);
+        }}
+        title="Set location"
+      >
+        <Pencil className="size-3" />
+      </Button>
+    </span>
+  );
+}
+
+/**
+ * Known stations from earlier sessions and whether they were counted today
+ */
+export function KnownStationsCard({
+  sessionId,
+  stations,
+  onCount,
+}: KnownStationsCardProps) {
+  if (stations.length === 0) return null;
+
+  const countedCount = stations.filter((s) => s.isCounted).length;
+
+  // Uncounted stations first - those are the ones still to walk to
+  const sorted = [...stations].sort(
+    (a, b) =>
+      Number(a.isCounted) - Number(b.isCounted) ||
+      a.productCode.localeCompare(b.productCode)
+  );
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <MapPin className="size-4" />
+            Known Stations
+          </span>
+          <span className="text-sm font-normal text-muted-foreground">
+            {countedCount}/{stations.length} counted today
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Product</TableHead>
+              <TableHead>Location</TableHead>
+              <TableHead className="text-right">Min / Max</TableHead>
+              <TableHead className="text-right">Today</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sorted.map((station) => (
+              <TableRow key={station.id}>
+                <TableCell>
+                  <span className="font-mono text-sm">{station.productCode}</span>
+                  {station.isDemanded && (
+                    <Badge variant="info" className="ml-2">
+                      Demanded
+                    </Badge>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <LocationCell station={station} sessionId={sessionId} />
+                </TableCell>
+                <TableCell className="text-right tabular-nums">
+                  {station.minQty ?? "—"} / {station.maxQty ?? "—"}
+                </TableCell>
+                <TableCell className="text-right">
+                  {station.isCounted ? (
+                    <Badge variant="success">Counted</Badge>
+                  ) : onCount && station.hasSignPhoto ? (
+                    <Button
+                      variant="outline"
+                      size="xs"
+                      onClick={() => onCount(station.id)}
+                      title="Count from a stock photo"
+                    >
+                      <Camera className="size-3" />
+                      Count
+                    </Button>
+                  ) : (
+                    <Badge variant="outline">Not counted</Badge>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,19 +1,38 @@
 "use client";
 
 import { useState } from "react";
-import { Upload } from "lucide-react";
+import { Plus, Upload, X } from "lucide-react";
 import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
 import { ImageCapture } from "@/components/ui/image-capture";
 import { AiActionButton } from "@/components/ai/ai-action-button";
 import { DEFAULT_STATION_MODEL_ID } from "@/components/ai/model-selector";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   useCreatePendingStation,
   useUploadStationImages,
   useExtractStation,
+  type KnownStation,
 } from "@/hooks/stations";
 
+// Radix Select does not allow an empty value, so "new station" needs a sentinel
+const NEW_STATION = "__new__";
+
 interface StationCaptureFormProps {
   sessionId: string;
+  /** Registry stations (only those with a sign photo can be counted from stock alone) */
+  knownStations?: KnownStation[];
+  /** Known station picked for a stock-only capture (undefined = read the sign) */
+  knownStationId?: string;
+  onKnownStationChange?: (stationId: string | undefined) => void;
+  /** Guided capture: product the photos are taken for (checked against the sign) */
+  expectedProductCode?: string;
 }
 
 /**
@@ -24,19 +43,50 @@ interface StationCaptureFormProps {
  * - Station extraction is simple (single product code + quantities)
  * - No benefit from streaming UI for such small data
  * - Keeps the component self-contained
+ *
+ * Picking a known station skips the sign photo: only the stock is counted and
+ * min/max come from the station registry. Stations without a stored sign photo
+ * cannot be picked - the stock is verified against that photo.
+ *
+ * Wide or deep shelves can take several stock photos; each is counted
+ * separately and the counts are summed.
+ *
+ * In guided capture the expected product is stored with the capture so a sign
+ * showing another product is flagged.
  */
-export function StationCaptureForm({ sessionId }: StationCaptureFormProps) {
+export function StationCaptureForm({
+  sessionId,
+  knownStations = [],
+  knownStationId,
+  onKnownStationChange,
+  expectedProductCode,
+}: StationCaptureFormProps) {
   const [signImage, setSignImage] = useState<File | null>(null);
-  const [stockImage, setStockImage] = useState<File | null>(null);
+  // One slot per stock photo (a slot is null until its photo is taken)
+  const [stockImages, setStockImages] = useState<(File | null)[]>([null]);
   const [isCreating, setIsCreating] = useState(false);
 
   const createPendingStation = useCreatePendingStation();
   const uploadStationImages = useUploadStationImages();
   const extractStation = useExtractStation();
 
+  const stockOnlyStations = knownStations.filter((s) => s.hasSignPhoto);
+  const knownStation = stockOnlyStations.find((s) => s.id === knownStationId);
+  const isStockOnly = !!knownStation;
+  const takenStockImages = stockImages.filter((f): f is File => f !== null);
+  const hasImages = takenStockImages.length > 0 && (isStockOnly || !!signImage);
+
+  const setStockImage = (index: number, file: File | null) => {
+    setStockImages((images) => images.map((f, i) => (i === index ? file : f)));
+  };
+
   const handleSubmit = async (modelId: string) => {
-    if (!signImage || !stockImage) {
-      toast.error("Both sign and stock images are required");
+    if (!hasImages) {
+      toast.error(
+        isStockOnly
+          ? "A stock image is required"
+          : "Both sign and stock images are required"
+      );
       return;
     }
 
@@ -44,7 +94,11 @@ export function StationCaptureForm({ sessionId }: StationCaptureFormProps) {
 
     try {
       // Phase 1: Create station instantly (returns immediately)
-      const result = await createPendingStation.mutateAsync({ sessionId });
+      const result = await createPendingStation.mutateAsync({
+        sessionId,
+        knownStationId: knownStation?.id,
+        expectedProductCode,
+      });
 
       const stationId = result.station?.id;
       if (!stationId) {
@@ -54,12 +108,13 @@ export function StationCaptureForm({ sessionId }: StationCaptureFormProps) {
       }
 
       // Store images for background upload
-      const signToUpload = signImage;
-      const stockToUpload = stockImage;
+      const signToUpload = isStockOnly ? null : signImage;
+      const stockToUpload = takenStockImages;
 
       // Clear form immediately - ready for next capture
       setSignImage(null);
-      setStockImage(null);
+      setStockImages([null]);
+      onKnownStationChange?.(undefined);
       setIsCreating(false);
 
       toast.success("Station created, uploading images...");
@@ -73,7 +128,7 @@ export function StationCaptureForm({ sessionId }: StationCaptureFormProps) {
             stationId,
             sessionId,
             signImage: signToUpload,
-            stockImage: stockToUpload,
+            stockImages: stockToUpload,
           });
 
           // Upload complete - trigger extraction with URLs (no DB lookup needed)
@@ -84,8 +139,8 @@ export function StationCaptureForm({ sessionId }: StationCaptureFormProps) {
               id: stationId,
               sessionId,
               modelId,
-              signImageUrl: result.signUrl,
-              stockImageUrl: result.stockUrl,
+              signImageUrl: result.signUrl ?? undefined,
+              stockImageUrls: result.stockUrls,
             },
             {
               onSuccess: (extractionData) => {
@@ -131,7 +186,7 @@ export function StationCaptureForm({ sessionId }: StationCaptureFormProps) {
       <div className="flex justify-start">
         <AiActionButton
           onAction={handleSubmit}
-          disabled={isProcessing || !signImage || !stockImage}
+          disabled={isProcessing || !hasImages}
           isLoading={isProcessing}
           label="Confirm & Extract"
           loadingLabel="Creating..."
@@ -140,22 +195,79 @@ export function StationCaptureForm({ sessionId }: StationCaptureFormProps) {
         />
       </div>
 
-      {/* Two stacked capture boxes */}
-      <div className="space-y-3">
-        <ImageCapture
-          label="Station Sign"
-          value={signImage}
-          onChange={setSignImage}
+      {/* Known station - counting only, sign values from the registry */}
+      {stockOnlyStations.length > 0 && (
+        <Select
+          value={knownStationId ?? NEW_STATION}
+          onValueChange={(value) =>
+            onKnownStationChange?.(value === NEW_STATION ? undefined : value)
+          }
           disabled={isProcessing}
-          alt="Sign"
-        />
-        <ImageCapture
-          label="Stock Photo"
-          value={stockImage}
-          onChange={setStockImage}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NEW_STATION}>New station (read the sign)</SelectItem>
+            {stockOnlyStations.map((station) => (
+              <SelectItem key={station.id} value={station.id}>
+                {station.productCode}
+                {station.location ? ` · ${station.location}` : ""} (min{" "}
+                {station.minQty ?? "?"}, max {station.maxQty ?? "?"})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {/* Stacked capture boxes (no sign for a known station) */}
+      <div className="space-y-3">
+        {!isStockOnly && (
+          <ImageCapture
+            label="Station Sign"
+            value={signImage}
+            onChange={setSignImage}
+            disabled={isProcessing}
+            alt="Sign"
+          />
+        )}
+        {stockImages.map((image, index) => (
+          <div key={index} className="space-y-1">
+            <ImageCapture
+              label={
+                stockImages.length > 1
+                  ? `Stock Photo ${index + 1}`
+                  : "Stock Photo"
+              }
+              value={image}
+              onChange={(file) => setStockImage(index, file)}
+              disabled={isProcessing}
+              alt={`Stock ${index + 1}`}
+            />
+            {index > 0 && (
+              <Button
+                variant="ghost"
+                size="xs"
+                onClick={() =>
+                  setStockImages((images) => images.filter((_, i) => i !== index))
+                }
+                disabled={isProcessing}
+              >
+                <X className="size-3" />
+                Remove photo {index + 1}
+              </Button>
+            )}
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setStockImages((images) => [...images, null])}
           disabled={isProcessing}
-          alt="Stock"
-        />
+        >
+          <Plus className="size-4" />
+          Add stock photo (wide or deep shelf)
+        </Button>
       </div>
     </div>
   );
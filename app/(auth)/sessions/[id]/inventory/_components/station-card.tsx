@@ -8,6 +8,7 @@ import {
   ChevronDown,
   ChevronUp,
   Loader2,
+  Pencil,
   Trash2,
   XCircle,
   RefreshCw,
@@ -34,18 +35,57 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
-import { useDeleteStation, useExtractStation } from "@/hooks/stations";
-import type { StationCapture } from "@/lib/db/schema";
+import {
+  useConfirmStation,
+  useDeleteStation,
+  useExtractStation,
+  type StationWithDetails,
+} from "@/hooks/stations";
+import { hasCaptureImages } from "@/lib/workflow/compute";
+import { confidenceLevel, type ConfidenceLevel } from "@/lib/stations/confidence";
+import { StationIssues } from "./station-issues";
+import { StationOverrideDialog } from "./station-override-dialog";
+
+const CONFIDENCE_BADGE_VARIANTS: Record<
+  ConfidenceLevel,
+  "success" | "info" | "warning"
+> = {
+  high: "success",
+  medium: "info",
+  low: "warning",
+};
+
+/**
+ * Confidence of one AI read (nothing when that side was not scored)
+ */
+function ConfidenceBadge({
+  label,
+  score,
+}: {
+  label: string;
+  score: number | null;
+}) {
+  const level = confidenceLevel(score);
+  if (!level) return null;
+
+  return (
+    <Badge variant={CONFIDENCE_BADGE_VARIANTS[level]}>
+      {label}: {level}
+    </Badge>
+  );
+}
 
 interface StationCardProps {
-  station: StationCapture;
+  station: StationWithDetails;
   sessionId: string;
 }
 
 export function StationCard({ station, sessionId }: StationCardProps) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
   const deleteStation = useDeleteStation();
   const extractStation = useExtractStation();
+  const confirmStation = useConfirmStation();
 
   const handleDelete = () => {
     deleteStation.mutate(
@@ -86,6 +126,20 @@ export function StationCard({ station, sessionId }: StationCardProps) {
     );
   };
 
+  const handleConfirm = () => {
+    confirmStation.mutate(
+      { id: station.id, sessionId },
+      {
+        onSuccess: () => {
+          toast.success("Station confirmed");
+        },
+        onError: (error) => {
+          toast.error(error.message);
+        },
+      },
+    );
+  };
+
   const getStatusBadge = () => {
     switch (station.status) {
       case "uploading":
@@ -129,7 +183,29 @@ export function StationCard({ station, sessionId }: StationCardProps) {
   };
 
   const isUploading = station.status === "uploading";
-  const isProcessing = deleteStation.isPending || extractStation.isPending;
+  const isProcessing =
+    deleteStation.isPending ||
+    extractStation.isPending ||
+    confirmStation.isPending;
+  const canConfirm =
+    station.status === "needs_attention" &&
+    !!station.productCode &&
+    station.minQty !== null &&
+    station.maxQty !== null &&
+    station.onHandQty !== null;
+  // Several stock photos are counted separately - show each count so a
+  // product counted on two photos stands out
+  const stockPhotos =
+    station.stockPhotos.length > 0
+      ? station.stockPhotos
+      : station.stockBlobUrl
+        ? [{ id: "stock", blobUrl: station.stockBlobUrl, onHandQty: null }]
+        : [];
+  const isMultiPhoto = stockPhotos.length > 1;
+  // A correction made after the last extraction is still in effect
+  const activeOverride = station.overrides.find(
+    (o) => !station.extractedAt || o.createdAt >= station.extractedAt
+  );
 
   return (
     <Card>
@@ -149,7 +225,7 @@ export function StationCard({ station, sessionId }: StationCardProps) {
               size="icon"
               onClick={handleReExtract}
               disabled={
-                isProcessing || isUploading || !station.signBlobUrl || !station.stockBlobUrl
+                isProcessing || isUploading || !hasCaptureImages(station)
               }
               title="Re-extract"
             >
@@ -159,6 +235,15 @@ export function StationCard({ station, sessionId }: StationCardProps) {
                 <RefreshCw className="size-4" />
               )}
             </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setIsEditing(true)}
+              disabled={isProcessing || isUploading || !station.extractedAt}
+              title="Correct values"
+            >
+              <Pencil className="size-4" />
+            </Button>
             <AlertDialog>
               <AlertDialogTrigger asChild>
                 <Button variant="ghost" size="icon" disabled={isProcessing || isUploading}>
@@ -217,6 +302,11 @@ export function StationCard({ station, sessionId }: StationCardProps) {
                     {station.onHandQty ?? "—"}
                   </div>
                   <div className="text-xs text-muted-foreground">On Hand</div>
+                  {isMultiPhoto && (
+                    <div className="text-xs text-muted-foreground tabular-nums">
+                      {stockPhotos.map((p) => p.onHandQty ?? "?").join(" + ")}
+                    </div>
+                  )}
                 </div>
                 <div>
                   <div className="text-2xl font-bold">{station.minQty ?? "—"}</div>
@@ -229,6 +319,45 @@ export function StationCard({ station, sessionId }: StationCardProps) {
               </div>
             )}
 
+            {/* Confidence of the sign read and the count */}
+            {station.extractedAt && station.status !== "failed" && (
+              <div className="space-y-1">
+                <div className="flex flex-wrap justify-center gap-2">
+                  <ConfidenceBadge label="Sign" score={station.signConfidence} />
+                  <ConfidenceBadge
+                    label="Count"
+                    score={station.stockCountConfidence}
+                  />
+                  {station.matchStatus === "matched" && (
+                    <Badge
+                      variant="success"
+                      title={station.matchReason ?? undefined}
+                    >
+                      Stock matches sign
+                    </Badge>
+                  )}
+                  {station.matchStatus === "mismatch" && (
+                    <Badge variant="error" title={station.matchReason ?? undefined}>
+                      Stock does not match sign
+                    </Badge>
+                  )}
+                  {station.matchStatus === "uncertain" && (
+                    <Badge
+                      variant="warning"
+                      title={station.matchReason ?? undefined}
+                    >
+                      Stock match uncertain
+                    </Badge>
+                  )}
+                </div>
+                {station.countingMethod && (
+                  <p className="text-xs text-muted-foreground text-center">
+                    {station.countingMethod}
+                  </p>
+                )}
+              </div>
+            )}
+
             {/* Warning message for needs_attention status */}
             {station.status === "needs_attention" && station.errorMessage && (
               <Alert>
@@ -238,6 +367,38 @@ export function StationCard({ station, sessionId }: StationCardProps) {
               </Alert>
             )}
 
+            {/* Manual correction in effect, with what the AI had read */}
+            {activeOverride && (
+              <p className="text-xs text-muted-foreground text-center">
+                Corrected by {activeOverride.changedBy}: {activeOverride.reason}
+                {" · "}AI read {activeOverride.aiValues.productCode ?? "?"}, on
+                hand {activeOverride.aiValues.onHandQty ?? "?"}, min{" "}
+                {activeOverride.aiValues.minQty ?? "?"}, max{" "}
+                {activeOverride.aiValues.maxQty ?? "?"}
+              </p>
+            )}
+
+            {/* Catalog discrepancies and other station issues */}
+            <StationIssues station={station} sessionId={sessionId} />
+
+            {/* Review - confirm checked values so the station counts as valid */}
+            {canConfirm && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                onClick={handleConfirm}
+                disabled={isProcessing}
+              >
+                {confirmStation.isPending ? (
+                  <Loader2 className="size-4 mr-2 animate-spin" />
+                ) : (
+                  <Check className="size-4 mr-2" />
+                )}
+                Values are correct
+              </Button>
+            )}
+
             {/* Collapsible Image Preview */}
             <Collapsible open={isExpanded} onOpenChange={setIsExpanded}>
               <CollapsibleTrigger asChild>
@@ -272,27 +433,46 @@ export function StationCard({ station, sessionId }: StationCardProps) {
                       </div>
                     </div>
                   )}
-                  {station.stockBlobUrl && (
+                  {!station.signBlobUrl && station.stationId && (
                     <div className="space-y-1">
                       <p className="text-xs font-medium text-muted-foreground">
-                        Stock
+                        Sign
+                      </p>
+                      <div className="aspect-[3/4] bg-muted rounded-lg flex items-center justify-center p-2 text-center text-xs text-muted-foreground">
+                        Min/max from the station registry
+                      </div>
+                    </div>
+                  )}
+                  {stockPhotos.map((photo, index) => (
+                    <div key={photo.id} className="space-y-1">
+                      <p className="text-xs font-medium text-muted-foreground">
+                        {isMultiPhoto ? `Stock ${index + 1}` : "Stock"}
+                        {isMultiPhoto && photo.onHandQty !== null && (
+                          <span className="tabular-nums"> · {photo.onHandQty}</span>
+                        )}
                       </p>
                       <div className="relative aspect-[3/4] bg-muted rounded-lg overflow-hidden">
                         <Image
-                          src={station.stockBlobUrl}
-                          alt="Station stock"
+                          src={photo.blobUrl}
+                          alt={`Station stock ${index + 1}`}
                           fill
                           className="object-cover"
                         />
                       </div>
                     </div>
-                  )}
+                  ))}
                 </div>
               </CollapsibleContent>
             </Collapsible>
           </>
         )}
       </CardContent>
+      <StationOverrideDialog
+        station={station}
+        sessionId={sessionId}
+        open={isEditing}
+        onOpenChange={setIsEditing}
+      />
     </Card>
   );
 }
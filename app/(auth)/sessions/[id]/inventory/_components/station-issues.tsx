@@ -0,0 +1,102 @@
+"use client";
+
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useResolveMinMaxDiscrepancy } from "@/hooks/stations";
+import type { StationCapture } from "@/lib/db/schema";
+import {
+  LOW_COUNT_CONFIDENCE_ISSUE,
+  LOW_SIGN_CONFIDENCE_ISSUE,
+  MIN_MAX_MISMATCH_ISSUE,
+  NOT_IN_CATALOG_ISSUE,
+  STOCK_MATCH_UNCERTAIN_ISSUE,
+  STOCK_MISMATCH_ISSUE,
+  UNEXPECTED_PRODUCT_ISSUE,
+} from "@/lib/stations/issues";
+
+const ISSUE_TITLES: Record<string, string> = {
+  [NOT_IN_CATALOG_ISSUE]: "Not in catalog",
+  [MIN_MAX_MISMATCH_ISSUE]: "Sign differs from catalog",
+  [LOW_SIGN_CONFIDENCE_ISSUE]: "Check the sign",
+  [LOW_COUNT_CONFIDENCE_ISSUE]: "Check the count",
+  [STOCK_MISMATCH_ISSUE]: "Wrong product in stock photo?",
+  [STOCK_MATCH_UNCERTAIN_ISSUE]: "Check the stock product",
+  [UNEXPECTED_PRODUCT_ISSUE]: "Not the expected product",
+};
+
+interface StationIssuesProps {
+  station: StationCapture;
+  sessionId: string;
+}
+
+/**
+ * Station issues with a choice of authoritative value for min/max discrepancies
+ */
+export function StationIssues({ station, sessionId }: StationIssuesProps) {
+  const resolveMinMax = useResolveMinMaxDiscrepancy();
+
+  if (!station.issues || station.issues.length === 0) return null;
+
+  const handleResolve = (source: "sign" | "catalog") => {
+    resolveMinMax.mutate(
+      { id: station.id, sessionId, source },
+      {
+        onSuccess: () => {
+          toast.success(
+            source === "sign"
+              ? "Catalog updated to the sign values"
+              : "Station uses the catalog values"
+          );
+        },
+        onError: (error) => {
+          toast.error(error.message);
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      {station.issues.map((issue) => (
+        <Alert key={issue.code}>
+          <AlertTriangle className="size-4" />
+          <AlertTitle>{ISSUE_TITLES[issue.code] ?? "Issue"}</AlertTitle>
+          <AlertDescription>
+            <p>{issue.message}</p>
+            {issue.code === MIN_MAX_MISMATCH_ISSUE && (
+              <div className="flex flex-wrap gap-2 mt-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleResolve("sign")}
+                  disabled={resolveMinMax.isPending}
+                >
+                  {resolveMinMax.isPending &&
+                    resolveMinMax.variables?.source === "sign" && (
+                      <Loader2 className="size-3 animate-spin" />
+                    )}
+                  Use sign ({station.minQty ?? "?"} / {station.maxQty ?? "?"})
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleResolve("catalog")}
+                  disabled={resolveMinMax.isPending}
+                >
+                  {resolveMinMax.isPending &&
+                    resolveMinMax.variables?.source === "catalog" && (
+                      <Loader2 className="size-3 animate-spin" />
+                    )}
+                  Use catalog ({issue.catalogMinQty ?? "?"} /{" "}
+                  {issue.catalogMaxQty ?? "?"})
+                </Button>
+              </div>
+            )}
+          </AlertDescription>
+        </Alert>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Field, FieldGroup, FieldLabel } from "@/components/ui/field";
+import { useOverrideStation } from "@/hooks/stations";
+import type { StationCapture } from "@/lib/db/schema";
+
+interface StationOverrideDialogProps {
+  station: StationCapture;
+  sessionId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const toInput = (value: number | null) => (value === null ? "" : String(value));
+
+function StationOverrideForm({
+  station,
+  sessionId,
+  onDone,
+}: {
+  station: StationCapture;
+  sessionId: string;
+  onDone: () => void;
+}) {
+  const [productCode, setProductCode] = useState(station.productCode ?? "");
+  const [onHandQty, setOnHandQty] = useState(toInput(station.onHandQty));
+  const [minQty, setMinQty] = useState(toInput(station.minQty));
+  const [maxQty, setMaxQty] = useState(toInput(station.maxQty));
+  const [changedBy, setChangedBy] = useState("");
+  const [reason, setReason] = useState("");
+  const overrideStation = useOverrideStation();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const quantities = [onHandQty, minQty, maxQty].map(Number);
+    if (
+      [onHandQty, minQty, maxQty].some((v) => v.trim() === "") ||
+      quantities.some((q) => !Number.isInteger(q) || q < 0)
+    ) {
+      toast.error("On-hand, min and max must be whole numbers of at least 0");
+      return;
+    }
+    const [onHand, min, max] = quantities;
+    if (min > max) {
+      toast.error("Min cannot be greater than max");
+      return;
+    }
+    if (!productCode.trim()) {
+      toast.error("Product code is required");
+      return;
+    }
+    if (!changedBy.trim() || !reason.trim()) {
+      toast.error("Your name and a reason are required");
+      return;
+    }
+
+    // Only send what changed - the audit shows exactly what was corrected
+    const changes = {
+      ...(productCode.trim() !== station.productCode
+        ? { productCode: productCode.trim() }
+        : {}),
+      ...(onHand !== station.onHandQty ? { onHandQty: onHand } : {}),
+      ...(min !== station.minQty ? { minQty: min } : {}),
+      ...(max !== station.maxQty ? { maxQty: max } : {}),
+    };
+
+    overrideStation.mutate(
+      {
+        id: station.id,
+        sessionId,
+        changes: { ...changes, changedBy, reason },
+      },
+      {
+        onSuccess: () => {
+          toast.success("Station corrected");
+          onDone();
+        },
+        onError: (error) => {
+          toast.error(error.message);
+        },
+      }
+    );
+  };
+
+  const isPending = overrideStation.isPending;
+
+  return (
+    <form onSubmit={handleSubmit} className="grid gap-4">
+      <FieldGroup>
+        <Field>
+          <FieldLabel htmlFor="override-product">Product code</FieldLabel>
+          <Input
+            id="override-product"
+            value={productCode}
+            onChange={(e) => setProductCode(e.target.value)}
+            placeholder="ART.100013"
+            className="font-mono"
+            disabled={isPending}
+          />
+        </Field>
+        <div className="grid grid-cols-3 gap-4">
+          <Field>
+            <FieldLabel htmlFor="override-on-hand">On hand</FieldLabel>
+            <Input
+              id="override-on-hand"
+              type="number"
+              min={0}
+              value={onHandQty}
+              onChange={(e) => setOnHandQty(e.target.value)}
+              disabled={isPending}
+            />
+          </Field>
+          <Field>
+            <FieldLabel htmlFor="override-min">Min</FieldLabel>
+            <Input
+              id="override-min"
+              type="number"
+              min={0}
+              value={minQty}
+              onChange={(e) => setMinQty(e.target.value)}
+              disabled={isPending}
+            />
+          </Field>
+          <Field>
+            <FieldLabel htmlFor="override-max">Max</FieldLabel>
+            <Input
+              id="override-max"
+              type="number"
+              min={0}
+              value={maxQty}
+              onChange={(e) => setMaxQty(e.target.value)}
+              disabled={isPending}
+            />
+          </Field>
+        </div>
+        <Field>
+          <FieldLabel htmlFor="override-name">Your name</FieldLabel>
+          <Input
+            id="override-name"
+            value={changedBy}
+            onChange={(e) => setChangedBy(e.target.value)}
+            disabled={isPending}
+          />
+        </Field>
+        <Field>
+          <FieldLabel htmlFor="override-reason">Reason</FieldLabel>
+          <Textarea
+            id="override-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Recounted on site - two beds hidden behind the rack"
+            disabled={isPending}
+          />
+        </Field>
+      </FieldGroup>
+      <DialogFooter>
+        <Button type="submit" disabled={isPending}>
+          {isPending ? (
+            <>
+              <Loader2 className="size-4 mr-2 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            "Save correction"
+          )}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+}
+
+/**
+ * Manual correction of a station's values when the AI read them wrong
+ */
+export function StationOverrideDialog({
+  station,
+  sessionId,
+  open,
+  onOpenChange,
+}: StationOverrideDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Correct station</DialogTitle>
+          <DialogDescription>
+            The AI values are kept for the record. The station becomes valid
+            and the order uses the corrected numbers.
+          </DialogDescription>
+        </DialogHeader>
+        {/* Remount per open so the form starts from the current values */}
+        {open && (
+          <StationOverrideForm
+            key={station.id}
+            station={station}
+            sessionId={sessionId}
+            onDone={() => onOpenChange(false)}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { use } from "react";
+import { use, useState } from "react";
 import Link from "next/link";
 import dynamic from "next/dynamic";
 import { Button } from "@/components/ui/button";
@@ -10,6 +10,9 @@ import { useSession } from "@/hooks/sessions";
 import { useStations, useCoverage } from "@/hooks/stations";
 import { StationCard } from "./_components/station-card";
 import { CoverageSummaryCard } from "./_components/coverage-summary";
+import { KnownStationsCard } from "./_components/known-stations";
+import { DuplicateStations } from "./_components/duplicate-stations";
+import { GuidedCaptureCard } from "./_components/guided-capture";
 import { WorkflowNavigation } from "@/components/workflow-navigation";
 
 // Dynamic import to avoid hydration issues with camera input
@@ -59,6 +62,9 @@ function StationCardSkeleton() {
 
 export default function InventoryPage({ params }: InventoryPageProps) {
   const { id } = use(params);
+  const [knownStationId, setKnownStationId] = useState<string>();
+  // Guided capture walk-through (null when off) and the products skipped in it
+  const [guided, setGuided] = useState<{ skipped: string[] } | null>(null);
 
   const { data: sessionData, isLoading: sessionLoading } = useSession(id);
   const { data: stationsData, isLoading: stationsLoading } = useStations(id);
@@ -67,7 +73,29 @@ export default function InventoryPage({ params }: InventoryPageProps) {
   const session = sessionData?.session;
   const stations = stationsData?.stations ?? [];
   const coverage = coverageData?.coverage ?? [];
+  const knownStations = coverageData?.knownStations ?? [];
+  const duplicateStations = coverageData?.duplicateStations ?? [];
+  const missing = coverageData?.missing ?? [];
+  // Current guided product: the first gap not skipped - it moves on by itself
+  // once the product's station is valid and drops out of the missing list
+  const guidedProductCode = guided
+    ? missing.find((code) => !guided.skipped.includes(code))
+    : undefined;
+
+  // A guided product whose station was read from its sign before is counted
+  // from a stock photo alone - pick its known station when the step starts
+  // (the form can still switch back to reading the sign)
+  const [guidedStep, setGuidedStep] = useState<string>();
+  if (guidedProductCode !== guidedStep) {
+    setGuidedStep(guidedProductCode);
+    setKnownStationId(
+      knownStations.find(
+        (s) => s.productCode === guidedProductCode && s.hasSignPhoto
+      )?.id
+    );
+  }
   const summary = coverageData?.summary ?? {
+    coverageMode: "lenient" as const,
     canProceed: false,
     coveredCount: 0,
     totalCount: 0,
@@ -98,9 +126,41 @@ export default function InventoryPage({ params }: InventoryPageProps) {
         </p>
       </div>
 
+      {/* Guided walk-through of the products still missing a station */}
+      {!coverageLoading && (
+        <div className="mb-6">
+          <GuidedCaptureCard
+            missing={missing}
+            productCode={guidedProductCode}
+            isActive={!!guided}
+            skippedCount={guided?.skipped.length ?? 0}
+            coverage={coverage}
+            knownStations={knownStations}
+            stations={stations}
+            onStart={() => setGuided({ skipped: [] })}
+            onSkip={() =>
+              setGuided((g) =>
+                g && guidedProductCode
+                  ? { skipped: [...g.skipped, guidedProductCode] }
+                  : g
+              )
+            }
+            onRestart={() => setGuided({ skipped: [] })}
+            onStop={() => setGuided(null)}
+            onCount={setKnownStationId}
+          />
+        </div>
+      )}
+
       {/* Station Capture Form - always visible */}
       <div className="mb-6">
-        <StationCaptureForm sessionId={id} />
+        <StationCaptureForm
+          sessionId={id}
+          knownStations={knownStations}
+          knownStationId={knownStationId}
+          onKnownStationChange={setKnownStationId}
+          expectedProductCode={guidedProductCode}
+        />
       </div>
 
       {/* Coverage Summary - skeleton while loading */}
@@ -108,10 +168,33 @@ export default function InventoryPage({ params }: InventoryPageProps) {
         {coverageLoading ? (
           <CoverageSkeleton />
         ) : (
-          <CoverageSummaryCard coverage={coverage} summary={summary} />
+          <CoverageSummaryCard
+            sessionId={id}
+            coverage={coverage}
+            summary={summary}
+          />
         )}
       </div>
 
+      {/* Products captured at several stations - merge or keep one */}
+      {duplicateStations.length > 0 && (
+        <DuplicateStations sessionId={id} duplicates={duplicateStations} />
+      )}
+
+      {/* Known stations from the registry - shows which were not counted yet */}
+      {!coverageLoading && knownStations.length > 0 && (
+        <div className="mb-6">
+          <KnownStationsCard
+            sessionId={id}
+            stations={knownStations}
+            onCount={(stationId) => {
+              setKnownStationId(stationId);
+              window.scrollTo({ top: 0, behavior: "smooth" });
+            }}
+          />
+        </div>
+      )}
+
       {/* Station List - skeleton while loading */}
       {stationsLoading ? (
         <div className="space-y-4 mb-6">
@@ -130,8 +213,17 @@ export default function InventoryPage({ params }: InventoryPageProps) {
       ) : null}
 
       <WorkflowNavigation
-        prev={{ href: `/sessions/${id}/demand`, label: "Demand" }}
-        next={{ href: `/sessions/${id}/order`, label: "Order" }}
+        sessionId={id}
+        prev={{
+          href: `/sessions/${id}/demand`,
+          label: "Demand",
+          status: "review_demand",
+        }}
+        next={{
+          href: `/sessions/${id}/order`,
+          label: "Order",
+          status: "review_order",
+        }}
       />
     </main>
   );
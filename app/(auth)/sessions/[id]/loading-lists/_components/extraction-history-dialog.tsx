@@ -0,0 +1,308 @@
+"use client";
+
+import { useState } from "react";
+import { GitCompare, Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  useActivateExtraction,
+  useExtractionComparison,
+  useExtractionHistory,
+} from "@/hooks/extraction";
+import { AVAILABLE_MODELS } from "@/lib/ai/models";
+import { cn } from "@/lib/utils";
+
+interface ExtractionHistoryDialogProps {
+  groupId: string;
+  sessionId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function formatDateTime(date: string) {
+  return new Intl.DateTimeFormat("en-US", {
+    dateStyle: "medium",
+    timeStyle: "short",
+  }).format(new Date(date));
+}
+
+function modelName(modelId: string | null) {
+  if (!modelId) return "Unknown model";
+  return AVAILABLE_MODELS.find((m) => m.id === modelId)?.name ?? modelId;
+}
+
+const changeLabels = {
+  added: "Added",
+  removed: "Removed",
+  changed: "Changed",
+  unchanged: "Same",
+} as const;
+
+const changeVariants = {
+  added: "success",
+  removed: "error",
+  changed: "warning",
+  unchanged: "outline",
+} as const;
+
+/**
+ * Item diff of a version against the active one
+ */
+function ComparisonView({
+  groupId,
+  baseId,
+  targetId,
+}: {
+  groupId: string;
+  baseId: string;
+  targetId: string;
+}) {
+  const { data, isLoading, error } = useExtractionComparison(
+    groupId,
+    baseId,
+    targetId
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center gap-2 py-4 text-muted-foreground">
+        <Loader2 className="size-4 animate-spin" />
+        Comparing...
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <p className="py-4 text-center text-destructive">
+        {error?.message ?? "Failed to compare extractions"}
+      </p>
+    );
+  }
+
+  const differences = data.items.filter((item) => item.change !== "unchanged");
+  const manualEdits = [data.base, data.target]
+    .filter((side) => side.manualEditCount > 0)
+    .map((side) => `v${side.version}: ${side.manualEditCount}`);
+
+  return (
+    <div className="space-y-2">
+      <p className="text-muted-foreground">
+        v{data.base.version} → v{data.target.version}: {data.summary.added} added,{" "}
+        {data.summary.removed} removed, {data.summary.changed} changed,{" "}
+        {data.summary.unchanged} unchanged
+      </p>
+      {manualEdits.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Compares extracted items only. Manual edits are not included (
+          {manualEdits.join(", ")}).
+        </p>
+      )}
+      {differences.length === 0 ? (
+        <p className="py-2 text-center text-muted-foreground">
+          Both versions have the same items
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="h-8">Activity</TableHead>
+              <TableHead className="h-8">Code</TableHead>
+              <TableHead className="h-8 text-right">v{data.base.version}</TableHead>
+              <TableHead className="h-8 text-right">v{data.target.version}</TableHead>
+              <TableHead className="h-8" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {differences.map((item) => (
+              <TableRow key={`${item.activityCode}|${item.productCode}`}>
+                <TableCell className="py-1.5 font-mono">{item.activityCode}</TableCell>
+                <TableCell className="py-1.5 font-mono">{item.productCode}</TableCell>
+                <TableCell className="py-1.5 text-right tabular-nums">
+                  {item.baseQty || "—"}
+                </TableCell>
+                <TableCell className="py-1.5 text-right tabular-nums">
+                  {item.targetQty || "—"}
+                </TableCell>
+                <TableCell className="py-1.5 text-right">
+                  <Badge variant={changeVariants[item.change]}>
+                    {changeLabels[item.change]}
+                  </Badge>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
+
+export function ExtractionHistoryDialog({
+  groupId,
+  sessionId,
+  open,
+  onOpenChange,
+}: ExtractionHistoryDialogProps) {
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const { data, isLoading } = useExtractionHistory(groupId, open);
+  const activateExtraction = useActivateExtraction();
+
+  const versions = data?.versions ?? [];
+  const active = versions.find((v) => v.isActive);
+
+  const handleRestore = (extractionId: string, version: number) => {
+    activateExtraction.mutate(
+      { groupId, extractionId, sessionId },
+      {
+        onSuccess: () => {
+          toast.success(`Restored extraction v${version}`);
+          setCompareId(null);
+        },
+        onError: (error) => {
+          toast.error(error.message);
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) setCompareId(null);
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Extraction history</DialogTitle>
+          <DialogDescription>
+            Every extraction run is kept. Compare what a version extracted with
+            the active one or restore it (with its manual edits).
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 py-6 text-muted-foreground">
+            <Loader2 className="size-4 animate-spin" />
+            Loading history...
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="py-6 text-center text-muted-foreground">
+            No extractions yet
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="h-8">Version</TableHead>
+                <TableHead className="h-8">Model</TableHead>
+                <TableHead className="h-8 text-right">Items</TableHead>
+                <TableHead className="h-8 text-right">Cost</TableHead>
+                <TableHead className="h-8" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {versions.map((version) => (
+                <TableRow
+                  key={version.id}
+                  className={cn(compareId === version.id && "bg-muted/50")}
+                >
+                  <TableCell className="py-1.5">
+                    <div className="flex items-center gap-1.5">
+                      <span className="font-medium">v{version.version}</span>
+                      {version.isActive && <Badge variant="success">Active</Badge>}
+                      {version.status === "error" && (
+                        <Badge variant="error">Error</Badge>
+                      )}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {formatDateTime(version.extractedAt)}
+                    </div>
+                  </TableCell>
+                  <TableCell className="py-1.5 text-muted-foreground">
+                    {modelName(version.model)}
+                  </TableCell>
+                  <TableCell className="py-1.5 text-right tabular-nums">
+                    {version.itemCount}
+                    {version.manualEditCount > 0 && (
+                      <div className="text-xs text-muted-foreground">
+                        {version.manualEditCount} edited
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="py-1.5 text-right tabular-nums">
+                    {version.totalCost != null
+                      ? `$${version.totalCost.toFixed(4)}`
+                      : "—"}
+                  </TableCell>
+                  <TableCell className="py-1.5 text-right whitespace-nowrap">
+                    {!version.isActive && (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="icon-xs"
+                          onClick={() =>
+                            setCompareId(
+                              compareId === version.id ? null : version.id
+                            )
+                          }
+                          disabled={!active}
+                          title="Compare with active"
+                        >
+                          <GitCompare className="size-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon-xs"
+                          onClick={() =>
+                            handleRestore(version.id, version.version)
+                          }
+                          disabled={activateExtraction.isPending}
+                          title="Restore this version"
+                        >
+                          {activateExtraction.isPending &&
+                          activateExtraction.variables?.extractionId ===
+                            version.id ? (
+                            <Loader2 className="size-3 animate-spin" />
+                          ) : (
+                            <RotateCcw className="size-3" />
+                          )}
+                        </Button>
+                      </>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {compareId && active && compareId !== active.id && (
+          <ComparisonView
+            groupId={groupId}
+            baseId={compareId}
+            targetId={active.id}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import {
+  History,
   Loader2,
   MoreVertical,
   RefreshCw,
@@ -26,11 +27,14 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { useDeleteGroup } from "@/hooks/groups";
+import { ExtractionHistoryDialog } from "./extraction-history-dialog";
 
 interface GroupActionsMenuProps {
   groupId: string;
   sessionId: string;
   onRerunExtraction: () => void;
+  /** Manual and corrected items of the active version, lost on re-extraction */
+  manualItemCount?: number;
   isExtracting?: boolean;
   isUploading?: boolean;
 }
@@ -39,10 +43,13 @@ export function GroupActionsMenu({
   groupId,
   sessionId,
   onRerunExtraction,
+  manualItemCount = 0,
   isExtracting = false,
   isUploading = false,
 }: GroupActionsMenuProps) {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [rerunDialogOpen, setRerunDialogOpen] = useState(false);
   const deleteGroup = useDeleteGroup();
 
   const handleDelete = () => {
@@ -61,6 +68,11 @@ export function GroupActionsMenu({
   };
 
   const handleRerun = () => {
+    // A new version starts from the AI output only, so confirm before dropping edits
+    if (manualItemCount > 0) {
+      setRerunDialogOpen(true);
+      return;
+    }
     onRerunExtraction();
   };
 
@@ -77,6 +89,15 @@ export function GroupActionsMenu({
         >
           <RefreshCw className={`size-4 ${isExtracting ? "animate-spin" : ""}`} />
         </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setHistoryOpen(true)}
+          disabled={isExtracting || isUploading}
+          title="Extraction history"
+        >
+          <History className="size-4" />
+        </Button>
         <Button
           variant="ghost"
           size="sm"
@@ -104,6 +125,13 @@ export function GroupActionsMenu({
             >
               <RefreshCw className={`size-4 ${isExtracting ? "animate-spin" : ""}`} />
             </DropdownMenuItem>
+            <DropdownMenuItem
+              onClick={() => setHistoryOpen(true)}
+              disabled={isExtracting || isUploading}
+              className="justify-center"
+            >
+              <History className="size-4" />
+            </DropdownMenuItem>
             <DropdownMenuItem
               onClick={() => setDeleteDialogOpen(true)}
               className="justify-center text-destructive focus:text-destructive"
@@ -114,6 +142,40 @@ export function GroupActionsMenu({
         </DropdownMenu>
       </div>
 
+      <ExtractionHistoryDialog
+        groupId={groupId}
+        sessionId={sessionId}
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+      />
+
+      {/* Re-run confirmation dialog (manual items are not carried over) */}
+      <AlertDialog open={rerunDialogOpen} onOpenChange={setRerunDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Re-run extraction?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {manualItemCount === 1
+                ? "1 manually added or corrected item"
+                : `${manualItemCount} manually added or corrected items`}{" "}
+              will not be part of the new version. They stay available in the
+              extraction history, where you can roll back to this version.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                setRerunDialogOpen(false);
+                onRerunExtraction();
+              }}
+            >
+              Re-run
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Delete confirmation dialog */}
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent>
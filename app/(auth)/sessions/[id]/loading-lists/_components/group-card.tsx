@@ -35,6 +35,7 @@ import {
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
 import { GroupActionsMenu } from "./group-actions-menu";
+import { AddItemRow, EditableItemRow } from "./line-item-editor";
 import { cn } from "@/lib/utils";
 import type { GroupWithImages } from "@/hooks/groups";
 import type { LoadingListExtraction } from "@/lib/ai/schemas/loading-list-extraction";
@@ -197,22 +198,29 @@ interface NormalizedExtraction {
   };
 }
 
-// Item type for display
+// Item type for display (id/source only present for stored items)
 interface DisplayItem {
+  id?: string;
   activityCode: string;
   productCode: string;
   quantity: number;
   description?: string | null;
+  source?: "extraction" | "manual";
+  catalogStatus?: "known" | "suspicious" | "unknown" | null;
+  suggestedCode?: string | null;
 }
 
 function ExtractionDataView({
   extraction,
   items,
   isStreaming = false,
+  editTarget,
 }: {
   extraction: NormalizedExtraction;
   items: DisplayItem[];
   isStreaming?: boolean;
+  /** Enables inline item editing when set (stored extraction only) */
+  editTarget?: { groupId: string; sessionId: string };
 }) {
   const { status, message, activities = [] } = extraction;
 
@@ -257,7 +265,7 @@ function ExtractionDataView({
                 </div>
 
                 {/* Line items table */}
-                {activityItems.length > 0 ? (
+                {activityItems.length > 0 || editTarget ? (
                   <div className={cn(isStreaming && "animate-pulse")}>
                     <Table>
                       <TableHeader>
@@ -265,18 +273,35 @@ function ExtractionDataView({
                           <TableHead className="h-8">Code</TableHead>
                           <TableHead className="h-8">Description</TableHead>
                           <TableHead className="h-8 text-right">Qty</TableHead>
+                          {editTarget && <TableHead className="h-8 w-14" />}
                         </TableRow>
                       </TableHeader>
                       <TableBody>
-                        {activityItems.map((item, idx) => (
-                          <TableRow key={idx}>
-                            <TableCell className="py-1.5 font-mono">{item.productCode}</TableCell>
-                            <TableCell className="py-1.5 text-muted-foreground max-w-32 truncate">
-                              {item.description || "—"}
-                            </TableCell>
-                            <TableCell className="py-1.5 text-right tabular-nums">{item.quantity}</TableCell>
-                          </TableRow>
-                        ))}
+                        {activityItems.map((item, idx) =>
+                          editTarget && item.id ? (
+                            <EditableItemRow
+                              key={item.id}
+                              item={{ ...item, id: item.id }}
+                              groupId={editTarget.groupId}
+                              sessionId={editTarget.sessionId}
+                            />
+                          ) : (
+                            <TableRow key={idx}>
+                              <TableCell className="py-1.5 font-mono">{item.productCode}</TableCell>
+                              <TableCell className="py-1.5 text-muted-foreground max-w-32 truncate">
+                                {item.description || "—"}
+                              </TableCell>
+                              <TableCell className="py-1.5 text-right tabular-nums">{item.quantity}</TableCell>
+                            </TableRow>
+                          )
+                        )}
+                        {editTarget && (
+                          <AddItemRow
+                            activityCode={activityCode}
+                            groupId={editTarget.groupId}
+                            sessionId={editTarget.sessionId}
+                          />
+                        )}
                       </TableBody>
                     </Table>
                   </div>
@@ -342,10 +367,14 @@ export function GroupCard({
   const displayItems: DisplayItem[] = isExtracting
     ? streamingItems
     : storedItems.map((item) => ({
+        id: item.id,
         activityCode: item.activityCode,
         productCode: item.productCode,
         quantity: item.quantity,
         description: item.description,
+        source: item.source,
+        catalogStatus: item.catalogStatus,
+        suggestedCode: item.suggestedCode,
       }));
 
   const lineItemCount = displayItems.length;
@@ -385,6 +414,9 @@ export function GroupCard({
             groupId={group.id}
             sessionId={sessionId}
             onRerunExtraction={onRerunExtraction ?? (() => {})}
+            manualItemCount={
+              storedItems.filter((item) => item.source === "manual").length
+            }
             isExtracting={isExtracting}
             isUploading={isUploading}
           />
@@ -422,6 +454,11 @@ export function GroupCard({
                   extraction={normalizedExtraction}
                   items={displayItems}
                   isStreaming={isExtracting}
+                  editTarget={
+                    !isExtracting && hasExtractionResult
+                      ? { groupId: group.id, sessionId }
+                      : undefined
+                  }
                 />
               ) : isExtracting && !normalizedExtraction ? (
                 /* Extracting state without any streaming data yet */
@@ -0,0 +1,356 @@
+"use client";
+
+import { useState } from "react";
+import { Check, Loader2, Pencil, Plus, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { TableCell, TableRow } from "@/components/ui/table";
+import {
+  useCreateLineItem,
+  useDeleteLineItem,
+  useUpdateLineItem,
+} from "@/hooks/extraction";
+
+export interface EditableItem {
+  id: string;
+  activityCode: string;
+  productCode: string;
+  quantity: number;
+  description?: string | null;
+  source?: "extraction" | "manual";
+  catalogStatus?: "known" | "suspicious" | "unknown" | null;
+  suggestedCode?: string | null;
+}
+
+/**
+ * Parses a quantity input, returning null for anything that is not a positive integer
+ */
+function parseQuantity(value: string): number | null {
+  const qty = Number(value);
+  return Number.isInteger(qty) && qty >= 1 ? qty : null;
+}
+
+/**
+ * Line item row with inline edit and delete (for correcting AI misreads)
+ */
+export function EditableItemRow({
+  item,
+  groupId,
+  sessionId,
+}: {
+  item: EditableItem;
+  groupId: string;
+  sessionId: string;
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [productCode, setProductCode] = useState(item.productCode);
+  const [quantity, setQuantity] = useState(String(item.quantity));
+  const updateItem = useUpdateLineItem();
+  const deleteItem = useDeleteLineItem();
+
+  const startEditing = () => {
+    setProductCode(item.productCode);
+    setQuantity(String(item.quantity));
+    setIsEditing(true);
+  };
+
+  const handleSave = () => {
+    const qty = parseQuantity(quantity);
+    const code = productCode.trim();
+    if (!code || qty === null) {
+      toast.error("Enter a product code and a quantity of at least 1");
+      return;
+    }
+
+    // Only send what changed
+    const changes: { productCode?: string; quantity?: number } = {};
+    if (code.toUpperCase() !== item.productCode) changes.productCode = code;
+    if (qty !== item.quantity) changes.quantity = qty;
+
+    if (Object.keys(changes).length === 0) {
+      setIsEditing(false);
+      return;
+    }
+
+    updateItem.mutate(
+      { groupId, itemId: item.id, sessionId, changes },
+      {
+        onSuccess: () => {
+          toast.success("Item updated");
+          setIsEditing(false);
+        },
+        onError: (error) => {
+          toast.error(error.message);
+        },
+      }
+    );
+  };
+
+  const applySuggestion = (suggestedCode: string) => {
+    updateItem.mutate(
+      {
+        groupId,
+        itemId: item.id,
+        sessionId,
+        changes: { productCode: suggestedCode },
+      },
+      {
+        onSuccess: () => {
+          toast.success(`Changed to ${suggestedCode}`);
+        },
+        onError: (error) => {
+          toast.error(error.message);
+        },
+      }
+    );
+  };
+
+  const handleDelete = () => {
+    deleteItem.mutate(
+      { groupId, itemId: item.id, sessionId },
+      {
+        onSuccess: () => {
+          toast.success("Item removed");
+        },
+        onError: (error) => {
+          toast.error(error.message);
+        },
+      }
+    );
+  };
+
+  const isBusy = updateItem.isPending || deleteItem.isPending;
+
+  if (isEditing) {
+    return (
+      <TableRow>
+        <TableCell className="py-1.5">
+          <Input
+            value={productCode}
+            onChange={(e) => setProductCode(e.target.value)}
+            className="h-7 font-mono"
+            disabled={isBusy}
+            autoFocus
+          />
+        </TableCell>
+        <TableCell className="py-1.5 text-muted-foreground max-w-32 truncate">
+          {item.description || "—"}
+        </TableCell>
+        <TableCell className="py-1.5 text-right">
+          <Input
+            type="number"
+            min={1}
+            value={quantity}
+            onChange={(e) => setQuantity(e.target.value)}
+            className="h-7 w-16 text-right tabular-nums ml-auto"
+            disabled={isBusy}
+          />
+        </TableCell>
+        <TableCell className="py-1.5 text-right whitespace-nowrap">
+          <Button
+            variant="ghost"
+            size="icon-xs"
+            onClick={handleSave}
+            disabled={isBusy}
+            title="Save"
+          >
+            {updateItem.isPending ? (
+              <Loader2 className="size-3 animate-spin" />
+            ) : (
+              <Check className="size-3" />
+            )}
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon-xs"
+            onClick={() => setIsEditing(false)}
+            disabled={isBusy}
+            title="Cancel"
+          >
+            <X className="size-3" />
+          </Button>
+        </TableCell>
+      </TableRow>
+    );
+  }
+
+  return (
+    <TableRow>
+      <TableCell className="py-1.5 font-mono">
+        <span className="flex items-center gap-1.5">
+          {item.productCode}
+          {item.source === "manual" && (
+            <Badge variant="outline" className="font-sans">
+              Edited
+            </Badge>
+          )}
+          {item.catalogStatus === "unknown" && (
+            <Badge variant="error" className="font-sans" title="Not in the product catalog">
+              Unknown
+            </Badge>
+          )}
+          {item.catalogStatus === "suspicious" && item.suggestedCode && (
+            <Badge variant="warning" className="font-sans" asChild>
+              <button
+                type="button"
+                onClick={() => applySuggestion(item.suggestedCode!)}
+                disabled={isBusy}
+                title="Not in the product catalog - click to use the suggested code"
+              >
+                Did you mean {item.suggestedCode}?
+              </button>
+            </Badge>
+          )}
+        </span>
+      </TableCell>
+      <TableCell className="py-1.5 text-muted-foreground max-w-32 truncate">
+        {item.description || "—"}
+      </TableCell>
+      <TableCell className="py-1.5 text-right tabular-nums">{item.quantity}</TableCell>
+      <TableCell className="py-1.5 text-right whitespace-nowrap">
+        <Button
+          variant="ghost"
+          size="icon-xs"
+          onClick={startEditing}
+          disabled={isBusy}
+          title="Edit item"
+        >
+          <Pencil className="size-3" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon-xs"
+          onClick={handleDelete}
+          disabled={isBusy}
+          title="Delete item"
+        >
+          {deleteItem.isPending ? (
+            <Loader2 className="size-3 animate-spin" />
+          ) : (
+            <Trash2 className="size-3" />
+          )}
+        </Button>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+/**
+ * Inline form row for adding a manual item under an activity
+ */
+export function AddItemRow({
+  activityCode,
+  groupId,
+  sessionId,
+}: {
+  activityCode: string;
+  groupId: string;
+  sessionId: string;
+}) {
+  const [isAdding, setIsAdding] = useState(false);
+  const [productCode, setProductCode] = useState("");
+  const [quantity, setQuantity] = useState("1");
+  const createItem = useCreateLineItem();
+
+  const reset = () => {
+    setProductCode("");
+    setQuantity("1");
+    setIsAdding(false);
+  };
+
+  const handleAdd = () => {
+    const qty = parseQuantity(quantity);
+    const code = productCode.trim();
+    if (!code || qty === null) {
+      toast.error("Enter a product code and a quantity of at least 1");
+      return;
+    }
+
+    createItem.mutate(
+      {
+        groupId,
+        sessionId,
+        item: { activityCode, productCode: code, quantity: qty },
+      },
+      {
+        onSuccess: () => {
+          toast.success("Item added");
+          reset();
+        },
+        onError: (error) => {
+          toast.error(error.message);
+        },
+      }
+    );
+  };
+
+  if (!isAdding) {
+    return (
+      <TableRow className="hover:bg-transparent">
+        <TableCell colSpan={4} className="py-1">
+          <Button
+            variant="ghost"
+            size="xs"
+            onClick={() => setIsAdding(true)}
+            className="text-muted-foreground"
+          >
+            <Plus className="size-3" />
+            Add item
+          </Button>
+        </TableCell>
+      </TableRow>
+    );
+  }
+
+  return (
+    <TableRow className="hover:bg-transparent">
+      <TableCell className="py-1.5">
+        <Input
+          value={productCode}
+          onChange={(e) => setProductCode(e.target.value)}
+          placeholder="ART.100013"
+          className="h-7 font-mono"
+          disabled={createItem.isPending}
+          autoFocus
+        />
+      </TableCell>
+      <TableCell className="py-1.5 text-muted-foreground">Manual</TableCell>
+      <TableCell className="py-1.5 text-right">
+        <Input
+          type="number"
+          min={1}
+          value={quantity}
+          onChange={(e) => setQuantity(e.target.value)}
+          className="h-7 w-16 text-right tabular-nums ml-auto"
+          disabled={createItem.isPending}
+        />
+      </TableCell>
+      <TableCell className="py-1.5 text-right whitespace-nowrap">
+        <Button
+          variant="ghost"
+          size="icon-xs"
+          onClick={handleAdd}
+          disabled={createItem.isPending}
+          title="Add"
+        >
+          {createItem.isPending ? (
+            <Loader2 className="size-3 animate-spin" />
+          ) : (
+            <Check className="size-3" />
+          )}
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon-xs"
+          onClick={reset}
+          disabled={createItem.isPending}
+          title="Cancel"
+        >
+          <X className="size-3" />
+        </Button>
+      </TableCell>
+    </TableRow>
+  );
+}
@@ -63,8 +63,13 @@ export default function LoadingListsPage({ params }: LoadingListsPageProps) {
       />
 
       <WorkflowNavigation
+        sessionId={id}
         prev={{ href: "/", label: "Sessions" }}
-        next={{ href: `/sessions/${id}/demand`, label: "Demand" }}
+        next={{
+          href: `/sessions/${id}/demand`,
+          label: "Demand",
+          status: "review_demand",
+        }}
       />
     </main>
   );
@@ -0,0 +1,124 @@
+"use client";
+
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { CheckCircle, Loader2, Lock } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useUpdateSessionStatus } from "@/hooks/sessions";
+import { orderKeys } from "@/hooks/order";
+import {
+  canTransitionSession,
+  type SessionStatus,
+} from "@/lib/sessions/status";
+
+interface CompleteSessionCardProps {
+  sessionId: string;
+  status: SessionStatus;
+  /** Strict coverage: why the session cannot be completed yet */
+  blockedReason: string | null;
+}
+
+export function CompleteSessionCard({
+  sessionId,
+  status,
+  blockedReason,
+}: CompleteSessionCardProps) {
+  const [open, setOpen] = useState(false);
+  const queryClient = useQueryClient();
+  const updateStatus = useUpdateSessionStatus();
+
+  const handleComplete = () => {
+    updateStatus.mutate(
+      { id: sessionId, status: "completed" },
+      {
+        onSuccess: () => {
+          toast.success("Session completed");
+          setOpen(false);
+          queryClient.invalidateQueries({
+            queryKey: orderKeys.bySession(sessionId),
+          });
+        },
+        onError: (error) => {
+          toast.error(error.message);
+        },
+      }
+    );
+  };
+
+  if (status === "completed") {
+    return (
+      <Card className="mb-6">
+        <CardContent className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Lock className="size-4" />
+          This session is completed and can no longer be modified.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const canComplete =
+    canTransitionSession(status, "completed") && !blockedReason;
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          {blockedReason
+            ? blockedReason
+            : canComplete
+              ? "Finished with this order? Completing locks the session."
+              : "Review the order before completing the session."}
+        </p>
+        <AlertDialog open={open} onOpenChange={setOpen}>
+          <AlertDialogTrigger asChild>
+            <Button size="sm" disabled={!canComplete}>
+              <CheckCircle className="size-4 mr-2" />
+              Complete
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Complete session?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Loading lists, stations and extractions can no longer be
+                changed once the session is completed. The order is stored as
+                shown and kept after the session is cleaned up.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={updateStatus.isPending}>
+                Cancel
+              </AlertDialogCancel>
+              <AlertDialogAction
+                onClick={handleComplete}
+                disabled={updateStatus.isPending}
+              >
+                {updateStatus.isPending ? (
+                  <>
+                    <Loader2 className="size-4 mr-2 animate-spin" />
+                    Completing...
+                  </>
+                ) : (
+                  "Complete"
+                )}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,165 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { ArrowRight, FileCheck, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  useFinalizedOrder,
+  useFinalizeOrder,
+  useUpdateOrderStatus,
+} from "@/hooks/order";
+import {
+  nextOrderStatus,
+  ORDER_STATUS_LABELS,
+} from "@/lib/orders/status";
+import type { SessionStatus } from "@/lib/sessions/status";
+
+interface FinalizedOrderCardProps {
+  sessionId: string;
+  status: SessionStatus;
+}
+
+/**
+ * Track the finalized order of a completed session with the warehouse. The
+ * order is stored on completion; sessions completed before that are finalized
+ * here (stored as computed, kept after the session is cleaned up).
+ */
+export function FinalizedOrderCard({ sessionId, status }: FinalizedOrderCardProps) {
+  const [open, setOpen] = useState(false);
+  const { data, isLoading } = useFinalizedOrder(sessionId);
+  const finalizeOrder = useFinalizeOrder();
+  const updateStatus = useUpdateOrderStatus();
+
+  // Only a completed session's order is final
+  if (status !== "completed" || isLoading) return null;
+
+  const order = data?.order;
+
+  const handleFinalize = () => {
+    finalizeOrder.mutate(sessionId, {
+      onSuccess: () => {
+        toast.success("Order finalized");
+        setOpen(false);
+      },
+      onError: (error) => {
+        toast.error(error.message);
+      },
+    });
+  };
+
+  if (!order) {
+    return (
+      <Card className="mb-6">
+        <CardContent className="flex items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">
+            This session was completed without a stored order. Finalize it to
+            keep a record of what was asked of the warehouse.
+          </p>
+          <AlertDialog open={open} onOpenChange={setOpen}>
+            <AlertDialogTrigger asChild>
+              <Button size="sm">
+                <FileCheck className="size-4 mr-2" />
+                Finalize
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Finalize order?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  The order lines are stored as shown and can no longer be
+                  changed. The record is kept after the session is cleaned up.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel disabled={finalizeOrder.isPending}>
+                  Cancel
+                </AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={handleFinalize}
+                  disabled={finalizeOrder.isPending}
+                >
+                  {finalizeOrder.isPending ? (
+                    <>
+                      <Loader2 className="size-4 mr-2 animate-spin" />
+                      Finalizing...
+                    </>
+                  ) : (
+                    "Finalize"
+                  )}
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const next = nextOrderStatus(order.status);
+
+  const handleAdvance = () => {
+    if (!next) return;
+    updateStatus.mutate(
+      { id: order.id, status: next },
+      {
+        onSuccess: () => {
+          toast.success(`Order marked as ${ORDER_STATUS_LABELS[next].toLowerCase()}`);
+        },
+        onError: (error) => {
+          toast.error(error.message);
+        },
+      }
+    );
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="flex items-center justify-between gap-4">
+        <div className="text-sm text-muted-foreground space-y-1">
+          <p className="flex items-center gap-2">
+            <Badge variant="secondary">{ORDER_STATUS_LABELS[order.status]}</Badge>
+            Finalized{" "}
+            {new Intl.DateTimeFormat("en-US", {
+              dateStyle: "medium",
+              timeStyle: "short",
+            }).format(new Date(order.finalizedAt))}{" "}
+            · {order.lines.length} line{order.lines.length !== 1 ? "s" : ""}
+          </p>
+          <Link href="/orders" className="underline">
+            Order history
+          </Link>
+        </div>
+        {next && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleAdvance}
+            disabled={updateStatus.isPending}
+          >
+            {updateStatus.isPending ? (
+              <Loader2 className="size-4 mr-2 animate-spin" />
+            ) : (
+              <ArrowRight className="size-4 mr-2" />
+            )}
+            Mark as {ORDER_STATUS_LABELS[next].toLowerCase()}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,216 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Field,
+  FieldDescription,
+  FieldGroup,
+  FieldLabel,
+} from "@/components/ui/field";
+import { useAdjustOrderLine, type OrderItem } from "@/hooks/order";
+
+interface OrderAdjustmentDialogProps {
+  sessionId: string;
+  /** Line to adjust (undefined = add an extra line) */
+  item?: OrderItem;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function OrderAdjustmentForm({
+  sessionId,
+  item,
+  onDone,
+}: {
+  sessionId: string;
+  item?: OrderItem;
+  onDone: () => void;
+}) {
+  const [productCode, setProductCode] = useState(item?.productCode ?? "");
+  const [orderQty, setOrderQty] = useState(
+    item ? String(item.recommendedOrderQty) : ""
+  );
+  const [changedBy, setChangedBy] = useState("");
+  const [reason, setReason] = useState("");
+  const adjustOrderLine = useAdjustOrderLine();
+
+  const save = (qty: number | null, message: string) => {
+    if (!productCode.trim()) {
+      toast.error("Product code is required");
+      return;
+    }
+    if (!changedBy.trim() || !reason.trim()) {
+      toast.error("Your name and a reason are required");
+      return;
+    }
+
+    adjustOrderLine.mutate(
+      {
+        sessionId,
+        productCode: productCode.trim(),
+        orderQty: qty,
+        changedBy,
+        reason,
+      },
+      {
+        onSuccess: () => {
+          toast.success(message);
+          onDone();
+        },
+        onError: (error) => {
+          toast.error(error.message);
+        },
+      }
+    );
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const qty = Number(orderQty);
+    if (orderQty.trim() === "" || !Number.isInteger(qty) || qty < 0) {
+      toast.error("Order quantity must be a whole number of at least 0");
+      return;
+    }
+
+    save(qty, item ? "Order line adjusted" : "Order line added");
+  };
+
+  const isPending = adjustOrderLine.isPending;
+  const computedQty = item?.adjustment
+    ? item.adjustment.computedOrderQty
+    : item?.recommendedOrderQty;
+
+  return (
+    <form onSubmit={handleSubmit} className="grid gap-4">
+      <FieldGroup>
+        {!item && (
+          <Field>
+            <FieldLabel htmlFor="adjust-product">Product code</FieldLabel>
+            <Input
+              id="adjust-product"
+              value={productCode}
+              onChange={(e) => setProductCode(e.target.value)}
+              placeholder="ART.100013"
+              className="font-mono"
+              disabled={isPending}
+            />
+          </Field>
+        )}
+        <Field>
+          <FieldLabel htmlFor="adjust-qty">Order quantity</FieldLabel>
+          <Input
+            id="adjust-qty"
+            type="number"
+            min={0}
+            value={orderQty}
+            onChange={(e) => setOrderQty(e.target.value)}
+            disabled={isPending}
+          />
+          {computedQty !== undefined && computedQty !== null && (
+            <FieldDescription>Computed: {computedQty}</FieldDescription>
+          )}
+        </Field>
+        <Field>
+          <FieldLabel htmlFor="adjust-name">Your name</FieldLabel>
+          <Input
+            id="adjust-name"
+            value={changedBy}
+            onChange={(e) => setChangedBy(e.target.value)}
+            disabled={isPending}
+          />
+        </Field>
+        <Field>
+          <FieldLabel htmlFor="adjust-reason">Reason</FieldLabel>
+          <Textarea
+            id="adjust-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="One bed already reserved on the dock"
+            disabled={isPending}
+          />
+        </Field>
+      </FieldGroup>
+      <DialogFooter>
+        {item?.adjustment && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() =>
+              save(
+                null,
+                item.adjustment!.computedOrderQty === null
+                  ? "Order line removed"
+                  : "Order line reset"
+              )
+            }
+            disabled={isPending}
+          >
+            {item.adjustment.computedOrderQty === null
+              ? "Remove line"
+              : "Use computed quantity"}
+          </Button>
+        )}
+        <Button type="submit" disabled={isPending}>
+          {isPending ? (
+            <>
+              <Loader2 className="size-4 mr-2 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            "Save"
+          )}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+}
+
+/**
+ * Coordinator change to the order - a line's quantity or an extra product not
+ * in demand, always with a reason
+ */
+export function OrderAdjustmentDialog({
+  sessionId,
+  item,
+  open,
+  onOpenChange,
+}: OrderAdjustmentDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {item ? `Adjust ${item.productCode}` : "Add order line"}
+          </DialogTitle>
+          <DialogDescription>
+            The computed quantity is kept for the record. The order text uses
+            the adjusted quantity.
+          </DialogDescription>
+        </DialogHeader>
+        {/* Remount per open so the form starts from the current values */}
+        {open && (
+          <OrderAdjustmentForm
+            key={item?.productCode ?? "new"}
+            sessionId={sessionId}
+            item={item}
+            onDone={() => onOpenChange(false)}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,196 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Field,
+  FieldDescription,
+  FieldGroup,
+  FieldLabel,
+} from "@/components/ui/field";
+import { useCreateOrderTemplate, useUpdateOrderTemplate } from "@/hooks/order";
+import type { OrderTemplate } from "@/lib/db/schema";
+import {
+  DEFAULT_ORDER_TEMPLATE,
+  ORDER_TEMPLATE_PLACEHOLDERS,
+  orderTemplateError,
+} from "@/lib/workflow/order-text";
+
+interface OrderTemplateDialogProps {
+  /** Template to edit; omit to create a new one (starts from the default) */
+  template?: OrderTemplate;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const placeholderList = (keys: readonly string[]) =>
+  keys.map((k) => `{${k}}`).join(" ");
+
+function OrderTemplateForm({
+  template,
+  onDone,
+}: {
+  template?: OrderTemplate;
+  onDone: () => void;
+}) {
+  const initial = template ?? { ...DEFAULT_ORDER_TEMPLATE, name: "" };
+  const [name, setName] = useState(initial.name);
+  const [stockLocation, setStockLocation] = useState(initial.stockLocation);
+  const [headerFormat, setHeaderFormat] = useState(initial.headerFormat);
+  const [lineFormat, setLineFormat] = useState(initial.lineFormat);
+  const [warningFormat, setWarningFormat] = useState(initial.warningFormat);
+  const createTemplate = useCreateOrderTemplate();
+  const updateTemplate = useUpdateOrderTemplate();
+
+  const isPending = createTemplate.isPending || updateTemplate.isPending;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const fields = { name, stockLocation, headerFormat, lineFormat, warningFormat };
+    const templateError = orderTemplateError(fields);
+    if (templateError) {
+      toast.error(templateError);
+      return;
+    }
+
+    const callbacks = {
+      onSuccess: () => {
+        toast.success(template ? "Template updated" : "Template added");
+        onDone();
+      },
+      onError: (error: Error) => {
+        toast.error(error.message);
+      },
+    };
+
+    if (template) {
+      updateTemplate.mutate({ id: template.id, changes: fields }, callbacks);
+    } else {
+      createTemplate.mutate(fields, callbacks);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="grid gap-4">
+      <FieldGroup>
+        <div className="grid grid-cols-2 gap-4">
+          <Field>
+            <FieldLabel htmlFor="template-name">Name</FieldLabel>
+            <Input
+              id="template-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="North warehouse"
+              disabled={isPending}
+            />
+          </Field>
+          <Field>
+            <FieldLabel htmlFor="template-location">Stock location</FieldLabel>
+            <Input
+              id="template-location"
+              value={stockLocation}
+              onChange={(e) => setStockLocation(e.target.value)}
+              placeholder="EB5"
+              disabled={isPending}
+            />
+          </Field>
+        </div>
+        <Field>
+          <FieldLabel htmlFor="template-header">Header</FieldLabel>
+          <Textarea
+            id="template-header"
+            value={headerFormat}
+            onChange={(e) => setHeaderFormat(e.target.value)}
+            className="font-mono text-xs"
+            disabled={isPending}
+          />
+          <FieldDescription>
+            {placeholderList(ORDER_TEMPLATE_PLACEHOLDERS.headerFormat)}
+          </FieldDescription>
+        </Field>
+        <Field>
+          <FieldLabel htmlFor="template-line">Line (one per product)</FieldLabel>
+          <Textarea
+            id="template-line"
+            value={lineFormat}
+            onChange={(e) => setLineFormat(e.target.value)}
+            className="font-mono text-xs"
+            disabled={isPending}
+          />
+          <FieldDescription>
+            {placeholderList(ORDER_TEMPLATE_PLACEHOLDERS.lineFormat)}
+          </FieldDescription>
+        </Field>
+        <Field>
+          <FieldLabel htmlFor="template-warning">Warning suffix</FieldLabel>
+          <Input
+            id="template-warning"
+            value={warningFormat}
+            onChange={(e) => setWarningFormat(e.target.value)}
+            className="font-mono text-xs"
+            disabled={isPending}
+          />
+          <FieldDescription>
+            {placeholderList(ORDER_TEMPLATE_PLACEHOLDERS.warningFormat)} - fills
+            {" {warningSuffix}"} on lines with warnings
+          </FieldDescription>
+        </Field>
+      </FieldGroup>
+      <DialogFooter>
+        <Button type="submit" disabled={isPending}>
+          {isPending ? (
+            <>
+              <Loader2 className="size-4 mr-2 animate-spin" />
+              Saving...
+            </>
+          ) : template ? (
+            "Save"
+          ) : (
+            "Add template"
+          )}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+}
+
+export function OrderTemplateDialog({
+  template,
+  open,
+  onOpenChange,
+}: OrderTemplateDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{template ? "Edit template" : "Add template"}</DialogTitle>
+          <DialogDescription>
+            Order text format for a warehouse. Fields in braces are filled in
+            from the order.
+          </DialogDescription>
+        </DialogHeader>
+        {/* Remount per template so the form starts from its current values */}
+        {open && (
+          <OrderTemplateForm
+            key={template?.id ?? "new"}
+            template={template}
+            onDone={() => onOpenChange(false)}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
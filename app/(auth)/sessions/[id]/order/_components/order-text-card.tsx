@@ -0,0 +1,185 @@
+"use client";
+
+import { useState } from "react";
+import { Copy, Pencil, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  useDeleteOrderTemplate,
+  useOrderTemplates,
+  useOrderTexts,
+} from "@/hooks/order";
+import { OrderTemplateDialog } from "./order-template-dialog";
+
+interface OrderTextCardProps {
+  sessionId: string;
+}
+
+// Radix Select does not allow an empty value, so the default template needs a sentinel
+const DEFAULT_TEMPLATE = "__default__";
+
+/**
+ * Copy/paste order text, rendered on the server with the chosen template
+ * (the spec template by default, or a named template per warehouse)
+ */
+export function OrderTextCard({ sessionId }: OrderTextCardProps) {
+  const [selected, setSelected] = useState(DEFAULT_TEMPLATE);
+  const [dialog, setDialog] = useState<"new" | "edit" | null>(null);
+  const { data, isLoading } = useOrderTexts(sessionId);
+  const { data: templatesData } = useOrderTemplates();
+  const deleteTemplate = useDeleteOrderTemplate();
+
+  const texts = data?.texts ?? [];
+  // Fall back to the default when the selected template was deleted
+  const current =
+    texts.find((t) => (t.templateId ?? DEFAULT_TEMPLATE) === selected) ??
+    texts[0];
+  const editable = templatesData?.templates.find(
+    (t) => t.id === current?.templateId
+  );
+
+  const handleCopy = async () => {
+    if (!current) return;
+    try {
+      await navigator.clipboard.writeText(current.text);
+      toast.success("Order text copied to clipboard");
+    } catch {
+      toast.error("Failed to copy to clipboard");
+    }
+  };
+
+  const handleDelete = () => {
+    if (!editable) return;
+    deleteTemplate.mutate(editable.id, {
+      onSuccess: () => {
+        toast.success(`Template ${editable.name} deleted`);
+        setSelected(DEFAULT_TEMPLATE);
+      },
+      onError: (error) => {
+        toast.error(error.message);
+      },
+    });
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="flex flex-row items-center justify-between gap-2">
+        <CardTitle>Order Text</CardTitle>
+        <div className="flex items-center gap-1">
+          <Select
+            value={current?.templateId ?? DEFAULT_TEMPLATE}
+            onValueChange={setSelected}
+            disabled={isLoading}
+          >
+            <SelectTrigger size="sm" className="min-w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {texts.map((t) => (
+                <SelectItem
+                  key={t.templateId ?? DEFAULT_TEMPLATE}
+                  value={t.templateId ?? DEFAULT_TEMPLATE}
+                >
+                  {t.name} ({t.stockLocation})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setDialog("new")}
+            title="Add template"
+          >
+            <Plus className="size-4" />
+          </Button>
+          {editable && (
+            <>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setDialog("edit")}
+                title="Edit template"
+              >
+                <Pencil className="size-4" />
+              </Button>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={deleteTemplate.isPending}
+                    title="Delete template"
+                  >
+                    <Trash2 className="size-4" />
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Delete template?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      {editable.name} is removed for every session.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={handleDelete}>
+                      Delete
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleCopy}
+            disabled={!current}
+            title="Copy order text"
+          >
+            <Copy className="size-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-4 w-full" />
+            ))}
+          </div>
+        ) : (
+          <pre className="text-xs font-mono whitespace-pre-wrap bg-muted rounded-md p-3">
+            {current?.text}
+          </pre>
+        )}
+      </CardContent>
+      <OrderTemplateDialog
+        template={dialog === "edit" ? editable : undefined}
+        open={dialog !== null}
+        onOpenChange={(open) => setDialog(open ? dialog : null)}
+      />
+    </Card>
+  );
+}
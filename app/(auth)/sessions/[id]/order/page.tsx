@@ -1,8 +1,8 @@
 "use client";
 
-import { use, useMemo } from "react";
+import { use, useMemo, useState } from "react";
 import Link from "next/link";
-import { Copy, AlertTriangle } from "lucide-react";
+import { AlertTriangle, Pencil, Plus } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -15,30 +15,33 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { useOrder, type OrderItem } from "@/hooks/order";
+import {
+  useOrder,
+  type OrderItem,
+  type SkippedOrderItem,
+} from "@/hooks/order";
 import { WorkflowNavigation } from "@/components/workflow-navigation";
-import { toast } from "sonner";
+import { REPLENISHMENT_POLICY_LABELS } from "@/lib/workflow/compute";
+import { CompleteSessionCard } from "./_components/complete-session-card";
+import { OrderTextCard } from "./_components/order-text-card";
+import { FinalizedOrderCard } from "./_components/finalized-order-card";
+import { OrderAdjustmentDialog } from "./_components/order-adjustment-dialog";
 
 interface OrderPageProps {
   params: Promise<{ id: string }>;
 }
 
-/**
- * Generate order text for copy/paste
- */
-function generateOrderText(orderItems: OrderItem[]): string {
-  return orderItems
-    .filter((item) => item.recommendedOrderQty > 0)
-    .map((item) => `${item.productCode}: ${item.recommendedOrderQty}`)
-    .join("\n");
-}
+const SKIP_REASON_LABELS: Record<SkippedOrderItem["reason"], string> = {
+  no_station: "no station",
+  station_invalid: "station needs review",
+  missing_data: "on hand or max missing",
+};
 
 function OrderSkeleton() {
   return (
     <Card className="mb-6">
-      <CardHeader className="flex flex-row items-center justify-between">
+      <CardHeader>
         <CardTitle>Order Items</CardTitle>
-        <Skeleton className="h-8 w-8" />
       </CardHeader>
       <CardContent>
         {/* Table rows - only data is async */}
@@ -62,9 +65,14 @@ function OrderSkeleton() {
 export default function OrderPage({ params }: OrderPageProps) {
   const { id } = use(params);
   const { data, isLoading, error } = useOrder(id);
+  // Line being adjusted ("new" = adding an extra line)
+  const [adjusting, setAdjusting] = useState<OrderItem | "new" | null>(null);
 
   const session = data?.session;
   const orderItems = data?.orderItems ?? [];
+  const skippedItems = data?.skippedItems ?? [];
+  const demandApproval = data?.demandApproval;
+  const adjustments = data?.adjustments ?? [];
 
   // Count warnings
   const warningCount = useMemo(
@@ -72,21 +80,6 @@ export default function OrderPage({ params }: OrderPageProps) {
     [orderItems]
   );
 
-  // Generate order text client-side
-  const orderText = useMemo(() => {
-    if (orderItems.length === 0) return "";
-    return generateOrderText(orderItems);
-  }, [orderItems]);
-
-  const handleCopy = async () => {
-    try {
-      await navigator.clipboard.writeText(orderText);
-      toast.success("Order text copied to clipboard");
-    } catch {
-      toast.error("Failed to copy to clipboard");
-    }
-  };
-
   if (isLoading) {
     return (
       <main className="container max-w-2xl mx-auto p-4 py-8 pb-24">
@@ -96,7 +89,12 @@ export default function OrderPage({ params }: OrderPageProps) {
         </div>
         <OrderSkeleton />
         <WorkflowNavigation
-          prev={{ href: `/sessions/${id}/inventory`, label: "Inventory" }}
+          sessionId={id}
+          prev={{
+            href: `/sessions/${id}/inventory`,
+            label: "Inventory",
+            status: "capturing_inventory",
+          }}
           next={{ href: "/", label: "Done" }}
         />
       </main>
@@ -114,7 +112,12 @@ export default function OrderPage({ params }: OrderPageProps) {
           <AlertDescription>{error.message}</AlertDescription>
         </Alert>
         <WorkflowNavigation
-          prev={{ href: `/sessions/${id}/inventory`, label: "Inventory" }}
+          sessionId={id}
+          prev={{
+            href: `/sessions/${id}/inventory`,
+            label: "Inventory",
+            status: "capturing_inventory",
+          }}
           next={{ href: "/", label: "Done" }}
         />
       </main>
@@ -134,6 +137,9 @@ export default function OrderPage({ params }: OrderPageProps) {
     );
   }
 
+  // Adjustments stop with the session
+  const canAdjust = session.status !== "completed";
+
   return (
     <main className="container max-w-2xl mx-auto p-4 py-8 pb-24">
       <div className="mb-6">
@@ -158,13 +164,69 @@ export default function OrderPage({ params }: OrderPageProps) {
         </Alert>
       )}
 
+      {/* Demand approval state - order uses the approved snapshot */}
+      {demandApproval && !demandApproval.approvedAt && (
+        <Alert className="mb-6">
+          <AlertTriangle className="size-4" />
+          <AlertDescription>
+            <span>
+              Demand has not been approved - this order follows the loading lists
+              live.{" "}
+              <Link href={`/sessions/${id}/demand`} className="underline">
+                Review demand
+              </Link>
+            </span>
+          </AlertDescription>
+        </Alert>
+      )}
+      {demandApproval && demandApproval.changes.length > 0 && (
+        <Alert className="mb-6">
+          <AlertTriangle className="size-4" />
+          <AlertDescription>
+            <span>
+              Demand changed for {demandApproval.changes.length} product
+              {demandApproval.changes.length !== 1 ? "s" : ""} since approval.
+              This order uses the approved quantities -{" "}
+              <Link href={`/sessions/${id}/demand`} className="underline">
+                re-approve demand
+              </Link>{" "}
+              to include the changes.
+            </span>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Strict coverage - products left out until their station is captured */}
+      {skippedItems.length > 0 && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertTriangle className="size-4" />
+          <AlertDescription>
+            <span>
+              {skippedItems.length} product{skippedItems.length !== 1 ? "s are" : " is"}{" "}
+              not in this order until {skippedItems.length !== 1 ? "their stations are" : "its station is"}{" "}
+              captured:{" "}
+              {skippedItems
+                .map((item) => `${item.productCode} (${SKIP_REASON_LABELS[item.reason]})`)
+                .join(", ")}
+              .{" "}
+              <Link href={`/sessions/${id}/inventory`} className="underline">
+                Capture stations
+              </Link>
+            </span>
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Order Items Table */}
       <Card className="mb-6">
-        <CardHeader className="flex flex-row items-center justify-between">
+        <CardHeader className="flex flex-row items-center justify-between gap-2">
           <CardTitle>Order Items</CardTitle>
-          <Button variant="outline" size="sm" onClick={handleCopy} disabled={orderItems.length === 0}>
-            <Copy className="size-4" />
-          </Button>
+          {canAdjust && (
+            <Button variant="outline" size="sm" onClick={() => setAdjusting("new")}>
+              <Plus className="size-4 mr-2" />
+              Add line
+            </Button>
+          )}
         </CardHeader>
         <CardContent>
           {orderItems.length === 0 ? (
@@ -180,6 +242,7 @@ export default function OrderPage({ params }: OrderPageProps) {
                   <TableHead className="text-right">On Hand</TableHead>
                   <TableHead className="text-right">Max</TableHead>
                   <TableHead className="text-right">Order</TableHead>
+                  {canAdjust && <TableHead className="w-8" />}
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -192,7 +255,24 @@ export default function OrderPage({ params }: OrderPageProps) {
                             <AlertTriangle className="size-4 text-amber-500" />
                           )}
                         </span>
-                        <span className="font-mono text-sm">{item.productCode}</span>
+                        <span>
+                          <span className="font-mono text-sm">{item.productCode}</span>
+                          {item.policy && (
+                            <span className="block text-xs text-muted-foreground">
+                              {item.isCaptured
+                                ? REPLENISHMENT_POLICY_LABELS[item.policy]
+                                : "Defaults (no station)"}
+                            </span>
+                          )}
+                          {item.adjustment && (
+                            <span className="block text-xs text-muted-foreground">
+                              {item.adjustment.computedOrderQty === null
+                                ? "Extra line"
+                                : `Computed ${item.adjustment.computedOrderQty}`}{" "}
+                              · {item.adjustment.changedBy}: {item.adjustment.reason}
+                            </span>
+                          )}
+                        </span>
                       </span>
                     </TableCell>
                     <TableCell className="text-right text-muted-foreground">{item.demandQty}</TableCell>
@@ -202,17 +282,84 @@ export default function OrderPage({ params }: OrderPageProps) {
                     </TableCell>
                     <TableCell className="text-right font-semibold">
                       {item.recommendedOrderQty}
+                      {item.adjustment && "*"}
+                      {/* Unit need when packs or the minimum order changed it */}
+                      {!item.adjustment &&
+                        item.unitNeedQty !== item.recommendedOrderQty && (
+                          <span className="block text-xs font-normal text-muted-foreground whitespace-nowrap">
+                            need {item.unitNeedQty}
+                            {item.packSize && item.packSize > 1
+                              ? ` · packs of ${item.packSize}`
+                              : ""}
+                          </span>
+                        )}
                     </TableCell>
+                    {canAdjust && (
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="icon-xs"
+                          onClick={() => setAdjusting(item)}
+                          title="Adjust order quantity"
+                        >
+                          <Pencil className="size-3" />
+                        </Button>
+                      </TableCell>
+                    )}
                   </TableRow>
                 ))}
               </TableBody>
             </Table>
           )}
+          {/* Every change with its reason, including ones since undone */}
+          {adjustments.length > 0 && (
+            <div className="mt-4 space-y-1 text-xs text-muted-foreground">
+              <p className="font-medium">Adjustment history</p>
+              {adjustments.map((adjustment) => (
+                <p key={adjustment.id}>
+                  {new Intl.DateTimeFormat("en-US", {
+                    dateStyle: "short",
+                    timeStyle: "short",
+                  }).format(new Date(adjustment.createdAt))}{" "}
+                  · <span className="font-mono">{adjustment.productCode}</span>{" "}
+                  {adjustment.orderQty === null
+                    ? "back to computed"
+                    : `→ ${adjustment.orderQty}`}{" "}
+                  · {adjustment.changedBy}: {adjustment.reason}
+                </p>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
 
+      <OrderAdjustmentDialog
+        sessionId={id}
+        item={adjusting === "new" ? undefined : (adjusting ?? undefined)}
+        open={adjusting !== null}
+        onOpenChange={(open) => setAdjusting(open ? adjusting : null)}
+      />
+
+      {/* Order text for the warehouse - one preview per template */}
+      {orderItems.length > 0 && <OrderTextCard sessionId={id} />}
+
+      {/* Session completion */}
+      <CompleteSessionCard
+        sessionId={id}
+        status={session.status}
+        blockedReason={data?.blockedReason ?? null}
+      />
+
+      {/* Finalized order record (completed sessions) */}
+      <FinalizedOrderCard sessionId={id} status={session.status} />
+
       <WorkflowNavigation
-        prev={{ href: `/sessions/${id}/inventory`, label: "Inventory" }}
+        sessionId={id}
+        prev={{
+          href: `/sessions/${id}/inventory`,
+          label: "Inventory",
+          status: "capturing_inventory",
+        }}
         next={{ href: "/", label: "Done" }}
       />
     </main>
@@ -3,20 +3,48 @@ import { zValidator } from "@hono/zod-validator";
 import { z } from "zod";
 import { db } from "@/lib/db";
 import { sessions, employeeCaptureGroups } from "@/lib/db/schema";
-import { eq } from "drizzle-orm";
+import { and, eq } from "drizzle-orm";
 import {
+  collectDemandFilterOptions,
+  compareDemand,
   computeDemandFromGroups,
   computeExtractionStats,
+  filterGroupItems,
 } from "@/lib/workflow/compute";
+import { toGroupForComputation } from "@/lib/loading-lists/extractions";
+import {
+  dedupeSessionActivities,
+  setActivityOwner,
+} from "@/lib/loading-lists/activity-owners";
+import { isSessionLocked, SESSION_LOCKED_ERROR } from "@/lib/sessions/lifecycle";
+import { isSessionReadOnly } from "@/lib/sessions/status";
+import {
+  approveDemand,
+  computeSessionDemand,
+  getDemandSnapshot,
+} from "@/lib/workflow/demand";
+import { loadProductResolver } from "@/lib/products/aliases";
+import {
+  collectUnresolvedDemand,
+  loadCatalogChecker,
+} from "@/lib/products/validation";
 
 // Define routes with CHAINING (critical for type inference)
 export const demandRoutes = new Hono()
-  // GET /sessions/:sessionId/demand - Get computed demand data
+  // GET /sessions/:sessionId/demand - Get computed demand data (optionally per room / end user)
   .get(
     "/sessions/:sessionId/demand",
     zValidator("param", z.object({ sessionId: z.string().uuid() })),
+    zValidator(
+      "query",
+      z.object({
+        room: z.string().min(1).optional(),
+        endUser: z.string().min(1).optional(),
+      })
+    ),
     async (c) => {
       const { sessionId } = c.req.valid("param");
+      const filter = c.req.valid("query");
 
       try {
         // Verify session exists
@@ -38,41 +66,128 @@ export const demandRoutes = new Hono()
         });
 
         // Transform to GroupForComputation format
-        const groupsForComputation = groups.map((group) => ({
-          id: group.id,
-          employeeLabel: group.employeeLabel,
-          extraction: group.extraction
-            ? {
-                status: group.extraction.status,
-                rawActivities: group.extraction.rawActivities,
-                summary: group.extraction.summary,
-                totalCost: group.extraction.totalCost,
-              }
-            : null,
-          items: group.items.map((item) => ({
-            productCode: item.productCode,
-            quantity: item.quantity,
-            activityCode: item.activityCode,
-            description: item.description,
-          })),
-        }));
-
-        const demandItems = computeDemandFromGroups(groupsForComputation);
+        const groupsForComputation = groups.map(toGroupForComputation);
+
+        // Activities listed on several loading lists only count for their owner
+        const { groups: countedGroups, duplicates } =
+          await dedupeSessionActivities(sessionId, groupsForComputation);
+
+        const checker = await loadCatalogChecker();
+        const demandItems = computeDemandFromGroups(
+          filterGroupItems(countedGroups, filter),
+          checker.resolve
+        );
         const totalQuantity = demandItems.reduce(
           (sum, item) => sum + item.demandQty,
           0
         );
         const stats = computeExtractionStats(groupsForComputation);
 
+        // Whole-session demand (ignores the filter) for warnings and approval
+        const sessionDemand = computeDemandFromGroups(countedGroups, checker.resolve);
+        const snapshot = await getDemandSnapshot(sessionId);
+
         return c.json({
           items: demandItems,
           totalProducts: demandItems.length,
           totalQuantity,
           stats,
+          filters: collectDemandFilterOptions(groupsForComputation),
+          unresolved: collectUnresolvedDemand(sessionDemand, checker),
+          duplicateActivities: duplicates,
+          approval: snapshot
+            ? {
+                approvedAt: snapshot.approvedAt,
+                changes: compareDemand(snapshot.items, sessionDemand),
+              }
+            : null,
         });
       } catch (error) {
         console.error("Failed to fetch demand:", error);
         return c.json({ error: "Failed to fetch demand" }, 500);
       }
     }
+  )
+  // POST /sessions/:sessionId/demand/approve - Snapshot current demand for the order (re-approve replaces it)
+  .post(
+    "/sessions/:sessionId/demand/approve",
+    zValidator("param", z.object({ sessionId: z.string().uuid() })),
+    async (c) => {
+      const { sessionId } = c.req.valid("param");
+
+      try {
+        const session = await db.query.sessions.findFirst({
+          where: eq(sessions.id, sessionId),
+        });
+
+        if (!session) {
+          return c.json({ error: "Session not found" }, 404);
+        }
+
+        if (isSessionReadOnly(session.status)) {
+          return c.json({ error: SESSION_LOCKED_ERROR }, 409);
+        }
+
+        const items = await computeSessionDemand(
+          sessionId,
+          await loadProductResolver()
+        );
+
+        if (items.length === 0) {
+          return c.json({ error: "Cannot approve empty demand" }, 400);
+        }
+
+        const snapshot = await approveDemand(session, items);
+
+        return c.json({
+          approval: {
+            approvedAt: snapshot.approvedAt,
+            totalProducts: snapshot.items.length,
+          },
+        });
+      } catch (error) {
+        console.error("Failed to approve demand:", error);
+        return c.json({ error: "Failed to approve demand" }, 500);
+      }
+    }
+  )
+  // PUT /sessions/:sessionId/activities/:activityCode/owner - Choose which group counts a duplicated activity
+  .put(
+    "/sessions/:sessionId/activities/:activityCode/owner",
+    zValidator(
+      "param",
+      z.object({
+        sessionId: z.string().uuid(),
+        activityCode: z.string().min(1),
+      })
+    ),
+    zValidator("json", z.object({ groupId: z.string().uuid() })),
+    async (c) => {
+      const { sessionId, activityCode } = c.req.valid("param");
+      const { groupId } = c.req.valid("json");
+
+      try {
+        const group = await db.query.employeeCaptureGroups.findFirst({
+          where: and(
+            eq(employeeCaptureGroups.id, groupId),
+            eq(employeeCaptureGroups.sessionId, sessionId)
+          ),
+        });
+
+        if (!group) {
+          return c.json({ error: "Group not found" }, 404);
+        }
+
+        if (await isSessionLocked(sessionId)) {
+          return c.json({ error: SESSION_LOCKED_ERROR }, 409);
+        }
+
+        await setActivityOwner(sessionId, activityCode, groupId);
+
+        return c.json({ activityCode, groupId });
+      } catch (error) {
+        console.error("Failed to set activity owner:", error);
+        return c.json({ error: "Failed to set activity owner" }, 500);
+      }
+    }
   );
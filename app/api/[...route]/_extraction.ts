@@ -7,60 +7,38 @@ import {
   loadingListExtractions,
   loadingListItems,
 } from "@/lib/db/schema";
-import { eq } from "drizzle-orm";
+import { and, desc, eq } from "drizzle-orm";
 import { safeExtractLoadingList } from "@/lib/ai/extract-loading-list";
-import type { LoadingListExtraction } from "@/lib/ai/schemas/loading-list-extraction";
-
-/**
- * Save extraction result and all items to database (no catalog validation)
- */
-async function saveExtraction(
-  groupId: string,
-  extraction: LoadingListExtraction
-): Promise<{ extractionId: string; itemCount: number }> {
-  // Delete existing extraction and items for this group (for re-extraction)
-  await db
-    .delete(loadingListItems)
-    .where(eq(loadingListItems.groupId, groupId));
-  await db
-    .delete(loadingListExtractions)
-    .where(eq(loadingListExtractions.groupId, groupId));
-
-  // Insert extraction record (raw AI output for audit)
-  const [insertedExtraction] = await db
-    .insert(loadingListExtractions)
-    .values({
-      groupId,
-      status: extraction.status,
-      message: extraction.message,
-      rawActivities: extraction.activities,
-      rawLineItems: extraction.lineItems,
-      summary: extraction.summary,
-    })
-    .returning({ id: loadingListExtractions.id });
-
-  const extractionId = insertedExtraction.id;
-
-  // Insert ALL items (no catalog validation)
-  if (extraction.lineItems.length > 0) {
-    await db.insert(loadingListItems).values(
-      extraction.lineItems.map((item) => ({
-        groupId,
-        extractionId,
-        activityCode: item.activityCode,
-        productCode: item.primaryCode,
-        description: item.description,
-        quantity: item.quantity,
-        source: "extraction" as const,
-      }))
-    );
-  }
-
-  return {
-    extractionId,
-    itemCount: extraction.lineItems.length,
-  };
-}
+import { isSessionLocked, SESSION_LOCKED_ERROR } from "@/lib/sessions/lifecycle";
+import {
+  activateExtraction,
+  compareExtractionItems,
+  countManualEdits,
+  extractedItems,
+  saveExtraction,
+} from "@/lib/loading-lists/extractions";
+import { loadCatalogChecker } from "@/lib/products/validation";
+
+// Manual line item payload (codes normalized to upper case like extraction output)
+const lineItemSchema = z.object({
+  activityCode: z.string().trim().toUpperCase().min(1),
+  productCode: z.string().trim().toUpperCase().min(1),
+  description: z.string().trim().nullable().optional(),
+  quantity: z.number().int().min(1),
+  secondaryCode: z.string().trim().nullable().optional(),
+  internalCode: z.string().trim().nullable().optional(),
+  room: z.string().trim().nullable().optional(),
+  endUser: z.string().trim().nullable().optional(),
+});
+
+// Older versions stay as recorded so comparison and rollback remain meaningful
+const INACTIVE_EXTRACTION_ERROR =
+  "Only items of the active extraction version can be changed";
+
+const itemParamSchema = z.object({
+  groupId: z.string().uuid(),
+  itemId: z.string().uuid(),
+});
 
 // Define routes with CHAINING (critical for type inference)
 export const extractionRoutes = new Hono()
@@ -85,6 +63,10 @@ export const extractionRoutes = new Hono()
           return c.json({ error: "Group not found" }, 404);
         }
 
+        if (await isSessionLocked(group.sessionId)) {
+          return c.json({ error: SESSION_LOCKED_ERROR }, 409);
+        }
+
         if (group.images.length === 0) {
           return c.json({ error: "No images in group" }, 400);
         }
@@ -104,18 +86,9 @@ export const extractionRoutes = new Hono()
           return c.json({ error: extractionResult.error }, 500);
         }
 
-        // Save extraction (all items, no validation)
+        // Save as new active version (items flagged against the catalog)
         const { itemCount } = await saveExtraction(groupId, extractionResult.data);
 
-        // Determine group status
-        const newStatus =
-          extractionResult.data.status === "error" ? "needs_attention" : "extracted";
-
-        await db
-          .update(employeeCaptureGroups)
-          .set({ status: newStatus })
-          .where(eq(employeeCaptureGroups.id, groupId));
-
         return c.json({
           result: {
             groupId: group.id,
@@ -138,14 +111,17 @@ export const extractionRoutes = new Hono()
       const { groupId } = c.req.valid("param");
 
       try {
-        // Get extraction with items
-        const extraction = await db.query.loadingListExtractions.findFirst({
-          where: eq(loadingListExtractions.groupId, groupId),
+        // Get active extraction with items
+        const group = await db.query.employeeCaptureGroups.findFirst({
+          where: eq(employeeCaptureGroups.id, groupId),
           with: {
-            items: true,
+            extraction: {
+              with: { items: true },
+            },
           },
         });
 
+        const extraction = group?.extraction;
         if (!extraction) {
           return c.json({ result: null });
         }
@@ -153,6 +129,7 @@ export const extractionRoutes = new Hono()
         return c.json({
           result: {
             id: extraction.id,
+            version: extraction.version,
             status: extraction.status,
             message: extraction.message,
             rawActivities: extraction.rawActivities,
@@ -165,6 +142,8 @@ export const extractionRoutes = new Hono()
               description: item.description,
               quantity: item.quantity,
               source: item.source,
+              catalogStatus: item.catalogStatus,
+              suggestedCode: item.suggestedCode,
             })),
           },
         });
@@ -173,4 +152,337 @@ export const extractionRoutes = new Hono()
         return c.json({ error: "Failed to get extraction result" }, 500);
       }
     }
+  )
+  // POST /groups/:groupId/items - Add a manual line item
+  .post(
+    "/groups/:groupId/items",
+    zValidator("param", z.object({ groupId: z.string().uuid() })),
+    zValidator("json", lineItemSchema),
+    async (c) => {
+      const { groupId } = c.req.valid("param");
+      const data = c.req.valid("json");
+
+      try {
+        const group = await db.query.employeeCaptureGroups.findFirst({
+          where: eq(employeeCaptureGroups.id, groupId),
+          with: { extraction: true },
+        });
+
+        if (!group) {
+          return c.json({ error: "Group not found" }, 404);
+        }
+
+        if (await isSessionLocked(group.sessionId)) {
+          return c.json({ error: SESSION_LOCKED_ERROR }, 409);
+        }
+
+        // Demand only counts extracted groups, so manual items need an extraction
+        if (!group.extraction) {
+          return c.json({ error: "Group has not been extracted yet" }, 400);
+        }
+
+        const checker = await loadCatalogChecker();
+        const [item] = await db
+          .insert(loadingListItems)
+          .values({
+            ...checker.check(data.productCode, data.secondaryCode),
+            groupId,
+            extractionId: group.extraction.id,
+            activityCode: data.activityCode,
+            productCode: data.productCode,
+            description: data.description ?? null,
+            quantity: data.quantity,
+            secondaryCode: data.secondaryCode ?? null,
+            internalCode: data.internalCode ?? null,
+            room: data.room ?? null,
+            endUser: data.endUser ?? null,
+            source: "manual",
+          })
+          .returning();
+
+        return c.json({ item }, 201);
+      } catch (error) {
+        console.error("Failed to add line item:", error);
+        return c.json({ error: "Failed to add line item" }, 500);
+      }
+    }
+  )
+  // PATCH /groups/:groupId/items/:itemId - Correct a line item
+  .patch(
+    "/groups/:groupId/items/:itemId",
+    zValidator("param", itemParamSchema),
+    zValidator("json", lineItemSchema.partial()),
+    async (c) => {
+      const { groupId, itemId } = c.req.valid("param");
+      const data = c.req.valid("json");
+
+      try {
+        const group = await db.query.employeeCaptureGroups.findFirst({
+          where: eq(employeeCaptureGroups.id, groupId),
+        });
+
+        if (!group) {
+          return c.json({ error: "Group not found" }, 404);
+        }
+
+        if (await isSessionLocked(group.sessionId)) {
+          return c.json({ error: SESSION_LOCKED_ERROR }, 409);
+        }
+
+        const existing = await db.query.loadingListItems.findFirst({
+          where: and(
+            eq(loadingListItems.id, itemId),
+            eq(loadingListItems.groupId, groupId)
+          ),
+        });
+
+        if (!existing) {
+          return c.json({ error: "Item not found" }, 404);
+        }
+
+        if (existing.extractionId !== group.activeExtractionId) {
+          return c.json({ error: INACTIVE_EXTRACTION_ERROR }, 409);
+        }
+
+        // Re-check the catalog against the codes as they will be stored
+        const checker = await loadCatalogChecker();
+        const catalogCheck = checker.check(
+          data.productCode ?? existing.productCode,
+          data.secondaryCode !== undefined ? data.secondaryCode : existing.secondaryCode
+        );
+
+        // Edited items become manual - values no longer come from the AI
+        const [item] = await db
+          .update(loadingListItems)
+          .set({ ...data, ...catalogCheck, source: "manual" })
+          .where(
+            and(
+              eq(loadingListItems.id, itemId),
+              eq(loadingListItems.groupId, groupId)
+            )
+          )
+          .returning();
+
+        if (!item) {
+          return c.json({ error: "Item not found" }, 404);
+        }
+
+        return c.json({ item });
+      } catch (error) {
+        console.error("Failed to update line item:", error);
+        return c.json({ error: "Failed to update line item" }, 500);
+      }
+    }
+  )
+  // DELETE /groups/:groupId/items/:itemId - Remove a line item
+  .delete(
+    "/groups/:groupId/items/:itemId",
+    zValidator("param", itemParamSchema),
+    async (c) => {
+      const { groupId, itemId } = c.req.valid("param");
+
+      try {
+        const group = await db.query.employeeCaptureGroups.findFirst({
+          where: eq(employeeCaptureGroups.id, groupId),
+        });
+
+        if (!group) {
+          return c.json({ error: "Group not found" }, 404);
+        }
+
+        if (await isSessionLocked(group.sessionId)) {
+          return c.json({ error: SESSION_LOCKED_ERROR }, 409);
+        }
+
+        const existing = await db.query.loadingListItems.findFirst({
+          where: and(
+            eq(loadingListItems.id, itemId),
+            eq(loadingListItems.groupId, groupId)
+          ),
+        });
+
+        if (!existing) {
+          return c.json({ error: "Item not found" }, 404);
+        }
+
+        if (existing.extractionId !== group.activeExtractionId) {
+          return c.json({ error: INACTIVE_EXTRACTION_ERROR }, 409);
+        }
+
+        const [deleted] = await db
+          .delete(loadingListItems)
+          .where(
+            and(
+              eq(loadingListItems.id, itemId),
+              eq(loadingListItems.groupId, groupId)
+            )
+          )
+          .returning({ id: loadingListItems.id });
+
+        if (!deleted) {
+          return c.json({ error: "Item not found" }, 404);
+        }
+
+        return c.json({ success: true });
+      } catch (error) {
+        console.error("Failed to delete line item:", error);
+        return c.json({ error: "Failed to delete line item" }, 500);
+      }
+    }
+  )
+  // GET /groups/:groupId/extractions - Extraction history (newest first)
+  .get(
+    "/groups/:groupId/extractions",
+    zValidator("param", z.object({ groupId: z.string().uuid() })),
+    async (c) => {
+      const { groupId } = c.req.valid("param");
+
+      try {
+        const group = await db.query.employeeCaptureGroups.findFirst({
+          where: eq(employeeCaptureGroups.id, groupId),
+          with: {
+            extractions: {
+              orderBy: [desc(loadingListExtractions.version)],
+              with: { items: { columns: { source: true } } },
+            },
+          },
+        });
+
+        if (!group) {
+          return c.json({ error: "Group not found" }, 404);
+        }
+
+        return c.json({
+          versions: group.extractions.map((extraction) => ({
+            id: extraction.id,
+            version: extraction.version,
+            status: extraction.status,
+            message: extraction.message,
+            model: extraction.model,
+            totalCost: extraction.totalCost,
+            extractedAt: extraction.extractedAt,
+            // As extracted - manual edits are counted on their own
+            itemCount: extraction.rawLineItems.length,
+            manualEditCount: countManualEdits(extraction.items),
+            isActive: extraction.id === group.activeExtractionId,
+          })),
+        });
+      } catch (error) {
+        console.error("Failed to get extraction history:", error);
+        return c.json({ error: "Failed to get extraction history" }, 500);
+      }
+    }
+  )
+  // GET /groups/:groupId/extractions/compare - Item diff between two versions
+  .get(
+    "/groups/:groupId/extractions/compare",
+    zValidator("param", z.object({ groupId: z.string().uuid() })),
+    zValidator(
+      "query",
+      z.object({
+        base: z.string().uuid(),
+        target: z.string().uuid(),
+      })
+    ),
+    async (c) => {
+      const { groupId } = c.req.valid("param");
+      const { base, target } = c.req.valid("query");
+
+      try {
+        const [baseExtraction, targetExtraction] = await Promise.all(
+          [base, target].map((id) =>
+            db.query.loadingListExtractions.findFirst({
+              where: and(
+                eq(loadingListExtractions.id, id),
+                eq(loadingListExtractions.groupId, groupId)
+              ),
+              with: { items: true },
+            })
+          )
+        );
+
+        if (!baseExtraction || !targetExtraction) {
+          return c.json({ error: "Extraction not found" }, 404);
+        }
+
+        // Compare what the AI extracted; manual edits would pass as AI output
+        const items = compareExtractionItems(
+          extractedItems(baseExtraction),
+          extractedItems(targetExtraction)
+        );
+
+        return c.json({
+          base: {
+            id: baseExtraction.id,
+            version: baseExtraction.version,
+            manualEditCount: countManualEdits(baseExtraction.items),
+          },
+          target: {
+            id: targetExtraction.id,
+            version: targetExtraction.version,
+            manualEditCount: countManualEdits(targetExtraction.items),
+          },
+          items,
+          summary: {
+            added: items.filter((i) => i.change === "added").length,
+            removed: items.filter((i) => i.change === "removed").length,
+            changed: items.filter((i) => i.change === "changed").length,
+            unchanged: items.filter((i) => i.change === "unchanged").length,
+          },
+        });
+      } catch (error) {
+        console.error("Failed to compare extractions:", error);
+        return c.json({ error: "Failed to compare extractions" }, 500);
+      }
+    }
+  )
+  // POST /groups/:groupId/extractions/:extractionId/activate - Roll back to a version
+  .post(
+    "/groups/:groupId/extractions/:extractionId/activate",
+    zValidator(
+      "param",
+      z.object({
+        groupId: z.string().uuid(),
+        extractionId: z.string().uuid(),
+      })
+    ),
+    async (c) => {
+      const { groupId, extractionId } = c.req.valid("param");
+
+      try {
+        const group = await db.query.employeeCaptureGroups.findFirst({
+          where: eq(employeeCaptureGroups.id, groupId),
+        });
+
+        if (!group) {
+          return c.json({ error: "Group not found" }, 404);
+        }
+
+        if (await isSessionLocked(group.sessionId)) {
+          return c.json({ error: SESSION_LOCKED_ERROR }, 409);
+        }
+
+        const extraction = await db.query.loadingListExtractions.findFirst({
+          where: and(
+            eq(loadingListExtractions.id, extractionId),
+            eq(loadingListExtractions.groupId, groupId)
+          ),
+        });
+
+        if (!extraction) {
+          return c.json({ error: "Extraction not found" }, 404);
+        }
+
+        await activateExtraction(groupId, extraction);
+
+        return c.json({
+          success: true,
+          activeExtractionId: extraction.id,
+          version: extraction.version,
+        });
+      } catch (error) {
+        console.error("Failed to activate extraction:", error);
+        return c.json({ error: "Failed to activate extraction" }, 500);
+      }
+    }
   );
@@ -5,15 +5,19 @@ import { db } from "@/lib/db";
 import {
   employeeCaptureGroups,
   loadingListImages,
-  loadingListExtractions,
-  loadingListItems,
 } from "@/lib/db/schema";
 import { eq, desc, asc } from "drizzle-orm";
 import { put, del } from "@vercel/blob";
+import {
+  isSessionLocked,
+  startLoadingListCapture,
+  SESSION_LOCKED_ERROR,
+} from "@/lib/sessions/lifecycle";
+import { withActiveItems } from "@/lib/loading-lists/extractions";
 
 /**
  * Invalidates extraction result for a group if it exists.
- * Resets group status to "pending" and deletes extraction result.
+ * Resets group status to "pending" and clears the active extraction (history is kept).
  * Call this when images are added/removed from a group.
  * @internal Reserved for future re-extraction feature
  */
@@ -27,16 +31,6 @@ async function _invalidateGroupExtraction(groupId: string): Promise<void> {
     return; // Nothing to invalidate
   }
 
-  // Delete items first (FK constraint)
-  await db
-    .delete(loadingListItems)
-    .where(eq(loadingListItems.groupId, groupId));
-
-  // Delete extraction
-  await db
-    .delete(loadingListExtractions)
-    .where(eq(loadingListExtractions.groupId, groupId));
-
   // Reset AI classification on images
   await db
     .update(loadingListImages)
@@ -47,10 +41,10 @@ async function _invalidateGroupExtraction(groupId: string): Promise<void> {
     })
     .where(eq(loadingListImages.groupId, groupId));
 
-  // Reset group status to pending
+  // Reset group status to pending, no version is active until re-extraction
   await db
     .update(employeeCaptureGroups)
-    .set({ status: "pending" })
+    .set({ status: "pending", activeExtractionId: null })
     .where(eq(employeeCaptureGroups.id, groupId));
 }
 
@@ -75,7 +69,7 @@ export const groupRoutes = new Hono()
           },
         });
 
-        return c.json({ groups });
+        return c.json({ groups: groups.map(withActiveItems) });
       } catch (error) {
         console.error("Failed to fetch groups:", error);
         return c.json({ error: "Failed to fetch groups" }, 500);
@@ -97,6 +91,10 @@ export const groupRoutes = new Hono()
       const { imageCount } = c.req.valid("json");
 
       try {
+        if (await isSessionLocked(sessionId)) {
+          return c.json({ error: SESSION_LOCKED_ERROR }, 409);
+        }
+
         // Create the group with auto-numbered label and "uploading" status
         const existingGroups = await db.query.employeeCaptureGroups.findMany({
           where: eq(employeeCaptureGroups.sessionId, sessionId),
@@ -112,6 +110,8 @@ export const groupRoutes = new Hono()
           })
           .returning();
 
+        await startLoadingListCapture(sessionId);
+
         return c.json(
           {
             group,
@@ -161,6 +161,10 @@ export const groupRoutes = new Hono()
           return c.json({ error: "Group not found" }, 404);
         }
 
+        if (await isSessionLocked(group.sessionId)) {
+          return c.json({ error: SESSION_LOCKED_ERROR }, 409);
+        }
+
         // Upload all images in parallel
         const uploadResults = await Promise.all(
           images.map(async (img, index) => {
@@ -223,7 +227,7 @@ export const groupRoutes = new Hono()
         });
 
         return c.json({
-          group: updatedGroup,
+          group: updatedGroup && withActiveItems(updatedGroup),
           uploadedCount: successCount,
           failedCount: failCount,
         });
@@ -261,6 +265,10 @@ export const groupRoutes = new Hono()
       }
 
       try {
+        if (await isSessionLocked(sessionId)) {
+          return c.json({ error: SESSION_LOCKED_ERROR }, 409);
+        }
+
         // 1. Create the group with auto-numbered label
         const existingGroups = await db.query.employeeCaptureGroups.findMany({
           where: eq(employeeCaptureGroups.sessionId, sessionId),
@@ -278,6 +286,8 @@ export const groupRoutes = new Hono()
 
         const groupId = group.id;
 
+        await startLoadingListCapture(sessionId);
+
         // 2. Upload all images in parallel
         const uploadResults = await Promise.all(
           images.map(async (img, index) => {
@@ -333,7 +343,7 @@ export const groupRoutes = new Hono()
 
         return c.json(
           {
-            group: createdGroup,
+            group: createdGroup && withActiveItems(createdGroup),
             message:
               failCount > 0
                 ? `Group created with ${images.length - failCount}/${images.length} images`
@@ -363,6 +373,10 @@ export const groupRoutes = new Hono()
           return c.json({ error: "Group not found" }, 404);
         }
 
+        if (await isSessionLocked(group.sessionId)) {
+          return c.json({ error: SESSION_LOCKED_ERROR }, 409);
+        }
+
         // Get all images to delete their blobs
         const images = await db.query.loadingListImages.findMany({
           where: eq(loadingListImages.groupId, id),
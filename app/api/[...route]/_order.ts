@@ -2,17 +2,21 @@ import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { z } from "zod";
 import { db } from "@/lib/db";
-import { sessions, employeeCaptureGroups, stationCaptures } from "@/lib/db/schema";
-import { eq } from "drizzle-orm";
+import { orderTemplates, sessions } from "@/lib/db/schema";
+import { asc, eq } from "drizzle-orm";
 import {
-  computeDemandFromGroups,
-  computeOrderItems,
-  computeCoverage,
-} from "@/lib/workflow/compute";
+  addOrderAdjustment,
+  computeSessionOrder,
+  coverageBlockError,
+} from "@/lib/workflow/order";
+import { activeOrderAdjustments } from "@/lib/workflow/compute";
+import { loadProductResolver } from "@/lib/products/aliases";
+import { isSessionLocked, SESSION_LOCKED_ERROR } from "@/lib/sessions/lifecycle";
+import { renderOrderTexts } from "@/lib/workflow/order-text";
 
 // Define routes with CHAINING (critical for type inference)
 export const orderRoutes = new Hono()
-  // GET /sessions/:sessionId/order - Compute order from demand + stations
+  // GET /sessions/:sessionId/order - Compute order from approved demand + stations
   .get(
     "/sessions/:sessionId/order",
     zValidator("param", z.object({ sessionId: z.string().uuid() })),
@@ -28,60 +32,149 @@ export const orderRoutes = new Hono()
           return c.json({ error: "Session not found" }, 404);
         }
 
-        // Get groups with extraction and items
-        const groups = await db.query.employeeCaptureGroups.findMany({
-          where: eq(employeeCaptureGroups.sessionId, sessionId),
-          with: {
-            extraction: true,
-            items: true,
-          },
-        });
-
-        // Transform to GroupForComputation format
-        const groupsForComputation = groups.map((group) => ({
-          id: group.id,
-          employeeLabel: group.employeeLabel,
-          extraction: group.extraction
-            ? {
-                status: group.extraction.status,
-                rawActivities: group.extraction.rawActivities,
-                summary: group.extraction.summary,
-                totalCost: group.extraction.totalCost,
-              }
-            : null,
-          items: group.items.map((item) => ({
-            productCode: item.productCode,
-            quantity: item.quantity,
-            activityCode: item.activityCode,
-            description: item.description,
-          })),
-        }));
-
-        const demandItems = computeDemandFromGroups(groupsForComputation);
-
-        // Get stations
-        const stations = await db.query.stationCaptures.findMany({
-          where: eq(stationCaptures.sessionId, sessionId),
-        });
-
-        // Compute order with graceful handling
-        const { computed, skipped } = computeOrderItems(demandItems, stations);
-
-        // Compute coverage info
-        const coverage = computeCoverage(demandItems, stations);
+        // Approved demand snapshot (live demand until approved) against the
+        // session's stations, following its coverage mode
+        const resolve = await loadProductResolver();
+        const { demand, computed, skipped, coverage, adjustments } =
+          await computeSessionOrder(session, resolve);
 
         return c.json({
           session: {
             id: session.id,
             createdAt: session.createdAt,
+            status: session.status,
+            coverageMode: session.coverageMode,
           },
           orderItems: computed,
           skippedItems: skipped,
           coverage,
+          // Strict coverage: why the order cannot be finished yet
+          blockedReason: coverageBlockError(session, coverage),
+          demandApproval: {
+            approvedAt: demand.approvedAt,
+            changes: demand.changes,
+          },
+          // Every coordinator change with its reason, newest first
+          adjustments,
         });
       } catch (error) {
         console.error("Failed to compute order:", error);
         return c.json({ error: "Failed to compute order" }, 500);
       }
     }
+  )
+  // GET /sessions/:sessionId/order/texts - Order text rendered with the default
+  // template and every named template (for preview and copy)
+  .get(
+    "/sessions/:sessionId/order/texts",
+    zValidator("param", z.object({ sessionId: z.string().uuid() })),
+    async (c) => {
+      const { sessionId } = c.req.valid("param");
+
+      try {
+        const session = await db.query.sessions.findFirst({
+          where: eq(sessions.id, sessionId),
+        });
+
+        if (!session) {
+          return c.json({ error: "Session not found" }, 404);
+        }
+
+        const resolve = await loadProductResolver();
+        const [{ computed }, templates] = await Promise.all([
+          computeSessionOrder(session, resolve),
+          db.select().from(orderTemplates).orderBy(asc(orderTemplates.name)),
+        ]);
+
+        return c.json({
+          texts: renderOrderTexts(templates, session, computed),
+        });
+      } catch (error) {
+        console.error("Failed to render order text:", error);
+        return c.json({ error: "Failed to render order text" }, 500);
+      }
+    }
+  )
+  // PUT /sessions/:sessionId/order/adjustments/:productCode - Override the
+  // order quantity of a line, or add a product not in demand as an extra line
+  // (orderQty null puts it back to the computed quantity)
+  .put(
+    "/sessions/:sessionId/order/adjustments/:productCode",
+    zValidator(
+      "param",
+      z.object({ sessionId: z.string().uuid(), productCode: z.string().min(1) })
+    ),
+    zValidator(
+      "json",
+      z.object({
+        orderQty: z.number().int().min(0).nullable(),
+        changedBy: z.string().trim().min(1),
+        reason: z.string().trim().min(1),
+      })
+    ),
+    async (c) => {
+      const { sessionId, productCode: rawCode } = c.req.valid("param");
+      const { orderQty, changedBy, reason } = c.req.valid("json");
+
+      try {
+        const session = await db.query.sessions.findFirst({
+          where: eq(sessions.id, sessionId),
+        });
+
+        if (!session) {
+          return c.json({ error: "Session not found" }, 404);
+        }
+
+        if (await isSessionLocked(sessionId)) {
+          return c.json({ error: SESSION_LOCKED_ERROR }, 409);
+        }
+
+        const resolve = await loadProductResolver();
+        const { canonicalCode: productCode, matchedBy } = resolve(rawCode);
+        const { computed, skipped, adjustments } = await computeSessionOrder(
+          session,
+          resolve
+        );
+
+        // Extra lines must be orderable articles; demanded codes the catalog
+        // does not know can still be adjusted
+        if (
+          matchedBy === "unresolved" &&
+          !computed.some((item) => item.productCode === productCode) &&
+          !skipped.some((item) => item.productCode === productCode)
+        ) {
+          return c.json({ error: `${productCode} is not in the catalog` }, 400);
+        }
+
+        // Strict coverage: the station decides, not a manual quantity
+        if (skipped.some((item) => item.productCode === productCode)) {
+          return c.json(
+            { error: `Capture the station of ${productCode} before adjusting it` },
+            409
+          );
+        }
+
+        if (
+          orderQty === null &&
+          !activeOrderAdjustments(adjustments).some(
+            (a) => a.productCode === productCode
+          )
+        ) {
+          return c.json({ error: `${productCode} is not adjusted` }, 400);
+        }
+
+        const adjustment = await addOrderAdjustment({
+          sessionId,
+          productCode,
+          orderQty,
+          changedBy,
+          reason,
+        });
+
+        return c.json({ adjustment });
+      } catch (error) {
+        console.error("Failed to adjust order:", error);
+        return c.json({ error: "Failed to adjust order" }, 500);
+      }
+    }
   );
@@ -0,0 +1,176 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { orderStatus, orderTemplates, orders, sessions } from "@/lib/db/schema";
+import { asc, eq } from "drizzle-orm";
+import { computeSessionOrder, coverageBlockError } from "@/lib/workflow/order";
+import { renderOrderTexts } from "@/lib/workflow/order-text";
+import { loadProductResolver } from "@/lib/products/aliases";
+import {
+  finalizeOrder,
+  getSessionOrder,
+  listOrders,
+} from "@/lib/orders/finalize";
+import {
+  canTransitionOrder,
+  ORDER_STATUS_TIMESTAMP,
+} from "@/lib/orders/status";
+
+// Define routes with CHAINING (critical for type inference)
+export const finalizedOrderRoutes = new Hono()
+  // GET /orders - Finalized order history, newest first
+  .get("/orders", async (c) => {
+    try {
+      const history = await listOrders();
+      return c.json({ orders: history });
+    } catch (error) {
+      console.error("Failed to fetch orders:", error);
+      return c.json({ error: "Failed to fetch orders" }, 500);
+    }
+  })
+  // GET /orders/:id/texts - Order text of a finalized order, rendered from its
+  // stored lines with the default template and every named template
+  .get(
+    "/orders/:id/texts",
+    zValidator("param", z.object({ id: z.string().uuid() })),
+    async (c) => {
+      const { id } = c.req.valid("param");
+
+      try {
+        const order = await db.query.orders.findFirst({
+          where: eq(orders.id, id),
+          with: { lines: true },
+        });
+
+        if (!order) {
+          return c.json({ error: "Order not found" }, 404);
+        }
+
+        const templates = await db
+          .select()
+          .from(orderTemplates)
+          .orderBy(asc(orderTemplates.name));
+
+        return c.json({
+          texts: renderOrderTexts(
+            templates,
+            { createdAt: order.sessionCreatedAt },
+            order.lines
+          ),
+        });
+      } catch (error) {
+        console.error("Failed to render order text:", error);
+        return c.json({ error: "Failed to render order text" }, 500);
+      }
+    }
+  )
+  // PATCH /orders/:id/status - Move a finalized order forward (sent, confirmed,
+  // received); its lines never change
+  .patch(
+    "/orders/:id/status",
+    zValidator("param", z.object({ id: z.string().uuid() })),
+    zValidator("json", z.object({ status: z.enum(orderStatus) })),
+    async (c) => {
+      const { id } = c.req.valid("param");
+      const { status } = c.req.valid("json");
+
+      try {
+        const order = await db.query.orders.findFirst({
+          where: eq(orders.id, id),
+        });
+
+        if (!order) {
+          return c.json({ error: "Order not found" }, 404);
+        }
+
+        if (order.status === status) {
+          return c.json({ order });
+        }
+
+        if (status === "draft" || !canTransitionOrder(order.status, status)) {
+          return c.json(
+            { error: `Cannot move order from ${order.status} to ${status}` },
+            409
+          );
+        }
+
+        const [updated] = await db
+          .update(orders)
+          .set({
+            status,
+            [ORDER_STATUS_TIMESTAMP[status]]: new Date().toISOString(),
+          })
+          .where(eq(orders.id, id))
+          .returning();
+
+        return c.json({ order: updated });
+      } catch (error) {
+        console.error("Failed to update order status:", error);
+        return c.json({ error: "Failed to update order status" }, 500);
+      }
+    }
+  )
+  // GET /sessions/:sessionId/order/finalized - The session's finalized order
+  // (null until finalized)
+  .get(
+    "/sessions/:sessionId/order/finalized",
+    zValidator("param", z.object({ sessionId: z.string().uuid() })),
+    async (c) => {
+      const { sessionId } = c.req.valid("param");
+
+      try {
+        const order = await getSessionOrder(sessionId);
+        return c.json({ order });
+      } catch (error) {
+        console.error("Failed to fetch finalized order:", error);
+        return c.json({ error: "Failed to fetch finalized order" }, 500);
+      }
+    }
+  )
+  // POST /sessions/:sessionId/order/finalize - Store the computed order of a
+  // session completed before completion took the snapshot itself
+  .post(
+    "/sessions/:sessionId/order/finalize",
+    zValidator("param", z.object({ sessionId: z.string().uuid() })),
+    async (c) => {
+      const { sessionId } = c.req.valid("param");
+
+      try {
+        const session = await db.query.sessions.findFirst({
+          where: eq(sessions.id, sessionId),
+        });
+
+        if (!session) {
+          return c.json({ error: "Session not found" }, 404);
+        }
+
+        // Only a completed (locked) session's order can no longer change
+        if (session.status !== "completed") {
+          return c.json(
+            { error: "Complete the session before finalizing its order" },
+            409
+          );
+        }
+
+        const { computed, coverage } = await computeSessionOrder(
+          session,
+          await loadProductResolver()
+        );
+        const blockedReason = coverageBlockError(session, coverage);
+        if (blockedReason) {
+          return c.json({ error: blockedReason }, 409);
+        }
+
+        const order = await finalizeOrder(session, computed);
+        if (!order) {
+          return c.json({ error: "Order is already finalized" }, 409);
+        }
+
+        return c.json({ order: await getSessionOrder(sessionId) }, 201);
+      } catch (error) {
+        console.error("Failed to finalize order:", error);
+        return c.json({ error: "Failed to finalize order" }, 500);
+      }
+    }
+  );
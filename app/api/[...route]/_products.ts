@@ -0,0 +1,380 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { z } from "zod";
+import { db } from "@/lib/db";
+import {
+  packRounding,
+  productAliases,
+  products,
+  replenishmentPolicy,
+} from "@/lib/db/schema";
+import { asc, eq, inArray, isNull } from "drizzle-orm";
+import { parseCatalogCsv, serializeCatalogCsv } from "@/lib/products/csv";
+import { applyCatalogDiff, diffCatalog } from "@/lib/products/import";
+
+// Product fields editable from the catalog screen
+const productFieldsSchema = z.object({
+  description: z.string().trim().min(1),
+  minQty: z.number().int().min(0),
+  maxQty: z.number().int().min(0),
+  // Defaults to demand_only (spec formula) when not given
+  replenishmentPolicy: z.enum(replenishmentPolicy).optional(),
+  // Defaults to single units (pack of 1, no minimum, rounded up)
+  packSize: z.number().int().min(1).optional(),
+  minOrderQty: z.number().int().min(0).optional(),
+  packRounding: z.enum(packRounding).optional(),
+});
+
+const minMaxRefinement = {
+  check: (data: { minQty?: number; maxQty?: number }) =>
+    data.minQty === undefined ||
+    data.maxQty === undefined ||
+    data.minQty <= data.maxQty,
+  message: "Min cannot be greater than max",
+};
+
+const createProductSchema = productFieldsSchema
+  .extend({
+    articleNumber: z.string().trim().toUpperCase().min(1),
+  })
+  .refine(minMaxRefinement.check, { message: minMaxRefinement.message });
+
+const updateProductSchema = productFieldsSchema
+  .partial()
+  .refine(minMaxRefinement.check, { message: minMaxRefinement.message });
+
+// Define routes with CHAINING (critical for type inference)
+export const productRoutes = new Hono()
+  // GET /products - List catalog (retired products only when requested)
+  .get(
+    "/",
+    zValidator(
+      "query",
+      z.object({ includeRetired: z.enum(["true", "false"]).optional() })
+    ),
+    async (c) => {
+      const { includeRetired } = c.req.valid("query");
+
+      try {
+        const catalog = await db
+          .select()
+          .from(products)
+          .where(includeRetired === "true" ? undefined : isNull(products.retiredAt))
+          .orderBy(asc(products.articleNumber));
+
+        return c.json({ products: catalog });
+      } catch (error) {
+        console.error("Failed to fetch products:", error);
+        return c.json({ error: "Failed to fetch products" }, 500);
+      }
+    }
+  )
+  // GET /products/export - Active catalog as CSV
+  .get("/export", async (c) => {
+    try {
+      const catalog = await db
+        .select()
+        .from(products)
+        .where(isNull(products.retiredAt))
+        .orderBy(asc(products.articleNumber));
+
+      const date = new Date().toISOString().slice(0, 10);
+      return c.body(serializeCatalogCsv(catalog), 200, {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="products-${date}.csv"`,
+      });
+    } catch (error) {
+      console.error("Failed to export products:", error);
+      return c.json({ error: "Failed to export products" }, 500);
+    }
+  })
+  // POST /products/import - Diff an uploaded CSV against the catalog (dry run) or apply it
+  .post(
+    "/import",
+    zValidator(
+      "json",
+      z.object({
+        csv: z.string().min(1),
+        dryRun: z.boolean().default(true),
+      })
+    ),
+    async (c) => {
+      const { csv, dryRun } = c.req.valid("json");
+
+      const parsed = parseCatalogCsv(csv);
+      if (parsed.errors.length > 0) {
+        // Message lists the first few problems so the user can fix the file
+        const shown = parsed.errors
+          .slice(0, 3)
+          .map((e) => `line ${e.line}: ${e.message}`);
+        const more = parsed.errors.length - shown.length;
+        return c.json(
+          {
+            error: `CSV contains invalid rows (${shown.join("; ")}${more > 0 ? `; +${more} more` : ""})`,
+            rowErrors: parsed.errors,
+          },
+          400
+        );
+      }
+
+      // A header-only file would otherwise retire the whole catalog
+      if (parsed.products.length === 0) {
+        return c.json({ error: "File has no products" }, 400);
+      }
+
+      try {
+        // An article whose code is an alias would never be resolved - the
+        // alias keeps mapping the code to its own article (same as POST /products)
+        const aliased = await db
+          .select({ code: productAliases.code })
+          .from(productAliases)
+          .where(
+            inArray(
+              productAliases.code,
+              parsed.products.map((p) => p.articleNumber)
+            )
+          );
+        if (aliased.length > 0) {
+          const codes = aliased.map((a) => a.code).sort();
+          const shown = codes.slice(0, 3).join(", ");
+          const more = codes.length > 3 ? ` +${codes.length - 3} more` : "";
+          return c.json(
+            {
+              error: `CSV contains codes that are already aliases (${shown}${more})`,
+            },
+            400
+          );
+        }
+
+        const current = await db.select().from(products);
+        const diff = diffCatalog(current, parsed.products);
+
+        if (!dryRun) {
+          await applyCatalogDiff(diff);
+        }
+
+        return c.json({ diff, applied: !dryRun });
+      } catch (error) {
+        console.error("Failed to import products:", error);
+        return c.json({ error: "Failed to import products" }, 500);
+      }
+    }
+  )
+  // GET /products/aliases - Alternative codes and the articles they resolve to
+  .get("/aliases", async (c) => {
+    try {
+      const aliases = await db
+        .select({
+          id: productAliases.id,
+          code: productAliases.code,
+          articleNumber: products.articleNumber,
+          description: products.description,
+          retiredAt: products.retiredAt,
+        })
+        .from(productAliases)
+        .innerJoin(products, eq(productAliases.productId, products.id))
+        .orderBy(asc(productAliases.code));
+
+      return c.json({ aliases });
+    } catch (error) {
+      console.error("Failed to fetch product aliases:", error);
+      return c.json({ error: "Failed to fetch product aliases" }, 500);
+    }
+  })
+  // POST /products/aliases - Resolve an alternative code to a catalog article
+  .post(
+    "/aliases",
+    zValidator(
+      "json",
+      z.object({
+        code: z.string().trim().toUpperCase().min(1),
+        articleNumber: z.string().trim().toUpperCase().min(1),
+      })
+    ),
+    async (c) => {
+      const { code, articleNumber } = c.req.valid("json");
+
+      try {
+        const product = await db.query.products.findFirst({
+          where: eq(products.articleNumber, articleNumber),
+        });
+
+        if (!product || product.retiredAt) {
+          return c.json({ error: `Product ${articleNumber} not found` }, 404);
+        }
+
+        // Aliases win over catalog matches, so an article code cannot be one
+        const shadowed = await db.query.products.findFirst({
+          where: eq(products.articleNumber, code),
+        });
+        if (shadowed) {
+          return c.json({ error: `${code} is a catalog article number` }, 400);
+        }
+
+        const existing = await db.query.productAliases.findFirst({
+          where: eq(productAliases.code, code),
+        });
+        if (existing) {
+          return c.json({ error: `Alias ${code} already exists` }, 409);
+        }
+
+        const [alias] = await db
+          .insert(productAliases)
+          .values({ code, productId: product.id })
+          .returning();
+
+        return c.json({ alias }, 201);
+      } catch (error) {
+        console.error("Failed to create product alias:", error);
+        return c.json({ error: "Failed to create product alias" }, 500);
+      }
+    }
+  )
+  // DELETE /products/aliases/:id - Stop resolving an alternative code
+  .delete(
+    "/aliases/:id",
+    zValidator("param", z.object({ id: z.string().uuid() })),
+    async (c) => {
+      const { id } = c.req.valid("param");
+
+      try {
+        const [deleted] = await db
+          .delete(productAliases)
+          .where(eq(productAliases.id, id))
+          .returning({ id: productAliases.id });
+
+        if (!deleted) {
+          return c.json({ error: "Alias not found" }, 404);
+        }
+
+        return c.json({ success: true });
+      } catch (error) {
+        console.error("Failed to delete product alias:", error);
+        return c.json({ error: "Failed to delete product alias" }, 500);
+      }
+    }
+  )
+  // POST /products - Add a product
+  .post("/", zValidator("json", createProductSchema), async (c) => {
+    const data = c.req.valid("json");
+
+    try {
+      const existing = await db.query.products.findFirst({
+        where: eq(products.articleNumber, data.articleNumber),
+      });
+
+      if (existing) {
+        return c.json(
+          { error: `Product ${data.articleNumber} already exists` },
+          409
+        );
+      }
+
+      // The alias would keep resolving the code away from the new article
+      const alias = await db.query.productAliases.findFirst({
+        where: eq(productAliases.code, data.articleNumber),
+      });
+      if (alias) {
+        return c.json(
+          { error: `${data.articleNumber} is already an alias` },
+          409
+        );
+      }
+
+      const [product] = await db.insert(products).values(data).returning();
+
+      return c.json({ product }, 201);
+    } catch (error) {
+      console.error("Failed to create product:", error);
+      return c.json({ error: "Failed to create product" }, 500);
+    }
+  })
+  // PATCH /products/:id - Edit description or min/max (article number is fixed)
+  .patch(
+    "/:id",
+    zValidator("param", z.object({ id: z.string().uuid() })),
+    zValidator("json", updateProductSchema),
+    async (c) => {
+      const { id } = c.req.valid("param");
+      const data = c.req.valid("json");
+
+      try {
+        const existing = await db.query.products.findFirst({
+          where: eq(products.id, id),
+        });
+
+        if (!existing) {
+          return c.json({ error: "Product not found" }, 404);
+        }
+
+        // Validate against stored values when only one bound changes
+        const minQty = data.minQty ?? existing.minQty;
+        const maxQty = data.maxQty ?? existing.maxQty;
+        if (minQty > maxQty) {
+          return c.json({ error: minMaxRefinement.message }, 400);
+        }
+
+        const [product] = await db
+          .update(products)
+          .set({ ...data, updatedAt: new Date().toISOString() })
+          .where(eq(products.id, id))
+          .returning();
+
+        return c.json({ product });
+      } catch (error) {
+        console.error("Failed to update product:", error);
+        return c.json({ error: "Failed to update product" }, 500);
+      }
+    }
+  )
+  // POST /products/:id/retire - Hide from catalog (kept for history)
+  .post(
+    "/:id/retire",
+    zValidator("param", z.object({ id: z.string().uuid() })),
+    async (c) => {
+      const { id } = c.req.valid("param");
+
+      try {
+        const now = new Date().toISOString();
+        const [product] = await db
+          .update(products)
+          .set({ retiredAt: now, updatedAt: now })
+          .where(eq(products.id, id))
+          .returning();
+
+        if (!product) {
+          return c.json({ error: "Product not found" }, 404);
+        }
+
+        return c.json({ product });
+      } catch (error) {
+        console.error("Failed to retire product:", error);
+        return c.json({ error: "Failed to retire product" }, 500);
+      }
+    }
+  )
+  // POST /products/:id/restore - Bring a retired product back
+  .post(
+    "/:id/restore",
+    zValidator("param", z.object({ id: z.string().uuid() })),
+    async (c) => {
+      const { id } = c.req.valid("param");
+
+      try {
+        const [product] = await db
+          .update(products)
+          .set({ retiredAt: null, updatedAt: new Date().toISOString() })
+          .where(eq(products.id, id))
+          .returning();
+
+        if (!product) {
+          return c.json({ error: "Product not found" }, 404);
+        }
+
+        return c.json({ product });
+      } catch (error) {
+        console.error("Failed to restore product:", error);
+        return c.json({ error: "Failed to restore product" }, 500);
+      }
+    }
+  );
@@ -2,9 +2,29 @@ import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { z } from "zod";
 import { db } from "@/lib/db";
-import { sessions, sessionPhase } from "@/lib/db/schema";
+import {
+  coverageMode,
+  orders,
+  sessions,
+  sessionPhase,
+  sessionStatus,
+} from "@/lib/db/schema";
 import { eq, desc } from "drizzle-orm";
 import { deleteSessionWithCleanup } from "@/lib/cleanup/session";
+import {
+  canTransitionSession,
+  DEMAND_APPROVED_STATUSES,
+  SESSION_STATUS_PHASE,
+} from "@/lib/sessions/status";
+import { getDemandSnapshot } from "@/lib/workflow/demand";
+import { isSessionLocked, SESSION_LOCKED_ERROR } from "@/lib/sessions/lifecycle";
+import {
+  computeSessionOrder,
+  coverageBlockError,
+} from "@/lib/workflow/order";
+import { loadProductResolver } from "@/lib/products/aliases";
+import { finalizeOrder } from "@/lib/orders/finalize";
+import type { ComputedOrderItem } from "@/lib/workflow/compute";
 
 // Define routes with CHAINING (critical for type inference)
 export const sessionRoutes = new Hono()
@@ -47,7 +67,7 @@ export const sessionRoutes = new Hono()
     try {
       const [session] = await db
         .insert(sessions)
-        .values({ lastPhase: "loading-lists" })
+        .values({ lastPhase: "loading-lists", status: "draft" })
         .returning();
       return c.json({ session }, 201);
     } catch (error) {
@@ -106,4 +126,126 @@ export const sessionRoutes = new Hono()
         return c.json({ error: "Failed to update session phase" }, 500);
       }
     }
+  )
+  .patch(
+    "/:id/status",
+    zValidator("param", z.object({ id: z.string().uuid() })),
+    zValidator("json", z.object({ status: z.enum(sessionStatus) })),
+    async (c) => {
+      // Move session through its lifecycle (only explicit transitions allowed)
+      const { id } = c.req.valid("param");
+      const { status } = c.req.valid("json");
+
+      try {
+        const [session] = await db
+          .select()
+          .from(sessions)
+          .where(eq(sessions.id, id));
+
+        if (!session) {
+          return c.json({ error: "Session not found" }, 404);
+        }
+
+        if (session.status === status) {
+          return c.json({ session });
+        }
+
+        if (!canTransitionSession(session.status, status)) {
+          return c.json(
+            {
+              error: `Cannot move session from ${session.status} to ${status}`,
+            },
+            409
+          );
+        }
+
+        // Demand is frozen by approval - no way past review without it
+        if (
+          DEMAND_APPROVED_STATUSES.includes(status) &&
+          !(await getDemandSnapshot(id))
+        ) {
+          return c.json(
+            { error: "Approve demand before moving on to inventory" },
+            409
+          );
+        }
+
+        // Strict coverage: order review and completion wait for every
+        // demanded product to have a valid station
+        let reviewedOrder: ComputedOrderItem[] = [];
+        if (status === "review_order" || status === "completed") {
+          const { computed, coverage } = await computeSessionOrder(
+            session,
+            await loadProductResolver()
+          );
+          const blockedReason = coverageBlockError(session, coverage);
+          if (blockedReason) {
+            return c.json({ error: blockedReason }, 409);
+          }
+          reviewedOrder = computed;
+        }
+
+        // Completing stores the order as reviewed - later catalog, alias or
+        // registry changes must not alter it, and it outlives the session
+        const snapshot =
+          status === "completed"
+            ? await finalizeOrder(session, reviewedOrder)
+            : null;
+
+        try {
+          const [updated] = await db
+            .update(sessions)
+            .set({
+              status,
+              // Keep resume phase in sync with status
+              lastPhase: SESSION_STATUS_PHASE[status],
+              completedAt: status === "completed" ? new Date().toISOString() : null,
+            })
+            .where(eq(sessions.id, id))
+            .returning();
+
+          return c.json({ session: updated });
+        } catch (error) {
+          // No transactions over HTTP - drop the snapshot so completing can be retried
+          if (snapshot) {
+            await db.delete(orders).where(eq(orders.id, snapshot.id));
+          }
+          throw error;
+        }
+      } catch (error) {
+        console.error("Failed to update session status:", error);
+        return c.json({ error: "Failed to update session status" }, 500);
+      }
+    }
+  )
+  .patch(
+    "/:id/coverage-mode",
+    zValidator("param", z.object({ id: z.string().uuid() })),
+    zValidator("json", z.object({ coverageMode: z.enum(coverageMode) })),
+    async (c) => {
+      // Choose how products without a valid station are handled
+      const { id } = c.req.valid("param");
+      const { coverageMode } = c.req.valid("json");
+
+      try {
+        if (await isSessionLocked(id)) {
+          return c.json({ error: SESSION_LOCKED_ERROR }, 409);
+        }
+
+        const [updated] = await db
+          .update(sessions)
+          .set({ coverageMode })
+          .where(eq(sessions.id, id))
+          .returning();
+
+        if (!updated) {
+          return c.json({ error: "Session not found" }, 404);
+        }
+
+        return c.json({ session: updated });
+      } catch (error) {
+        console.error("Failed to update coverage mode:", error);
+        return c.json({ error: "Failed to update coverage mode" }, 500);
+      }
+    }
   );
@@ -2,26 +2,56 @@ import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { z } from "zod";
 import { db } from "@/lib/db";
-import { stationCaptures, sessions } from "@/lib/db/schema";
-import { eq, desc } from "drizzle-orm";
+import {
+  stationCaptures,
+  stationOverrides,
+  stationStockPhotos,
+  sessions,
+} from "@/lib/db/schema";
+import { asc, eq, desc } from "drizzle-orm";
 import { put, del } from "@vercel/blob";
-import { safeExtractStation } from "@/lib/ai/extract-station";
-import type { StationExtraction } from "@/lib/ai/schemas/station-extraction";
-
-/**
- * Maps extraction status to station capture status
- */
-function mapExtractionStatusToStationStatus(
-  extraction: StationExtraction
-): "valid" | "needs_attention" | "failed" {
-  if (extraction.status === "success") {
-    return "valid";
-  }
-  if (extraction.status === "error") {
-    return "failed";
-  }
-  return "needs_attention"; // warning
-}
+import {
+  safeExtractStation,
+  safeExtractStationStockOnly,
+} from "@/lib/ai/extract-station";
+import { isSessionReadOnly } from "@/lib/sessions/status";
+import { isSessionLocked, SESSION_LOCKED_ERROR } from "@/lib/sessions/lifecycle";
+import { getOrderDemand } from "@/lib/workflow/demand";
+import {
+  getRegistryStation,
+  linkCaptureToRegistry,
+  listRegistryStations,
+  NO_REGISTRY_SIGN_ERROR,
+  registryKnownSign,
+  registrySignBlobUrls,
+  updateRegistryStation,
+} from "@/lib/stations/registry";
+import {
+  refreshCatalogIssues,
+  resolveMinMaxDiscrepancy,
+} from "@/lib/stations/catalog-check";
+import { assessStationExtraction } from "@/lib/stations/confidence";
+import {
+  getStockPhotoUrls,
+  saveStockPhotoCounts,
+  stockPhotoUrlsError,
+} from "@/lib/stations/stock-photos";
+import {
+  applyStationChanges,
+  overrideStation,
+  reviewedStationFields,
+  stationValuesError,
+} from "@/lib/stations/overrides";
+import {
+  dedupeSessionStations,
+  setStationResolution,
+} from "@/lib/stations/duplicates";
+import { loadProductResolver } from "@/lib/products/aliases";
+import {
+  computeCoverage,
+  stationProductCode,
+  stationSkipReason,
+} from "@/lib/workflow/compute";
 
 // Define routes with CHAINING (critical for type inference)
 export const stationRoutes = new Hono()
@@ -36,6 +66,14 @@ export const stationRoutes = new Hono()
         const stations = await db.query.stationCaptures.findMany({
           where: eq(stationCaptures.sessionId, sessionId),
           orderBy: [desc(stationCaptures.createdAt)],
+          with: {
+            stockPhotos: {
+              orderBy: [asc(stationStockPhotos.orderIndex)],
+            },
+            overrides: {
+              orderBy: [desc(stationOverrides.createdAt)],
+            },
+          },
         });
 
         return c.json({ stations });
@@ -46,11 +84,22 @@ export const stationRoutes = new Hono()
     },
   )
   // Phase 1: Create station with "uploading" status (instant, returns ID)
+  // Picking a known station (registry) makes it a stock-only capture
   .post(
     "/sessions/:sessionId/stations/create-pending",
     zValidator("param", z.object({ sessionId: z.string().uuid() })),
+    zValidator(
+      "json",
+      z.object({
+        stationId: z.string().uuid().optional(),
+        // Guided capture: the product this capture is taken for
+        expectedProductCode: z.string().trim().min(1).optional(),
+      }),
+    ),
     async (c) => {
       const { sessionId } = c.req.valid("param");
+      const { stationId, expectedProductCode: rawExpectedCode } =
+        c.req.valid("json");
 
       try {
         // Verify session exists
@@ -62,12 +111,44 @@ export const stationRoutes = new Hono()
           return c.json({ error: "Session not found" }, 404);
         }
 
+        if (isSessionReadOnly(session.status)) {
+          return c.json({ error: SESSION_LOCKED_ERROR }, 409);
+        }
+
+        const knownStation = stationId
+          ? await getRegistryStation(stationId)
+          : null;
+
+        if (stationId && !knownStation) {
+          return c.json({ error: "Known station not found" }, 404);
+        }
+
+        if (knownStation && !registryKnownSign(knownStation)) {
+          return c.json({ error: NO_REGISTRY_SIGN_ERROR }, 400);
+        }
+
+        // Stored as the canonical code so the sign check and guided capture
+        // compare like with like (an alias or lower-case code would never match)
+        const expectedProductCode = rawExpectedCode
+          ? (await loadProductResolver())(rawExpectedCode).canonicalCode
+          : undefined;
+
         // Create station record with "uploading" status
         const [station] = await db
           .insert(stationCaptures)
           .values({
             sessionId,
             status: "uploading",
+            expectedProductCode,
+            // Known station: product and min/max come from the registry
+            ...(knownStation
+              ? {
+                  stationId: knownStation.id,
+                  productCode: knownStation.productCode,
+                  minQty: knownStation.minQty,
+                  maxQty: knownStation.maxQty,
+                }
+              : {}),
           })
           .returning();
 
@@ -115,6 +196,10 @@ export const stationRoutes = new Hono()
           return c.json({ error: "Station not found" }, 404);
         }
 
+        if (await isSessionLocked(station.sessionId)) {
+          return c.json({ error: SESSION_LOCKED_ERROR }, 409);
+        }
+
         try {
           // Upload sign image
           const signBuffer = Buffer.from(signImage.base64, "base64");
@@ -209,6 +294,10 @@ export const stationRoutes = new Hono()
           return c.json({ error: "Session not found" }, 404);
         }
 
+        if (isSessionReadOnly(session.status)) {
+          return c.json({ error: SESSION_LOCKED_ERROR }, 409);
+        }
+
         // Create station record first to get ID
         const [station] = await db
           .insert(stationCaptures)
@@ -290,11 +379,23 @@ export const stationRoutes = new Hono()
           return c.json({ error: "Station not found" }, 404);
         }
 
-        // Delete blobs (best-effort)
-        const blobsToDelete = [
-          station.signBlobUrl,
-          station.stockBlobUrl,
-        ].filter(Boolean) as string[];
+        if (await isSessionLocked(station.sessionId)) {
+          return c.json({ error: SESSION_LOCKED_ERROR }, 409);
+        }
+
+        // Delete blobs (best-effort), including every stock photo - but not
+        // a sign photo the station registry still shows
+        const blobUrls = Array.from(
+          new Set(
+            [
+              station.signBlobUrl,
+              station.stockBlobUrl,
+              ...(await getStockPhotoUrls(station)),
+            ].filter(Boolean) as string[],
+          ),
+        );
+        const registryUrls = await registrySignBlobUrls(blobUrls);
+        const blobsToDelete = blobUrls.filter((url) => !registryUrls.has(url));
 
         await Promise.all(
           blobsToDelete.map(async (url) => {
@@ -316,7 +417,7 @@ export const stationRoutes = new Hono()
       }
     },
   )
-  // Run extraction on station (two parallel AI calls: sign + stock)
+  // Run extraction on station (parallel AI calls: sign + stock + match check)
   .post(
     "/stations/:id/extract",
     zValidator("param", z.object({ id: z.string().uuid() })),
@@ -326,12 +427,21 @@ export const stationRoutes = new Hono()
       // New: separate models for sign and stock
       signModel: z.string().optional(),
       stockModel: z.string().optional(),
-      signImageUrl: z.string().optional(),
-      stockImageUrl: z.string().optional(),
+      signImageUrl: z.string().url().optional(),
+      stockImageUrl: z.string().url().optional(),
+      // Several stock photos (wide or deep shelves), counted and summed
+      stockImageUrls: z.array(z.string().url()).min(1).optional(),
     })),
     async (c) => {
       const { id } = c.req.valid("param");
-      const { modelId, signModel, stockModel, signImageUrl, stockImageUrl } = c.req.valid("json");
+      const {
+        modelId,
+        signModel,
+        stockModel,
+        signImageUrl,
+        stockImageUrl,
+        stockImageUrls,
+      } = c.req.valid("json");
 
       try {
         const station = await db.query.stationCaptures.findFirst({
@@ -342,32 +452,63 @@ export const stationRoutes = new Hono()
           return c.json({ error: "Station not found" }, 404);
         }
 
+        if (await isSessionLocked(station.sessionId)) {
+          return c.json({ error: SESSION_LOCKED_ERROR }, 409);
+        }
+
+        // Stock-only capture of a known station: no sign to read
+        const knownStation =
+          station.stationId && !signImageUrl && !station.signBlobUrl
+            ? await getRegistryStation(station.stationId)
+            : null;
+
         // Use provided URLs (from client upload) or fallback to DB (for re-extraction)
-        let signUrl: string;
-        let stockUrl: string;
-
-        if (signImageUrl && stockImageUrl) {
-          signUrl = signImageUrl;
-          stockUrl = stockImageUrl;
-        } else if (station.signBlobUrl && station.stockBlobUrl) {
-          signUrl = station.signBlobUrl;
-          stockUrl = station.stockBlobUrl;
+        const providedStockUrls =
+          stockImageUrls ?? (stockImageUrl ? [stockImageUrl] : null);
+        if (providedStockUrls) {
+          const urlsError = stockPhotoUrlsError(station, providedStockUrls);
+          if (urlsError) {
+            return c.json({ error: urlsError }, 400);
+          }
+        }
+        const stockUrls = providedStockUrls ?? (await getStockPhotoUrls(station));
+
+        let extractionResult: Awaited<ReturnType<typeof safeExtractStation>>;
+
+        if (knownStation) {
+          const knownSign = registryKnownSign(knownStation);
+          if (!knownSign) {
+            return c.json({ error: NO_REGISTRY_SIGN_ERROR }, 400);
+          }
+          if (stockUrls.length === 0) {
+            return c.json({ error: "Station must have a stock image" }, 400);
+          }
+
+          // Only the counting model runs - min/max come from the registry
+          extractionResult = await safeExtractStationStockOnly(
+            stockUrls,
+            knownSign,
+            stockModel,
+          );
         } else {
-          return c.json(
-            { error: "Station must have both sign and stock images" },
-            400,
+          const signUrl = signImageUrl ?? station.signBlobUrl;
+          if (!signUrl || stockUrls.length === 0) {
+            return c.json(
+              { error: "Station must have both sign and stock images" },
+              400,
+            );
+          }
+
+          // Run AI extraction (parallel sign, stock and match calls)
+          // signModel/stockModel override modelId for backward compatibility
+          extractionResult = await safeExtractStation(
+            signUrl,
+            stockUrls,
+            signModel || modelId,
+            stockModel,
           );
         }
 
-        // Run AI extraction (two parallel calls)
-        // signModel/stockModel override modelId for backward compatibility
-        const extractionResult = await safeExtractStation(
-          signUrl,
-          stockUrl,
-          signModel || modelId,
-          stockModel,
-        );
-
         if (!extractionResult.success) {
           await db
             .update(stationCaptures)
@@ -379,28 +520,35 @@ export const stationRoutes = new Hono()
 
         const extraction = extractionResult.data;
 
-        // Map extraction status to station status
-        const newStatus = mapExtractionStatusToStationStatus(extraction);
-
-        // Update station with extraction results
+        // Update station with extraction results - status, confidence and issues
+        // (low-confidence reads go to review instead of becoming valid)
         // Also persist blob URLs if provided (handles race condition with webhook)
         const now = new Date().toISOString();
         await db
           .update(stationCaptures)
           .set({
-            status: newStatus,
+            ...assessStationExtraction(extraction),
             productCode: extraction.productCode,
             minQty: extraction.minQty,
             maxQty: extraction.maxQty,
             onHandQty: extraction.onHandQty,
-            errorMessage: extraction.status !== "success" ? extraction.message : null,
             extractedAt: now,
             // Persist blob URLs if provided (handles race condition with webhook)
             ...(signImageUrl ? { signBlobUrl: signImageUrl, signUploadedAt: now } : {}),
-            ...(stockImageUrl ? { stockBlobUrl: stockImageUrl, stockUploadedAt: now } : {}),
+            ...(providedStockUrls
+              ? { stockBlobUrl: providedStockUrls[0], stockUploadedAt: now }
+              : {}),
           })
           .where(eq(stationCaptures.id, id));
 
+        // Per-photo counts so a double-count across photos can be spotted
+        await saveStockPhotoCounts(id, stockUrls, extraction.stockPhotos);
+
+        // Register or refresh the physical station shared across sessions
+        await linkCaptureToRegistry(id, await loadProductResolver());
+        // Flag sign values that disagree with the catalog
+        await refreshCatalogIssues(id);
+
         // Fetch updated station
         const updatedStation = await db.query.stationCaptures.findFirst({
           where: eq(stationCaptures.id, id),
@@ -419,6 +567,208 @@ export const stationRoutes = new Hono()
       }
     },
   )
+  // Confirm a station that needs review (values checked against the photos)
+  .post(
+    "/stations/:id/confirm",
+    zValidator("param", z.object({ id: z.string().uuid() })),
+    async (c) => {
+      const { id } = c.req.valid("param");
+
+      try {
+        const station = await db.query.stationCaptures.findFirst({
+          where: eq(stationCaptures.id, id),
+        });
+
+        if (!station) {
+          return c.json({ error: "Station not found" }, 404);
+        }
+
+        if (await isSessionLocked(station.sessionId)) {
+          return c.json({ error: SESSION_LOCKED_ERROR }, 409);
+        }
+
+        if (station.status !== "needs_attention") {
+          return c.json({ error: "Station does not need review" }, 400);
+        }
+
+        if (
+          !station.productCode ||
+          station.minQty === null ||
+          station.maxQty === null ||
+          station.onHandQty === null
+        ) {
+          return c.json(
+            { error: "Station is missing product code, min, max or on-hand" },
+            400,
+          );
+        }
+
+        // Confirmed values are no longer low-confidence guesses, and the user
+        // checked the stock is the sign's product
+        await db
+          .update(stationCaptures)
+          .set(reviewedStationFields(station))
+          .where(eq(stationCaptures.id, id));
+
+        // Now valid - may register the station
+        await linkCaptureToRegistry(id, await loadProductResolver());
+
+        const updatedStation = await db.query.stationCaptures.findFirst({
+          where: eq(stationCaptures.id, id),
+        });
+
+        return c.json({ station: updatedStation });
+      } catch (error) {
+        console.error("Failed to confirm station:", error);
+        return c.json({ error: "Failed to confirm station" }, 500);
+      }
+    },
+  )
+  // Manually correct a station's values (audited) - makes it valid
+  .patch(
+    "/stations/:id",
+    zValidator("param", z.object({ id: z.string().uuid() })),
+    zValidator(
+      "json",
+      z.object({
+        productCode: z.string().trim().min(1).optional(),
+        onHandQty: z.number().int().min(0).optional(),
+        minQty: z.number().int().min(0).optional(),
+        maxQty: z.number().int().min(0).optional(),
+        changedBy: z.string().trim().min(1, "Name is required"),
+        reason: z.string().trim().min(1, "Reason is required"),
+      }),
+    ),
+    async (c) => {
+      const { id } = c.req.valid("param");
+      const { changedBy, reason, ...changes } = c.req.valid("json");
+
+      try {
+        const station = await db.query.stationCaptures.findFirst({
+          where: eq(stationCaptures.id, id),
+        });
+
+        if (!station) {
+          return c.json({ error: "Station not found" }, 404);
+        }
+
+        if (await isSessionLocked(station.sessionId)) {
+          return c.json({ error: SESSION_LOCKED_ERROR }, 409);
+        }
+
+        const values = applyStationChanges(station, changes);
+        const valuesError = stationValuesError(values);
+        if (valuesError) {
+          return c.json({ error: valuesError }, 400);
+        }
+
+        await overrideStation(station, values, { changedBy, reason });
+
+        // Corrected code or min/max: relink the registry and recheck the catalog
+        await linkCaptureToRegistry(id, await loadProductResolver());
+        await refreshCatalogIssues(id);
+
+        const updatedStation = await db.query.stationCaptures.findFirst({
+          where: eq(stationCaptures.id, id),
+        });
+
+        return c.json({ station: updatedStation });
+      } catch (error) {
+        console.error("Failed to override station:", error);
+        return c.json({ error: "Failed to override station" }, 500);
+      }
+    },
+  )
+  // Pick the authoritative min/max for a sign vs catalog discrepancy
+  .post(
+    "/stations/:id/min-max/resolve",
+    zValidator("param", z.object({ id: z.string().uuid() })),
+    zValidator("json", z.object({ source: z.enum(["sign", "catalog"]) })),
+    async (c) => {
+      const { id } = c.req.valid("param");
+      const { source } = c.req.valid("json");
+
+      try {
+        const station = await db.query.stationCaptures.findFirst({
+          where: eq(stationCaptures.id, id),
+        });
+
+        if (!station) {
+          return c.json({ error: "Station not found" }, 404);
+        }
+
+        if (await isSessionLocked(station.sessionId)) {
+          return c.json({ error: SESSION_LOCKED_ERROR }, 409);
+        }
+
+        const result = await resolveMinMaxDiscrepancy(station, source);
+        if ("error" in result) {
+          return c.json({ error: result.error }, 400);
+        }
+
+        return c.json({ station: result.station });
+      } catch (error) {
+        console.error("Failed to resolve min/max discrepancy:", error);
+        return c.json({ error: "Failed to resolve min/max discrepancy" }, 500);
+      }
+    },
+  )
+  // Choose how a product captured at several stations counts
+  .put(
+    "/sessions/:sessionId/duplicate-stations/:productCode",
+    zValidator(
+      "param",
+      z.object({
+        sessionId: z.string().uuid(),
+        productCode: z.string().min(1),
+      }),
+    ),
+    zValidator(
+      "json",
+      z.discriminatedUnion("rule", [
+        z.object({ rule: z.literal("merge") }),
+        z.object({ rule: z.literal("keep"), keepCaptureId: z.string().uuid() }),
+      ]),
+    ),
+    async (c) => {
+      const { sessionId, productCode } = c.req.valid("param");
+      const body = c.req.valid("json");
+      const keepCaptureId = body.rule === "keep" ? body.keepCaptureId : null;
+
+      try {
+        if (keepCaptureId) {
+          const capture = await db.query.stationCaptures.findFirst({
+            where: eq(stationCaptures.id, keepCaptureId),
+          });
+          const resolve = await loadProductResolver();
+
+          if (
+            !capture ||
+            capture.sessionId !== sessionId ||
+            stationProductCode(capture, resolve) !== productCode
+          ) {
+            return c.json({ error: "Station not found" }, 404);
+          }
+        }
+
+        if (await isSessionLocked(sessionId)) {
+          return c.json({ error: SESSION_LOCKED_ERROR }, 409);
+        }
+
+        await setStationResolution(
+          sessionId,
+          productCode,
+          body.rule,
+          keepCaptureId,
+        );
+
+        return c.json({ productCode, rule: body.rule, keepCaptureId });
+      } catch (error) {
+        console.error("Failed to resolve duplicate stations:", error);
+        return c.json({ error: "Failed to resolve duplicate stations" }, 500);
+      }
+    },
+  )
   // Get coverage status for a session
   .get(
     "/sessions/:sessionId/coverage",
@@ -427,65 +777,40 @@ export const stationRoutes = new Hono()
       const { sessionId } = c.req.valid("param");
 
       try {
-        // Get all groups with items
-        const groups = await db.query.employeeCaptureGroups.findMany({
-          where: eq(
-            (await import("@/lib/db/schema")).employeeCaptureGroups.sessionId,
-            sessionId,
-          ),
-          with: {
-            extraction: true,
-            items: true,
-          },
+        const session = await db.query.sessions.findFirst({
+          where: eq(sessions.id, sessionId),
         });
 
-        // Aggregate demand from extracted items (with description)
-        const demandMap = new Map<
-          string,
-          { qty: number; description: string | null }
-        >();
-        for (const group of groups) {
-          if (!group.extraction) continue;
-          if (group.extraction.status === "error") continue;
-
-          for (const item of group.items) {
-            const existing = demandMap.get(item.productCode);
-            if (existing) {
-              existing.qty += item.quantity;
-              // Keep first non-null description
-              if (!existing.description && item.description) {
-                existing.description = item.description;
-              }
-            } else {
-              demandMap.set(item.productCode, {
-                qty: item.quantity,
-                description: item.description,
-              });
-            }
-          }
+        if (!session) {
+          return c.json({ error: "Session not found" }, 404);
         }
 
+        // Demand the order uses (approved snapshot, live until approved)
+        const resolve = await loadProductResolver();
+        const { items: demandItems } = await getOrderDemand(sessionId, resolve);
+
         // Get all stations for this session
         const stations = await db.query.stationCaptures.findMany({
           where: eq(stationCaptures.sessionId, sessionId),
         });
 
+        // One station per product (duplicates merged or kept as chosen)
+        const { stations: orderStations, duplicates } =
+          await dedupeSessionStations(sessionId, stations, resolve);
+
         // Build coverage map with pessimistic defaults for uncaptured products
-        const coverage = Array.from(demandMap.entries()).map(
-          ([productCode, { qty: demandQty, description }]) => {
-            // Find valid station with complete data
-            const matchingStation = stations.find(
-              (s) =>
-                s.productCode === productCode &&
-                s.status === "valid" &&
-                s.onHandQty !== null &&
-                s.maxQty !== null,
+        const coverage = demandItems.map(
+          ({ productCode, demandQty, description }) => {
+            // Station for this product (sign may show an alias) and why it
+            // does not count yet, if it does not
+            const station = orderStations.find(
+              (s) => stationProductCode(s, resolve) === productCode,
             );
+            const missingReason = stationSkipReason(station);
+            const matchingStation = missingReason ? undefined : station;
 
-            // isCaptured: station exists AND has images uploaded
-            const isCaptured = !!(
-              matchingStation?.signBlobUrl && matchingStation?.stockBlobUrl
-            );
+            // isCaptured: valid station with complete data and images
+            const isCaptured = !!matchingStation;
 
             // For uncaptured products: use pessimistic defaults
             // onHand=0, min=0, max=demand (order exactly what's needed)
@@ -494,22 +819,53 @@ export const stationRoutes = new Hono()
               productDescription: description, // From AI extraction
               demandQty,
               isCaptured,
+              missingReason,
               stationId: matchingStation?.id,
-              onHandQty: isCaptured ? (matchingStation.onHandQty ?? 0) : 0,
+              onHandQty: matchingStation?.onHandQty ?? 0,
               minQty: matchingStation?.minQty ?? 0,
               maxQty: matchingStation?.maxQty ?? demandQty,
             };
           },
         );
 
-        // Can always proceed - uncaptured products use defaults
+        // Lenient sessions can always proceed (uncaptured products use
+        // defaults), strict ones only once every product is captured
         const coveredCount = coverage.filter((c) => c.isCaptured).length;
         const totalCount = coverage.length;
 
+        // Known stations (registry) and whether they were counted this session
+        const registry = await listRegistryStations();
+        const countedStationIds = new Set(
+          stations
+            .filter((s) => s.status === "valid" && s.onHandQty !== null)
+            .map((s) => s.stationId),
+        );
+        const demandedProducts = new Set(demandItems.map((d) => d.productCode));
+        const knownStations = registry.map((station) => ({
+          id: station.id,
+          productCode: station.productCode,
+          location: station.location,
+          minQty: station.minQty,
+          maxQty: station.maxQty,
+          // Stock-only captures verify the stock against this photo
+          hasSignPhoto: !!station.signBlobUrl,
+          lastCountedAt: station.lastCountedAt,
+          isCounted: countedStationIds.has(station.id),
+          isDemanded: demandedProducts.has(station.productCode),
+        }));
+
+        // Products still to capture, in demand order (guided capture steps)
+        const { missing } = computeCoverage(demandItems, orderStations, resolve);
+
         return c.json({
           coverage,
+          missing,
+          knownStations,
+          duplicateStations: duplicates,
           summary: {
-            canProceed: true, // Always can proceed with defaults
+            coverageMode: session.coverageMode,
+            canProceed:
+              session.coverageMode === "lenient" || coveredCount === totalCount,
             coveredCount,
             totalCount,
             percentage:
@@ -523,4 +879,32 @@ export const stationRoutes = new Hono()
         return c.json({ error: "Failed to get coverage status" }, 500);
       }
     },
+  )
+  // Update a registry station (location is only set here, sign values come from captures)
+  .patch(
+    "/stations/registry/:id",
+    zValidator("param", z.object({ id: z.string().uuid() })),
+    zValidator(
+      "json",
+      z.object({ location: z.string().trim().nullable() }),
+    ),
+    async (c) => {
+      const { id } = c.req.valid("param");
+      const { location } = c.req.valid("json");
+
+      try {
+        const station = await updateRegistryStation(id, {
+          location: location || null,
+        });
+
+        if (!station) {
+          return c.json({ error: "Station not found" }, 404);
+        }
+
+        return c.json({ station });
+      } catch (error) {
+        console.error("Failed to update registry station:", error);
+        return c.json({ error: "Failed to update station" }, 500);
+      }
+    },
   );
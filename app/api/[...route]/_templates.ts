@@ -0,0 +1,135 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { orderTemplates } from "@/lib/db/schema";
+import { and, asc, eq, ne } from "drizzle-orm";
+import {
+  DEFAULT_ORDER_TEMPLATE,
+  orderTemplateError,
+} from "@/lib/workflow/order-text";
+
+// Template fields editable from the order screen
+const templateFieldsSchema = z.object({
+  name: z.string().trim().min(1),
+  stockLocation: z.string().trim().min(1),
+  headerFormat: z.string(),
+  lineFormat: z.string().min(1),
+  warningFormat: z.string(),
+});
+
+/**
+ * Is the name taken by another template (names are unique)?
+ */
+async function isNameTaken(name: string, exceptId?: string): Promise<boolean> {
+  const existing = await db.query.orderTemplates.findFirst({
+    where: exceptId
+      ? and(eq(orderTemplates.name, name), ne(orderTemplates.id, exceptId))
+      : eq(orderTemplates.name, name),
+  });
+  return !!existing;
+}
+
+// Define routes with CHAINING (critical for type inference)
+export const orderTemplateRoutes = new Hono()
+  // GET /order-templates - Named templates and the built-in default
+  .get("/", async (c) => {
+    try {
+      const templates = await db
+        .select()
+        .from(orderTemplates)
+        .orderBy(asc(orderTemplates.name));
+
+      return c.json({ templates, defaultTemplate: DEFAULT_ORDER_TEMPLATE });
+    } catch (error) {
+      console.error("Failed to fetch order templates:", error);
+      return c.json({ error: "Failed to fetch order templates" }, 500);
+    }
+  })
+  // POST /order-templates - Add a named template
+  .post("/", zValidator("json", templateFieldsSchema), async (c) => {
+    const data = c.req.valid("json");
+
+    const templateError = orderTemplateError(data);
+    if (templateError) {
+      return c.json({ error: templateError }, 400);
+    }
+
+    try {
+      if (await isNameTaken(data.name)) {
+        return c.json({ error: `Template ${data.name} already exists` }, 409);
+      }
+
+      const [template] = await db.insert(orderTemplates).values(data).returning();
+
+      return c.json({ template }, 201);
+    } catch (error) {
+      console.error("Failed to create order template:", error);
+      return c.json({ error: "Failed to create order template" }, 500);
+    }
+  })
+  // PATCH /order-templates/:id - Edit a template
+  .patch(
+    "/:id",
+    zValidator("param", z.object({ id: z.string().uuid() })),
+    zValidator("json", templateFieldsSchema.partial()),
+    async (c) => {
+      const { id } = c.req.valid("param");
+      const data = c.req.valid("json");
+
+      try {
+        const existing = await db.query.orderTemplates.findFirst({
+          where: eq(orderTemplates.id, id),
+        });
+
+        if (!existing) {
+          return c.json({ error: "Template not found" }, 404);
+        }
+
+        // Validate the template as it will be stored
+        const templateError = orderTemplateError({ ...existing, ...data });
+        if (templateError) {
+          return c.json({ error: templateError }, 400);
+        }
+
+        if (data.name && (await isNameTaken(data.name, id))) {
+          return c.json({ error: `Template ${data.name} already exists` }, 409);
+        }
+
+        const [template] = await db
+          .update(orderTemplates)
+          .set({ ...data, updatedAt: new Date().toISOString() })
+          .where(eq(orderTemplates.id, id))
+          .returning();
+
+        return c.json({ template });
+      } catch (error) {
+        console.error("Failed to update order template:", error);
+        return c.json({ error: "Failed to update order template" }, 500);
+      }
+    }
+  )
+  // DELETE /order-templates/:id - Remove a template
+  .delete(
+    "/:id",
+    zValidator("param", z.object({ id: z.string().uuid() })),
+    async (c) => {
+      const { id } = c.req.valid("param");
+
+      try {
+        const [template] = await db
+          .delete(orderTemplates)
+          .where(eq(orderTemplates.id, id))
+          .returning();
+
+        if (!template) {
+          return c.json({ error: "Template not found" }, 404);
+        }
+
+        return c.json({ success: true });
+      } catch (error) {
+        console.error("Failed to delete order template:", error);
+        return c.json({ error: "Failed to delete order template" }, 500);
+      }
+    }
+  );
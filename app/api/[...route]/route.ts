@@ -8,6 +8,9 @@ import { extractionRoutes } from "./_extraction";
 import { demandRoutes } from "./_demand";
 import { stationRoutes } from "./_stations";
 import { orderRoutes } from "./_order";
+import { productRoutes } from "./_products";
+import { orderTemplateRoutes } from "./_templates";
+import { finalizedOrderRoutes } from "./_orders";
 
 // All routes chained in single expression for RPC type inference
 const app = new Hono()
@@ -21,13 +24,19 @@ const app = new Hono()
   .use("/sessions/*", authMiddleware)
   .use("/groups/*", authMiddleware)
   .use("/stations/*", authMiddleware)
+  .use("/products/*", authMiddleware)
+  .use("/order-templates/*", authMiddleware)
+  .use("/orders/*", authMiddleware)
   // Protected routes
   .route("/sessions", sessionRoutes)
   .route("/", groupRoutes)
   .route("/", extractionRoutes)
   .route("/", demandRoutes)
   .route("/", stationRoutes)
-  .route("/", orderRoutes);
+  .route("/", orderRoutes)
+  .route("/", finalizedOrderRoutes)
+  .route("/products", productRoutes)
+  .route("/order-templates", orderTemplateRoutes);
 
 // Export HTTP method handlers for Next.js App Router
 export const GET = handle(app);
@@ -1,9 +1,11 @@
+import { del } from "@vercel/blob";
 import { handleUpload, type HandleUploadBody } from "@vercel/blob/client";
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { loadingListImages, employeeCaptureGroups } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
 import { validateSessionFromCookie } from "@/lib/auth";
+import { isSessionLocked, SESSION_LOCKED_ERROR } from "@/lib/sessions/lifecycle";
 
 /**
  * Client payload for group image uploads
@@ -17,6 +19,18 @@ interface GroupImagePayload {
   totalImages: number;
 }
 
+/**
+ * Whether the group's session no longer accepts photos (session taken from the
+ * stored group, not the client payload). Missing groups count as locked.
+ */
+async function isGroupLocked(groupId: string): Promise<boolean> {
+  const group = await db.query.employeeCaptureGroups.findFirst({
+    where: eq(employeeCaptureGroups.id, groupId),
+    columns: { sessionId: true },
+  });
+  return !group || (await isSessionLocked(group.sessionId));
+}
+
 export async function POST(request: NextRequest) {
   const body = (await request.json()) as HandleUploadBody;
 
@@ -42,6 +56,10 @@ export async function POST(request: NextRequest) {
           throw new Error("groupId and sessionId are required");
         }
 
+        if (await isGroupLocked(payload.groupId)) {
+          throw new Error(SESSION_LOCKED_ERROR);
+        }
+
         return {
           allowedContentTypes: ["image/jpeg", "image/png", "image/webp"],
           tokenPayload: clientPayload,
@@ -56,6 +74,13 @@ export async function POST(request: NextRequest) {
         try {
           const payload = JSON.parse(tokenPayload) as GroupImagePayload;
 
+          // The session may have been completed while the photo was uploading
+          if (await isGroupLocked(payload.groupId)) {
+            await del(blob.url);
+            console.log(`[group-images] Session locked, discarded ${blob.url}`);
+            return;
+          }
+
           // Insert loading list image record
           await db.insert(loadingListImages).values({
             groupId: payload.groupId,
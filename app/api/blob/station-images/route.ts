@@ -1,9 +1,13 @@
+import { del } from "@vercel/blob";
 import { handleUpload, type HandleUploadBody } from "@vercel/blob/client";
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { stationCaptures } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
 import { validateSessionFromCookie } from "@/lib/auth";
+import { isSessionLocked, SESSION_LOCKED_ERROR } from "@/lib/sessions/lifecycle";
+import { hasCaptureImages } from "@/lib/workflow/compute";
+import { hasAllStockPhotos, saveStockPhoto } from "@/lib/stations/stock-photos";
 
 /**
  * Client payload for station image uploads
@@ -12,10 +16,26 @@ interface StationImagePayload {
   stationId: string;
   sessionId: string;
   imageType: "sign" | "stock";
+  // Position of a stock photo (several photos for wide or deep shelves)
+  photoIndex?: number;
+  // Number of stock photos in this capture (the capture is ready once all are in)
+  totalStockPhotos?: number;
   width?: number;
   height?: number;
 }
 
+/**
+ * Whether the capture's session no longer accepts photos (session taken from
+ * the stored capture, not the client payload). Missing captures count as locked.
+ */
+async function isCaptureLocked(stationId: string): Promise<boolean> {
+  const capture = await db.query.stationCaptures.findFirst({
+    where: eq(stationCaptures.id, stationId),
+    columns: { sessionId: true },
+  });
+  return !capture || (await isSessionLocked(capture.sessionId));
+}
+
 export async function POST(request: NextRequest) {
   const body = (await request.json()) as HandleUploadBody;
 
@@ -41,6 +61,10 @@ export async function POST(request: NextRequest) {
           throw new Error("stationId, sessionId, and imageType are required");
         }
 
+        if (await isCaptureLocked(payload.stationId)) {
+          throw new Error(SESSION_LOCKED_ERROR);
+        }
+
         return {
           allowedContentTypes: ["image/jpeg", "image/png", "image/webp"],
           tokenPayload: clientPayload,
@@ -54,6 +78,14 @@ export async function POST(request: NextRequest) {
 
         try {
           const payload = JSON.parse(tokenPayload) as StationImagePayload;
+
+          // The session may have been completed while the photo was uploading
+          if (await isCaptureLocked(payload.stationId)) {
+            await del(blob.url);
+            console.log(`[station-images] Session locked, discarded ${blob.url}`);
+            return;
+          }
+
           const now = new Date().toISOString();
 
           if (payload.imageType === "sign") {
@@ -67,28 +99,43 @@ export async function POST(request: NextRequest) {
               })
               .where(eq(stationCaptures.id, payload.stationId));
           } else {
-            await db
-              .update(stationCaptures)
-              .set({
-                stockBlobUrl: blob.url,
-                stockWidth: payload.width,
-                stockHeight: payload.height,
-                stockUploadedAt: now,
-              })
-              .where(eq(stationCaptures.id, payload.stationId));
+            const photoIndex = payload.photoIndex ?? 0;
+            await saveStockPhoto(payload.stationId, photoIndex, {
+              blobUrl: blob.url,
+              width: payload.width,
+              height: payload.height,
+            });
+
+            // The first stock photo is mirrored on the capture
+            if (photoIndex === 0) {
+              await db
+                .update(stationCaptures)
+                .set({
+                  stockBlobUrl: blob.url,
+                  stockWidth: payload.width,
+                  stockHeight: payload.height,
+                  stockUploadedAt: now,
+                })
+                .where(eq(stationCaptures.id, payload.stationId));
+            }
           }
 
-          // Check if both images are uploaded, then update status to pending
+          // Check if all images are uploaded (stock only for a known station),
+          // then update status to pending
           const station = await db.query.stationCaptures.findFirst({
             where: eq(stationCaptures.id, payload.stationId),
           });
 
-          if (station?.signBlobUrl && station?.stockBlobUrl) {
+          if (
+            station &&
+            hasCaptureImages(station) &&
+            (await hasAllStockPhotos(station.id, payload.totalStockPhotos ?? 1))
+          ) {
             await db
               .update(stationCaptures)
               .set({ status: "pending" })
               .where(eq(stationCaptures.id, payload.stationId));
-            console.log(`[station-images] Both images uploaded, station status -> pending`);
+            console.log(`[station-images] Images uploaded, station status -> pending`);
           }
 
           console.log(`[station-images] Saved ${payload.imageType} image: ${blob.url}`);
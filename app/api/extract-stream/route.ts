@@ -1,10 +1,6 @@
 import { streamObject } from "ai";
 import { db } from "@/lib/db";
-import {
-  employeeCaptureGroups,
-  loadingListExtractions,
-  loadingListItems,
-} from "@/lib/db/schema";
+import { employeeCaptureGroups } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
 import {
   LoadingListExtractionSchema,
@@ -15,6 +11,8 @@ import {
   LOADING_LIST_USER_PROMPT,
 } from "@/lib/ai/prompts";
 import { validateSessionFromCookie } from "@/lib/auth";
+import { isSessionLocked, SESSION_LOCKED_ERROR } from "@/lib/sessions/lifecycle";
+import { saveExtraction } from "@/lib/loading-lists/extractions";
 import {
   DEFAULT_LOADING_LIST_MODEL,
   VALID_MODEL_IDS,
@@ -43,69 +41,6 @@ function safeParseExtraction(jsonString: string): LoadingListExtraction | null {
   }
 }
 
-interface ExtractionMetadata {
-  model: string;
-  inputTokens?: number;
-  outputTokens?: number;
-  totalCost?: number;
-}
-
-/**
- * Save extraction result and all items to database (no catalog validation)
- */
-async function saveExtraction(
-  groupId: string,
-  extraction: LoadingListExtraction,
-  metadata: ExtractionMetadata,
-): Promise<{ extractionId: string; itemCount: number }> {
-  // Delete existing extraction and items for this group (for re-extraction)
-  await db
-    .delete(loadingListItems)
-    .where(eq(loadingListItems.groupId, groupId));
-  await db
-    .delete(loadingListExtractions)
-    .where(eq(loadingListExtractions.groupId, groupId));
-
-  // Insert extraction record (raw AI output for audit)
-  const [insertedExtraction] = await db
-    .insert(loadingListExtractions)
-    .values({
-      groupId,
-      status: extraction.status,
-      message: extraction.message,
-      rawActivities: extraction.activities,
-      rawLineItems: extraction.lineItems,
-      summary: extraction.summary,
-      model: metadata.model,
-      inputTokens: metadata.inputTokens,
-      outputTokens: metadata.outputTokens,
-      totalCost: metadata.totalCost,
-    })
-    .returning({ id: loadingListExtractions.id });
-
-  const extractionId = insertedExtraction.id;
-
-  // Insert ALL items (no catalog validation)
-  if (extraction.lineItems.length > 0) {
-    await db.insert(loadingListItems).values(
-      extraction.lineItems.map((item) => ({
-        groupId,
-        extractionId,
-        activityCode: item.activityCode,
-        productCode: item.primaryCode,
-        description: item.description,
-        quantity: item.quantity,
-        source: "extraction" as const,
-      })),
-    );
-  }
-
-  return {
-    extractionId,
-    itemCount: extraction.lineItems.length,
-  };
-}
-
 export async function POST(request: Request) {
   const isValid = validateSessionFromCookie(request.headers.get("cookie"));
   if (!isValid) {
@@ -141,6 +76,10 @@ export async function POST(request: Request) {
       return Response.json({ error: "Group not found" }, { status: 404 });
     }
 
+    if (await isSessionLocked(group.sessionId)) {
+      return Response.json({ error: SESSION_LOCKED_ERROR }, { status: 409 });
+    }
+
     // Use provided imageUrls (from client upload) or fallback to DB lookup (for re-extraction)
     let imageUrls: string[];
     if (providedImageUrls && Array.isArray(providedImageUrls) && providedImageUrls.length > 0) {
@@ -206,25 +145,20 @@ export async function POST(request: Request) {
                 ? calculateCost(selectedModel, inputTokens, outputTokens)
                 : undefined;
 
-            // Save to database
-            const { itemCount } = await saveExtraction(groupId, extraction, {
-              model: selectedModel,
-              inputTokens,
-              outputTokens,
-              totalCost,
-            });
-
-            // Update group status
-            const newStatus =
-              extraction.status === "error" ? "needs_attention" : "extracted";
-
-            await db
-              .update(employeeCaptureGroups)
-              .set({ status: newStatus })
-              .where(eq(employeeCaptureGroups.id, groupId));
+            // Save as new active version (also updates group status)
+            const { itemCount, version } = await saveExtraction(
+              groupId,
+              extraction,
+              {
+                model: selectedModel,
+                inputTokens,
+                outputTokens,
+                totalCost,
+              },
+            );
 
             console.log(
-              `Extraction persisted for group ${groupId}: ${itemCount} items`,
+              `Extraction v${version} persisted for group ${groupId}: ${itemCount} items`,
             );
           } else {
             // Parsing failed - mark as needs attention
@@ -4,6 +4,7 @@ import { db } from "@/lib/db";
 import { employeeCaptureGroups, loadingListImages } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
 import { validateSessionFromCookie } from "@/lib/auth";
+import { isSessionLocked, SESSION_LOCKED_ERROR } from "@/lib/sessions/lifecycle";
 
 export async function POST(
   request: NextRequest,
@@ -34,6 +35,10 @@ export async function POST(
       return Response.json({ error: "Group not found" }, { status: 404 });
     }
 
+    if (await isSessionLocked(group.sessionId)) {
+      return Response.json({ error: SESSION_LOCKED_ERROR }, { status: 409 });
+    }
+
     // Parse FormData
     const formData = await request.formData();
 
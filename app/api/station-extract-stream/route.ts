@@ -1,39 +1,54 @@
+import { z } from "zod";
 import { db } from "@/lib/db";
 import { stationCaptures } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
-import { type StationExtraction } from "@/lib/ai/schemas/station-extraction";
-import { extractStationDetailed } from "@/lib/ai/extract-station";
+import {
+  extractStationDetailed,
+  extractStationStockOnly,
+} from "@/lib/ai/extract-station";
 import { validateSessionFromCookie } from "@/lib/auth";
+import { isSessionLocked, SESSION_LOCKED_ERROR } from "@/lib/sessions/lifecycle";
+import {
+  getRegistryStation,
+  linkCaptureToRegistry,
+  NO_REGISTRY_SIGN_ERROR,
+  registryKnownSign,
+} from "@/lib/stations/registry";
+import { refreshCatalogIssues } from "@/lib/stations/catalog-check";
+import { assessStationExtraction } from "@/lib/stations/confidence";
+import {
+  getStockPhotoUrls,
+  saveStockPhotoCounts,
+  stockPhotoUrlsError,
+} from "@/lib/stations/stock-photos";
+import { loadProductResolver } from "@/lib/products/aliases";
 import {
   DEFAULT_SIGN_MODEL,
   DEFAULT_COUNTING_MODEL,
+  DEFAULT_MATCH_MODEL,
   VALID_MODEL_IDS,
   calculateCost,
 } from "@/lib/ai/models";
 
 export const maxDuration = 60;
 
-/**
- * Maps extraction status to station capture status
- */
-function mapExtractionStatusToStationStatus(
-  extraction: StationExtraction
-): "valid" | "needs_attention" | "failed" {
-  if (extraction.status === "success") {
-    return "valid";
-  }
-  if (extraction.status === "error") {
-    return "failed";
-  }
-  return "needs_attention"; // warning
-}
+const extractRequestSchema = z.object({
+  stationId: z.string().uuid({ message: "Invalid station ID" }),
+  signModel: z.string().optional(),
+  stockModel: z.string().optional(),
+  signImageUrl: z.string().url().optional(),
+  stockImageUrl: z.string().url().optional(),
+  // Several stock photos (wide or deep shelves), counted and summed
+  stockImageUrls: z.array(z.string().url()).min(1).optional(),
+});
 
 /**
- * Station extraction endpoint using two separate AI calls:
+ * Station extraction endpoint using three separate AI calls:
  * 1. Sign extraction (GPT-4o Mini) - reads product code, min, max
  * 2. Stock counting (Gemini 2.5 Flash) - counts items in stock photo
+ * 3. Match verification - checks the stock is the product on the sign
  *
- * Both calls run in parallel for speed. Results are combined and persisted.
+ * All calls run in parallel for speed. Results are combined and persisted.
  * Returns JSON response (not streaming) since we're running parallel calls.
  */
 export async function POST(request: Request) {
@@ -42,21 +57,23 @@ export async function POST(request: Request) {
     return new Response("Unauthorized", { status: 401 });
   }
 
-  const body = await request.json();
+  const parsed = extractRequestSchema.safeParse(
+    await request.json().catch(() => null)
+  );
+  if (!parsed.success) {
+    return Response.json(
+      { error: parsed.error.issues[0]?.message ?? "Invalid request" },
+      { status: 400 }
+    );
+  }
   const {
     stationId,
     signModel,
     stockModel,
     signImageUrl: providedSignUrl,
     stockImageUrl: providedStockUrl,
-  } = body;
-
-  // Validate UUID
-  const uuidRegex =
-    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-  if (!stationId || !uuidRegex.test(stationId)) {
-    return Response.json({ error: "Invalid station ID" }, { status: 400 });
-  }
+    stockImageUrls,
+  } = parsed.data;
 
   // Validate models (use defaults if not provided or invalid)
   const selectedSignModel =
@@ -74,41 +91,89 @@ export async function POST(request: Request) {
       return Response.json({ error: "Station not found" }, { status: 404 });
     }
 
+    if (await isSessionLocked(station.sessionId)) {
+      return Response.json({ error: SESSION_LOCKED_ERROR }, { status: 409 });
+    }
+
+    // Stock-only capture of a known station: no sign to read
+    const knownStation =
+      station.stationId && !providedSignUrl && !station.signBlobUrl
+        ? await getRegistryStation(station.stationId)
+        : null;
+
     // Use provided image URLs (from client upload) or fallback to DB lookup (for re-extraction)
-    let signBlobUrl: string;
-    let stockBlobUrl: string;
-
-    if (providedSignUrl && providedStockUrl) {
-      signBlobUrl = providedSignUrl;
-      stockBlobUrl = providedStockUrl;
-    } else if (station.signBlobUrl && station.stockBlobUrl) {
-      signBlobUrl = station.signBlobUrl;
-      stockBlobUrl = station.stockBlobUrl;
+    const providedStockUrls =
+      stockImageUrls ?? (providedStockUrl ? [providedStockUrl] : null);
+    if (providedStockUrls) {
+      const urlsError = stockPhotoUrlsError(station, providedStockUrls);
+      if (urlsError) {
+        return Response.json({ error: urlsError }, { status: 400 });
+      }
+    }
+    const stockUrls = providedStockUrls ?? (await getStockPhotoUrls(station));
+
+    let extraction: Awaited<ReturnType<typeof extractStationDetailed>>;
+
+    if (knownStation) {
+      const knownSign = registryKnownSign(knownStation);
+      if (!knownSign) {
+        return Response.json({ error: NO_REGISTRY_SIGN_ERROR }, { status: 400 });
+      }
+      if (stockUrls.length === 0) {
+        return Response.json(
+          { error: "Station must have a stock image" },
+          { status: 400 }
+        );
+      }
+
+      // Only the counting model runs - min/max come from the registry
+      extraction = await extractStationStockOnly(
+        stockUrls,
+        knownSign,
+        selectedStockModel
+      );
     } else {
-      return Response.json(
-        { error: "Station must have both sign and stock images" },
-        { status: 400 }
+      const signBlobUrl = providedSignUrl ?? station.signBlobUrl;
+      if (!signBlobUrl || stockUrls.length === 0) {
+        return Response.json(
+          { error: "Station must have both sign and stock images" },
+          { status: 400 }
+        );
+      }
+
+      // Run all extractions in parallel
+      extraction = await extractStationDetailed(
+        signBlobUrl,
+        stockUrls,
+        selectedSignModel,
+        selectedStockModel
       );
     }
 
-    // Run both extractions in parallel
-    const { combined, sign, stock } = await extractStationDetailed(
-      signBlobUrl,
-      stockBlobUrl,
-      selectedSignModel,
-      selectedStockModel
-    );
-
-    // Map extraction status to station status
-    const newStatus = mapExtractionStatusToStationStatus(combined);
+    const { combined, sign, stock, match } = extraction;
 
     // Calculate approximate cost (we don't have exact token counts from parallel calls)
-    // This is a rough estimate based on typical image + text tokens
-    const estimatedInputTokens = 2000; // ~1000 per image
-    const estimatedOutputTokens = 200; // ~100 per extraction
-    const signCost = calculateCost(selectedSignModel, estimatedInputTokens / 2, estimatedOutputTokens / 2);
-    const stockCost = calculateCost(selectedStockModel, estimatedInputTokens / 2, estimatedOutputTokens / 2);
-    const totalCost = signCost + stockCost;
+    // Rough estimate per image: ~1000 input tokens, ~100 output tokens per call.
+    // Stock-only captures of known stations skip the sign call. Each stock
+    // photo is counted, and matched against the sign (two images), in its own call.
+    const runsSign = !knownStation;
+    const stockCalls = stockUrls.length;
+    const estimatedInputTokens =
+      (runsSign ? 1000 : 0) + 1000 * stockCalls + 2000 * stockCalls;
+    const estimatedOutputTokens =
+      (runsSign ? 100 : 0) + 100 * stockCalls + 100 * stockCalls;
+    const signCost = runsSign ? calculateCost(selectedSignModel, 1000, 100) : 0;
+    const stockCost = calculateCost(
+      selectedStockModel,
+      1000 * stockCalls,
+      100 * stockCalls
+    );
+    const matchCost = calculateCost(
+      DEFAULT_MATCH_MODEL,
+      2000 * stockCalls,
+      100 * stockCalls
+    );
+    const totalCost = signCost + stockCost + matchCost;
 
     // Update station with extraction results and metadata
     // Also persist blob URLs if they were provided (ensures URLs are saved even if webhook is slow)
@@ -116,14 +181,16 @@ export async function POST(request: Request) {
     await db
       .update(stationCaptures)
       .set({
-        status: newStatus,
+        // Status, confidence and issues (low-confidence reads go to review)
+        ...assessStationExtraction(combined),
         productCode: combined.productCode,
         minQty: combined.minQty,
         maxQty: combined.maxQty,
         onHandQty: combined.onHandQty,
-        errorMessage: combined.status !== "success" ? combined.message : null,
-        // Store both models used (sign model in 'model' field for backward compatibility)
-        model: `${selectedSignModel} + ${selectedStockModel}`,
+        // Store the models used (sign model first for backward compatibility)
+        model: knownStation
+          ? selectedStockModel
+          : `${selectedSignModel} + ${selectedStockModel}`,
         // Estimated tokens (we don't have exact counts from parallel calls)
         inputTokens: estimatedInputTokens,
         outputTokens: estimatedOutputTokens,
@@ -131,10 +198,21 @@ export async function POST(request: Request) {
         extractedAt: now,
         // Persist blob URLs if provided (handles race condition with webhook)
         ...(providedSignUrl ? { signBlobUrl: providedSignUrl, signUploadedAt: now } : {}),
-        ...(providedStockUrl ? { stockBlobUrl: providedStockUrl, stockUploadedAt: now } : {}),
+        ...(providedStockUrls
+          ? { stockBlobUrl: providedStockUrls[0], stockUploadedAt: now }
+          : {}),
       })
       .where(eq(stationCaptures.id, stationId));
 
+    // Per-photo counts so a double-count across photos can be spotted
+    await saveStockPhotoCounts(stationId, stockUrls, combined.stockPhotos);
+
+    // Register or refresh the physical station shared across sessions
+    await linkCaptureToRegistry(stationId, await loadProductResolver());
+
+    // Flag sign values that disagree with the catalog
+    await refreshCatalogIssues(stationId);
+
     console.log(
       `Station extraction persisted for station ${stationId} (sign: ${sign.status}, stock: ${stock.status}, combined: ${combined.status})`
     );
@@ -150,7 +228,8 @@ export async function POST(request: Request) {
           productCode: sign.productCode,
           minQty: sign.minQty,
           maxQty: sign.maxQty,
-          model: selectedSignModel,
+          confidence: sign.confidence,
+          model: knownStation ? "station registry" : selectedSignModel,
         },
         stock: {
           status: stock.status,
@@ -158,8 +237,15 @@ export async function POST(request: Request) {
           onHandQty: stock.onHandQty,
           confidence: stock.confidence,
           countingMethod: stock.countingMethod,
+          photos: combined.stockPhotos,
           model: selectedStockModel,
         },
+        match: {
+          matchStatus: match.matchStatus,
+          confidence: match.confidence,
+          reason: match.reason,
+          model: DEFAULT_MATCH_MODEL,
+        },
       },
     });
   } catch (error) {
@@ -2,25 +2,58 @@
 
 import Link from "next/link";
 import { ArrowLeft, ArrowRight, Home } from "lucide-react";
+import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
+import { useSession, useUpdateSessionStatus } from "@/hooks/sessions";
+import {
+  canTransitionSession,
+  type SessionStatus,
+} from "@/lib/sessions/status";
 
 interface NavTarget {
   href: string;
   label: string;
+  /** Session status to move to when navigating (skipped if not an allowed transition) */
+  status?: SessionStatus;
 }
 
 interface WorkflowNavigationProps {
   prev: NavTarget | null;
   next: NavTarget | null;
+  /** Session to transition when a target has a status */
+  sessionId?: string;
 }
 
-export function WorkflowNavigation({ prev, next }: WorkflowNavigationProps) {
+export function WorkflowNavigation({
+  prev,
+  next,
+  sessionId,
+}: WorkflowNavigationProps) {
+  const { data: sessionData } = useSession(sessionId ?? "");
+  const updateStatus = useUpdateSessionStatus();
+
+  const currentStatus = sessionData?.session.status;
+
+  const handleNavigate = (target: NavTarget) => {
+    if (!sessionId || !target.status || !currentStatus) return;
+    if (!canTransitionSession(currentStatus, target.status)) return;
+
+    updateStatus.mutate(
+      { id: sessionId, status: target.status },
+      {
+        onError: (error) => {
+          toast.error(error.message);
+        },
+      }
+    );
+  };
+
   return (
     <div className="fixed bottom-0 left-0 right-0 bg-background border-t p-4">
       <div className="container max-w-2xl mx-auto flex items-center justify-between gap-3">
         {prev ? (
           <Button asChild variant="outline">
-            <Link href={prev.href}>
+            <Link href={prev.href} onClick={() => handleNavigate(prev)}>
               {prev.href === "/" ? (
                 <Home className="size-4 mr-2" />
               ) : (
@@ -35,7 +68,7 @@ export function WorkflowNavigation({ prev, next }: WorkflowNavigationProps) {
 
         {next ? (
           <Button asChild variant="secondary">
-            <Link href={next.href}>
+            <Link href={next.href} onClick={() => handleNavigate(next)}>
               {next.label}
               {next.href === "/" ? (
                 <Home className="size-4 ml-2" />
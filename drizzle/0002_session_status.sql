@@ -0,0 +1,19 @@
+-- Migration: Session Lifecycle Status
+-- Changes:
+-- 1. Add sessions.status (server-enforced lifecycle state machine)
+-- 2. Add sessions.completed_at
+-- 3. Backfill status from last_phase for existing sessions
+
+-- Add status column (new sessions start as draft)
+ALTER TABLE sessions ADD COLUMN status text NOT NULL DEFAULT 'draft';
+
+-- Add completion timestamp
+ALTER TABLE sessions ADD COLUMN completed_at timestamp with time zone;
+
+-- Backfill status from last visited phase
+UPDATE sessions SET status = 'capturing_loading_lists'
+  WHERE last_phase = 'loading-lists'
+  AND EXISTS (SELECT 1 FROM employee_capture_groups g WHERE g.session_id = sessions.id);
+UPDATE sessions SET status = 'review_demand' WHERE last_phase = 'demand';
+UPDATE sessions SET status = 'capturing_inventory' WHERE last_phase = 'inventory';
+UPDATE sessions SET status = 'review_order' WHERE last_phase = 'order';
@@ -0,0 +1,17 @@
+-- Migration: Extraction History
+-- Changes:
+-- 1. Add loading_list_extractions.version (run number within a group)
+-- 2. Add employee_capture_groups.active_extraction_id (re-extraction keeps previous versions)
+-- 3. Backfill the active extraction from the existing one-per-group rows
+
+-- Run number within the group
+ALTER TABLE loading_list_extractions ADD COLUMN version integer NOT NULL DEFAULT 1;
+
+-- Active extraction version used for items, demand and order
+ALTER TABLE employee_capture_groups ADD COLUMN active_extraction_id uuid
+  REFERENCES loading_list_extractions(id) ON DELETE SET NULL;
+
+-- Backfill: existing groups have at most one extraction, which becomes active
+UPDATE employee_capture_groups g SET active_extraction_id = e.id
+  FROM loading_list_extractions e
+  WHERE e.group_id = g.id;
@@ -0,0 +1,24 @@
+-- Migration: Loading List Item Metadata
+-- Changes:
+-- 1. Add secondary_code, internal_code, room and end_user to loading_list_items
+-- 2. Backfill from the raw AI output (matched on activity + primary code)
+
+ALTER TABLE loading_list_items ADD COLUMN secondary_code text;
+ALTER TABLE loading_list_items ADD COLUMN internal_code text;
+ALTER TABLE loading_list_items ADD COLUMN room text;
+ALTER TABLE loading_list_items ADD COLUMN end_user text;
+
+-- Backfill extracted items (manual items never had raw metadata)
+UPDATE loading_list_items i SET
+  secondary_code = raw.item->>'secondaryCode',
+  internal_code = raw.item->>'internalCode',
+  room = raw.item->>'room',
+  end_user = raw.item->>'endUser'
+FROM (
+  SELECT e.id AS extraction_id, jsonb_array_elements(e.raw_line_items) AS item
+  FROM loading_list_extractions e
+) raw
+WHERE i.extraction_id = raw.extraction_id
+  AND i.source = 'extraction'
+  AND i.activity_code = raw.item->>'activityCode'
+  AND i.product_code = raw.item->>'primaryCode';
@@ -0,0 +1,130 @@
+-- Migration: Product Catalog Table
+-- Changes:
+-- 1. Create products table (catalog moves from lib/products/catalog.ts to the database)
+-- 2. Seed all 112 products from the previous static catalog (source: products_en.csv)
+
+CREATE TABLE products (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  article_number text NOT NULL UNIQUE,
+  description text NOT NULL,
+  min_qty integer NOT NULL DEFAULT 0,
+  max_qty integer NOT NULL DEFAULT 0,
+  retired_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Seed current catalog
+INSERT INTO products (article_number, description, min_qty, max_qty) VALUES
+  ('ART.100002', 'AD mattress Obese Arise LAL 1000 EX. L200/220 x W90/106/122 cm', 1, 5),
+  ('ART.100003', 'AD mattress Arise LAL 85. L203 x W85 x H25 cm', 2, 3),
+  ('ART.100005', 'AD Foam mattress Obese Barimatt. L200/220 x W90/106/122 cm', 2, 3),
+  ('ART.100010', 'AD mattress ProMatt. L200 x W85 x H18 cm', 10, 20),
+  ('ART.100011', 'AD mattress ProMatt. L200 x W88 x H18 cm', 3, 5),
+  ('ART.100013', 'AD mattress ProMatt. L207 x W85 x H18 cm', 9, 18),
+  ('ART.100017', 'AD mattress TS506 with detachable sections. L200 x W85 x H14 cm', 2, 4),
+  ('ART.100022', 'AD TS506 pump', 10, 20),
+  ('ART.100023', 'AD pump Obese Arise LAL 1000 EX pump', 2, 3),
+  ('ART.100024', 'AD mattress TS508 High Cell. L200 x W85 x H20 cm', 1, 2),
+  ('ART.100031', 'AD mattress TS506. L200 x W85 x H14 cm', 4, 8),
+  ('ART.100032', 'AD seat cushion blocks. L45 x W45 x H8 cm', 2, 4),
+  ('ART.100033', 'AD seat cushion Mosaic. L43 x W43 x H10 cm', 3, 5),
+  ('ART.100035', 'AD seat cushion Mosaic. L41 x D41 x H5 cm', 3, 5),
+  ('ART.100036', 'AD seat cushion Mosaic. L46 x D46 x H5 cm', 2, 4),
+  ('ART.100037', 'AD seat cushion Ola Alternating incl. pump. L40 x D45 cm', 1, 2),
+  ('ART.100045', 'AD seat cushion memory foam incl. PU cover. L43 x D43 x H5 cm', 3, 5),
+  ('ART.100046', 'AD seat cushion memory foam incl. PU cover. L43 x D43 x H7 cm', 3, 5),
+  ('ART.100055', 'Bed table classic', 7, 10),
+  ('ART.100062', 'Bed cradle/blanket support', 3, 6),
+  ('ART.100071', 'Shower stool height adjustable 43 - 58 cm', 10, 15),
+  ('ART.100073', 'Shower chair height adjustable 43 - 64 cm', 4, 6),
+  ('ART.100075', 'Shower/toilet chair Badoflex 3010 mobile', 3, 5),
+  ('ART.100076', 'Shower/toilet chair Obese. 4 wheels braked', 2, 3),
+  ('ART.100078', 'Turntable/Transfer disc', 2, 4),
+  ('ART.100082', 'Sliding sheet Large. L150 x W82 cm', 10, 20),
+  ('ART.100084', 'Sliding sheet Medium. L90 x W65 cm', 10, 20),
+  ('ART.100091', 'H/L bed Allegra 20.80. hospital version. L200 x W90 cm', 1, 2),
+  ('ART.100100', 'H/L bed Bari 10A Obese', 1, 2),
+  ('ART.100142', 'H/L bed Allegra 20.80 incl. side rails. L200 x W890 cm', 1, 2),
+  ('ART.100158', 'IV pole mobile incl. 4 hooks. Stainless steel', 2, 3),
+  ('ART.100164', 'Walking bike City. max. L113 x max. W55 cm', 1, 2),
+  ('ART.100174', 'Bedpan incl. lid', 5, 10),
+  ('ART.100205', 'Wheelchair Quicky M6. seat W65 x D55 cm. black', 2, 3),
+  ('ART.100210', 'Sit-to-stand aid Switch', 4, 7),
+  ('ART.100230', 'Toilet chair non-mobile with fixed legs', 3, 6),
+  ('ART.100236', 'Transfer/sliding board', 1, 2),
+  ('ART.100237', 'Transfer aid Turner Pro O-grip', 2, 3),
+  ('ART.100239', 'Triple chair electric extra low. low back. L35 x W30 cm', 2, 3),
+  ('ART.100240', 'Triple chair electric. low back L35 x W30 cm', 2, 3),
+  ('ART.100241', 'Triple chair mechanical extra low. high back', 2, 4),
+  ('ART.100248', 'Air cushion ring diameter 45 cm. incl. pump', 2, 4),
+  ('ART.100622', 'Bed rail/bed aid Frida incl. single handle and loop', 3, 5),
+  ('ART.100624', 'Leg rest Comfort left for manual wheelchair', 4, 8),
+  ('ART.100705', 'Guides for Medial H/L bed', 1, 2),
+  ('ART.100710', 'Hand control for Medial/Allegra', 1, 2),
+  ('ART.100949', 'Motor backrest WO Transformer for Haydn', 1, 2),
+  ('ART.100951', 'Hand control for Haydn H/L bed', 3, 6),
+  ('ART.100957', 'Extension 10 cm per piece for Haydn H/L bed', 3, 6),
+  ('ART.101124', 'Backrest with breathable fabric', 3, 6),
+  ('ART.101127', 'Yoke 2-point for Advance', 1, 2),
+  ('ART.101129', 'Battery Linak', 1, 2),
+  ('ART.101130', 'Yoke 4-point electric tiltable for Presence/Stature', 1, 2),
+  ('ART.104310', 'AD seat cushion K1 F37 H1 R1 Opd1 Ov12, L50 x W50 x H10 cm', 1, 2),
+  ('ART.104327', 'Overbed pole (thicker tube) for H/L bed Haydn', 1, 2),
+  ('ART.104623', 'AD mattress Arise LAL, L200 x W90 x H15 cm', 2, 3),
+  ('ART.104635', 'Draw sheet SatinSheet 4D Midi incl handles, L140 x W200 cm', 2, 3),
+  ('ART.104662', 'Clamp for IV pole 4 hooks, Stainless steel, Allegra', 1, 2),
+  ('ART.105089', 'Filler piece F9 H2 R1 Opd1 Ov9, L20 x W88 x H15 cm', 3, 6),
+  ('ART.105132', 'Motor head and foot end for Haydn', 2, 3),
+  ('ART.105713', 'Air Seat Cushion 9 pcs cell incl. pump, L45.72 x D45.72 cm', 1, 2),
+  ('ART.106885', 'Bed rail guides Ecofit', 3, 5),
+  ('GHA.000001', 'H/L bed incl. overbed pole, excl. side rails L200 x W90 cm', 7, 10),
+  ('GHA.000007', 'Manual wheelchair, Seat Width 46/50 cm', 2, 4),
+  ('GHA.000008', 'Toilet raiser, H10-11 cm', 5, 8),
+  ('GHA.000009', 'Toilet raiser, H5-6 cm', 2, 4),
+  ('GHA.000010', 'H/L bed MMO 3000 assembled L200 x W90 cm', 1, 2),
+  ('GHA.000012', 'H/L bed MMO 5000 assembled L200 x W90 cm', 1, 2),
+  ('GHA.000014', 'H/L bed MMO 8000 assembled L200 x W120 cm', 1, 2),
+  ('GHA.000015', 'Passive lift up to 227kg, 4-point yoke (sling with clips)', 2, 3),
+  ('GHA.000016', 'Passive lift up to 155kg, 2-point yoke (sling with loops)', 2, 3),
+  ('GHA.000017', 'Active lift up to 155kg, (sling with loops)', 3, 5),
+  ('GHA.000023', 'Sit-to-stand transfer aid', 1, 2),
+  ('GHA.000025', 'Parkinson walker', 2, 4),
+  ('GHA.000028', 'AD Foam mattress L200 x W90 cm', 5, 10),
+  ('GHA.000032', 'Fall mat L180 x W70 x H2.5 cm', 3, 6),
+  ('GHA.000035', 'Active sling with loops, Small', 2, 3),
+  ('GHA.000036', 'Active sling with loops, Medium', 2, 3),
+  ('GHA.000037', 'Active sling with loops, Large', 2, 3),
+  ('GHA.000038', 'Active sling with loops, XLarge', 1, 2),
+  ('GHA.000039', 'Passive amputation sling with loops, Small', 1, 2),
+  ('GHA.000040', 'Passive amputation sling with loops, Medium', 1, 2),
+  ('GHA.000041', 'Passive amputation sling with loops, Large', 1, 2),
+  ('GHA.000042', 'Passive toilet sling with loops, Small', 1, 2),
+  ('GHA.000043', 'Passive toilet sling with loops, Medium', 1, 2),
+  ('GHA.000044', 'Passive toilet sling with loops, Large', 1, 2),
+  ('GHA.000045', 'Passive toilet sling with loops, XLarge', 1, 2),
+  ('GHA.000046', 'Passive standard sling with loops, XSmall', 1, 2),
+  ('GHA.000047', 'Passive standard sling with loops, Small', 2, 3),
+  ('GHA.000048', 'Passive standard sling with loops, Medium', 2, 3),
+  ('GHA.000049', 'Passive standard sling with loops, Large', 2, 3),
+  ('GHA.000050', 'Passive standard sling with loops, XLarge', 1, 2),
+  ('GHA.000051', 'Passive standard sling with loops, XXLarge', 1, 2),
+  ('GHA.000052', 'Obesity sling for Calibre, XLarge', 1, 1),
+  ('GHA.000053', 'Obesity sling for Calibre, XXLarge', 1, 1),
+  ('GHA.000054', 'Amputation sling with clips, XSmall', 1, 1),
+  ('GHA.000055', 'Amputation sling with clips, Small', 1, 1),
+  ('GHA.000056', 'Amputation sling with clips, Medium', 1, 1),
+  ('GHA.000057', 'Amputation sling with clips, Large', 1, 1),
+  ('GHA.000058', 'Amputation sling with clips, XLarge', 1, 1),
+  ('GHA.000060', 'Toilet sling with clips, Small', 1, 2),
+  ('GHA.000061', 'Toilet sling with clips, Medium', 2, 3),
+  ('GHA.000062', 'Toilet sling with clips, Large', 1, 2),
+  ('GHA.000063', 'Passive standard sling with clips, XSmall', 1, 2),
+  ('GHA.000064', 'Passive standard sling with clips, Small', 1, 2),
+  ('GHA.000065', 'Passive standard sling with clips, Medium', 2, 3),
+  ('GHA.000066', 'Passive standard sling with clips, Large', 2, 3),
+  ('GHA.000067', 'Passive standard sling with clips, XLarge', 2, 3),
+  ('GHA.000068', 'Passive standard sling with clips, XXLarge', 3, 5),
+  ('GHA.000070', 'AD comfort Plus mattress, 8/7 195-202/85-90 logo Joerns', 2, 3),
+  ('GHA.000071', 'Triple chair mechanical, low back, 418, H35 x W30 cm', 1, 2),
+  ('GHA.000072', 'H/L bed EXTRA low L200 x W90 x H25-65cm', 2, 3);
@@ -0,0 +1,13 @@
+-- Migration: Item Catalog Validation
+-- Changes:
+-- 1. Add catalog_status and suggested_code to loading_list_items
+-- 2. Mark existing items whose code is an active catalog article as known
+--    (others stay null - suggestions are only computed at save time)
+
+ALTER TABLE loading_list_items ADD COLUMN catalog_status text;
+ALTER TABLE loading_list_items ADD COLUMN suggested_code text;
+
+UPDATE loading_list_items i SET catalog_status = 'known'
+FROM products p
+WHERE p.article_number = upper(trim(i.product_code))
+  AND p.retired_at IS NULL;
@@ -0,0 +1,12 @@
+-- Migration: Activity Owners
+-- Changes:
+-- 1. Create activity_owners (which group counts an activity listed by several groups)
+
+CREATE TABLE activity_owners (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id uuid NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  activity_code text NOT NULL,
+  group_id uuid NOT NULL REFERENCES employee_capture_groups(id) ON DELETE CASCADE,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (session_id, activity_code)
+);
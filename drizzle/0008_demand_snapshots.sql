@@ -0,0 +1,10 @@
+-- Migration: Demand Snapshots
+-- Changes:
+-- 1. Create demand_snapshots (demand as approved per session, read by the order)
+
+CREATE TABLE demand_snapshots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id uuid NOT NULL UNIQUE REFERENCES sessions(id) ON DELETE CASCADE,
+  items jsonb NOT NULL,
+  approved_at timestamp with time zone NOT NULL DEFAULT now()
+);
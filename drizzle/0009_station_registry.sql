@@ -0,0 +1,38 @@
+-- Migration: Station Registry
+-- Changes:
+-- 1. Create stations (physical dock stations shared across sessions)
+-- 2. Add station_id to station_captures
+-- 3. Backfill the registry from valid captures (latest sign reading per product)
+--    and link those captures
+
+CREATE TABLE stations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_code text NOT NULL UNIQUE,
+  min_qty integer,
+  max_qty integer,
+  location text,
+  sign_blob_url text,
+  sign_read_at timestamp with time zone,
+  last_counted_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE station_captures
+  ADD COLUMN station_id uuid REFERENCES stations(id) ON DELETE SET NULL;
+
+INSERT INTO stations (product_code, min_qty, max_qty, sign_blob_url, sign_read_at, last_counted_at)
+SELECT DISTINCT ON (upper(trim(product_code)))
+  upper(trim(product_code)),
+  min_qty,
+  max_qty,
+  sign_blob_url,
+  coalesce(extracted_at, created_at),
+  coalesce(extracted_at, created_at)
+FROM station_captures
+WHERE status = 'valid' AND product_code IS NOT NULL
+ORDER BY upper(trim(product_code)), coalesce(extracted_at, created_at) DESC;
+
+UPDATE station_captures c SET station_id = s.id
+FROM stations s
+WHERE s.product_code = upper(trim(c.product_code));
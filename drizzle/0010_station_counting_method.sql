@@ -0,0 +1,6 @@
+-- Migration: Station Counting Method
+-- Changes:
+-- 1. Add counting_method to station_captures (kept from the stock counting model
+--    next to the confidence columns)
+
+ALTER TABLE station_captures ADD COLUMN counting_method text;
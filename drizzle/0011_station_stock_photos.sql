@@ -0,0 +1,30 @@
+-- Migration: Station Stock Photos
+-- Changes:
+-- 1. Create station_stock_photos (several stock photos per capture, each counted)
+-- 2. Backfill one photo per capture from stock_blob_url with the capture's count
+
+CREATE TABLE station_stock_photos (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  capture_id uuid NOT NULL REFERENCES station_captures(id) ON DELETE CASCADE,
+  order_index integer NOT NULL DEFAULT 0,
+  blob_url text NOT NULL,
+  width integer,
+  height integer,
+  uploaded_at timestamp with time zone NOT NULL DEFAULT now(),
+  count_status text,
+  on_hand_qty integer,
+  count_confidence real,
+  counting_method text,
+  UNIQUE (capture_id, order_index)
+);
+
+INSERT INTO station_stock_photos (
+  capture_id, order_index, blob_url, width, height, uploaded_at,
+  on_hand_qty, count_confidence, counting_method
+)
+SELECT
+  id, 0, stock_blob_url, stock_width, stock_height,
+  COALESCE(stock_uploaded_at, created_at),
+  on_hand_qty, stock_count_confidence, counting_method
+FROM station_captures
+WHERE stock_blob_url IS NOT NULL;
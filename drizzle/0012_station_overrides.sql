@@ -0,0 +1,15 @@
+-- Migration: Station Overrides
+-- Changes:
+-- 1. Create station_overrides (audit trail of manual corrections to a capture's
+--    product code, on-hand, min and max, with the AI values they replaced)
+
+CREATE TABLE station_overrides (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  capture_id uuid NOT NULL REFERENCES station_captures(id) ON DELETE CASCADE,
+  changed_by text NOT NULL,
+  reason text NOT NULL,
+  previous_values jsonb NOT NULL,
+  new_values jsonb NOT NULL,
+  ai_values jsonb NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
@@ -0,0 +1,14 @@
+-- Migration: Station Duplicate Resolutions
+-- Changes:
+-- 1. Create station_duplicate_resolutions (how several captures of the same
+--    product in a session count: merge sums them, keep uses one capture)
+
+CREATE TABLE station_duplicate_resolutions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id uuid NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  product_code text NOT NULL,
+  rule text NOT NULL,
+  keep_capture_id uuid REFERENCES station_captures(id) ON DELETE CASCADE,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (session_id, product_code)
+);
@@ -0,0 +1,6 @@
+-- Migration: Session Coverage Mode
+-- Changes:
+-- 1. Add coverage_mode to sessions (lenient: missing stations use pessimistic
+--    defaults, strict: missing stations block the order until captured)
+
+ALTER TABLE sessions ADD COLUMN coverage_mode text NOT NULL DEFAULT 'lenient';
@@ -0,0 +1,6 @@
+-- Migration: Station Expected Product
+-- Changes:
+-- 1. Add expected_product_code to station_captures (product a guided capture
+--    was taken for, checked against the product code read from the sign)
+
+ALTER TABLE station_captures ADD COLUMN expected_product_code text;
@@ -0,0 +1,15 @@
+-- Migration: Order Templates
+-- Changes:
+-- 1. Create order_templates (named copy/paste order text formats per warehouse;
+--    the spec template stays the built-in default)
+
+CREATE TABLE order_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  stock_location text NOT NULL,
+  header_format text NOT NULL,
+  line_format text NOT NULL,
+  warning_format text NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
@@ -0,0 +1,30 @@
+-- Migration: Finalized Orders
+-- Changes:
+-- 1. Create orders (one finalized order per session, kept when the session is
+--    cleaned up - session_id is set null)
+-- 2. Create order_lines (snapshot of the computed order at finalization)
+
+CREATE TABLE orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id uuid UNIQUE REFERENCES sessions(id) ON DELETE SET NULL,
+  session_created_at timestamp with time zone NOT NULL,
+  status text NOT NULL DEFAULT 'draft',
+  finalized_at timestamp with time zone NOT NULL DEFAULT now(),
+  sent_at timestamp with time zone,
+  confirmed_at timestamp with time zone,
+  received_at timestamp with time zone
+);
+
+CREATE TABLE order_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  product_code text NOT NULL,
+  product_description text,
+  demand_qty integer NOT NULL,
+  on_hand_qty integer NOT NULL,
+  min_qty integer,
+  max_qty integer,
+  recommended_order_qty integer NOT NULL,
+  exceeds_max boolean NOT NULL,
+  is_captured boolean NOT NULL
+);
@@ -0,0 +1,19 @@
+-- Migration: Order Adjustments
+-- Changes:
+-- 1. Create order_adjustments (coordinator overrides of the computed order
+--    quantity and extra lines, one row per change with its reason)
+-- 2. Add computed_order_qty and adjustment_reason to order_lines (finalized
+--    orders keep what the formula said next to what was ordered)
+
+CREATE TABLE order_adjustments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id uuid NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  product_code text NOT NULL,
+  order_qty integer,
+  changed_by text NOT NULL,
+  reason text NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE order_lines ADD COLUMN computed_order_qty integer;
+ALTER TABLE order_lines ADD COLUMN adjustment_reason text;
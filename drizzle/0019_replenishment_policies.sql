@@ -0,0 +1,11 @@
+-- Migration: Replenishment Policies
+-- Changes:
+-- 1. Add replenishment_policy to products (demand_only keeps the spec's
+--    demand-first formula for every existing product)
+-- 2. Add replenishment_policy to order_lines (policy that produced each
+--    finalized line)
+
+ALTER TABLE products
+  ADD COLUMN replenishment_policy text NOT NULL DEFAULT 'demand_only';
+
+ALTER TABLE order_lines ADD COLUMN replenishment_policy text;
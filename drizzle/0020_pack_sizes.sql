@@ -0,0 +1,15 @@
+-- Migration: Pack Sizes
+-- Changes:
+-- 1. Add pack_size, min_order_qty and pack_rounding to products (defaults keep
+--    ordering single units)
+-- 2. Add unit_need_qty and pack_size to order_lines (finalized lines show the
+--    unit need next to the rounded quantity)
+
+ALTER TABLE products
+  ADD COLUMN pack_size integer NOT NULL DEFAULT 1,
+  ADD COLUMN min_order_qty integer NOT NULL DEFAULT 0,
+  ADD COLUMN pack_rounding text NOT NULL DEFAULT 'up';
+
+ALTER TABLE order_lines
+  ADD COLUMN unit_need_qty integer,
+  ADD COLUMN pack_size integer;
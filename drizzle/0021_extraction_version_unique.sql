@@ -0,0 +1,15 @@
+-- Migration: Extraction Version Unique
+-- Changes:
+-- 1. Renumber extraction versions per group (concurrent runs could share a number)
+-- 2. Add UNIQUE (group_id, version) to loading_list_extractions
+
+-- Renumber in run order so each group counts 1, 2, 3, ...
+UPDATE loading_list_extractions e SET version = r.version
+  FROM (
+    SELECT id, row_number() OVER (PARTITION BY group_id ORDER BY extracted_at, id) AS version
+    FROM loading_list_extractions
+  ) r
+  WHERE e.id = r.id AND e.version <> r.version;
+
+ALTER TABLE loading_list_extractions
+  ADD CONSTRAINT loading_list_extractions_group_id_version_unique UNIQUE (group_id, version);
@@ -0,0 +1,17 @@
+-- Migration: Product Aliases
+-- Changes:
+-- 1. Create product_aliases (alternative codes resolving to a catalog article,
+--    previously a hard-coded list in lib/products/aliases.ts)
+-- 2. Seed the alias that list carried (when its article is in the catalog)
+
+CREATE TABLE product_aliases (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL UNIQUE,
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Joerns bed delivered under the GHA article number
+INSERT INTO product_aliases (code, product_id)
+SELECT 'JOE.023596', id FROM products WHERE article_number = 'GHA.000001'
+ON CONFLICT (code) DO NOTHING;
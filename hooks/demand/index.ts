@@ -1,2 +1,3 @@
 export { demandKeys } from "./query-keys";
-export { useDemand } from "./use-demand";
+export { useApproveDemand, useDemand } from "./use-demand";
+export { useSetActivityOwner } from "./use-activity-owners";
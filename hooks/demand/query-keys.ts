@@ -1,4 +1,6 @@
 export const demandKeys = {
   all: ["demand"] as const,
   bySession: (sessionId: string) => [...demandKeys.all, "session", sessionId] as const,
+  filtered: (sessionId: string, filter: { room?: string; endUser?: string }) =>
+    [...demandKeys.bySession(sessionId), filter] as const,
 };
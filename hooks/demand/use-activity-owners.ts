@@ -0,0 +1,56 @@
+"use client";
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { client } from "@/lib/api/client";
+import { demandKeys } from "./query-keys";
+import { orderKeys } from "../order/query-keys";
+import { stationKeys } from "../stations/query-keys";
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Chooses which group counts an activity listed on several loading lists
+ */
+export function useSetActivityOwner() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      sessionId,
+      activityCode,
+      groupId,
+    }: {
+      sessionId: string;
+      activityCode: string;
+      groupId: string;
+    }) => {
+      const res = await client.api.sessions[":sessionId"].activities[
+        ":activityCode"
+      ].owner.$put({
+        param: { sessionId, activityCode },
+        json: { groupId },
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(
+          "error" in error ? error.error : "Failed to set activity owner"
+        );
+      }
+      return res.json();
+    },
+    onSuccess: (_data, { sessionId }) => {
+      // Owner decides which items count towards demand, coverage and order
+      queryClient.invalidateQueries({
+        queryKey: demandKeys.bySession(sessionId),
+      });
+      queryClient.invalidateQueries({
+        queryKey: orderKeys.bySession(sessionId),
+      });
+      queryClient.invalidateQueries({
+        queryKey: stationKeys.coverage(sessionId),
+      });
+    },
+  });
+}
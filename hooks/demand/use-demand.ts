@@ -1,19 +1,34 @@
 "use client";
 
-import { useQuery } from "@tanstack/react-query";
+import {
+  keepPreviousData,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
 import { client } from "@/lib/api/client";
 import { demandKeys } from "./query-keys";
+import { orderKeys } from "../order/query-keys";
+import { sessionKeys } from "../sessions/query-keys";
+import { stationKeys } from "../stations/query-keys";
 
 // ============================================================================
 // Queries
 // ============================================================================
 
-export function useDemand(sessionId: string) {
+/**
+ * Computed demand for a session, optionally narrowed to one room and/or end user
+ */
+export function useDemand(
+  sessionId: string,
+  filter: { room?: string; endUser?: string } = {}
+) {
   return useQuery({
-    queryKey: demandKeys.bySession(sessionId),
+    queryKey: demandKeys.filtered(sessionId, filter),
     queryFn: async () => {
       const res = await client.api.sessions[":sessionId"].demand.$get({
         param: { sessionId },
+        query: filter,
       });
       if (!res.ok) {
         const error = await res.json();
@@ -22,5 +37,39 @@ export function useDemand(sessionId: string) {
       return res.json();
     },
     enabled: !!sessionId,
+    // Keep the table on screen while switching filters
+    placeholderData: keepPreviousData,
+  });
+}
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Approves current demand - the order is computed from this snapshot
+ */
+export function useApproveDemand() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (sessionId: string) => {
+      const res = await client.api.sessions[":sessionId"].demand.approve.$post({
+        param: { sessionId },
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error("error" in error ? error.error : "Failed to approve demand");
+      }
+      return res.json();
+    },
+    onSuccess: (_data, sessionId) => {
+      queryClient.invalidateQueries({ queryKey: demandKeys.bySession(sessionId) });
+      queryClient.invalidateQueries({ queryKey: orderKeys.bySession(sessionId) });
+      queryClient.invalidateQueries({ queryKey: stationKeys.coverage(sessionId) });
+      // Approval moves the session on to inventory capture
+      queryClient.invalidateQueries({ queryKey: sessionKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: sessionKeys.detail(sessionId) });
+    },
   });
 }
@@ -1,3 +1,5 @@
 export * from "./use-extraction";
 export * from "./use-streaming-extraction";
+export * from "./use-line-items";
+export * from "./use-extraction-history";
 export * from "./query-keys";
@@ -2,4 +2,8 @@ export const extractionKeys = {
   all: ["extraction"] as const,
   result: (groupId: string) =>
     [...extractionKeys.all, "result", groupId] as const,
+  history: (groupId: string) =>
+    [...extractionKeys.all, "history", groupId] as const,
+  comparison: (groupId: string, baseId: string, targetId: string) =>
+    [...extractionKeys.history(groupId), "compare", baseId, targetId] as const,
 };
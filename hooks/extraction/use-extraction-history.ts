@@ -0,0 +1,118 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { client } from "@/lib/api/client";
+import { extractionKeys } from "./query-keys";
+import { groupKeys } from "../groups";
+import { demandKeys } from "../demand/query-keys";
+import { orderKeys } from "../order/query-keys";
+import { stationKeys } from "../stations/query-keys";
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * All extraction versions of a group, newest first
+ */
+export function useExtractionHistory(groupId: string, enabled = true) {
+  return useQuery({
+    queryKey: extractionKeys.history(groupId),
+    queryFn: async () => {
+      const res = await client.api.groups[":groupId"].extractions.$get({
+        param: { groupId },
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(
+          "error" in error ? error.error : "Failed to fetch extraction history"
+        );
+      }
+      return res.json();
+    },
+    enabled: !!groupId && enabled,
+  });
+}
+
+/**
+ * Item-by-item diff between two extraction versions
+ */
+export function useExtractionComparison(
+  groupId: string,
+  baseId: string | null,
+  targetId: string | null
+) {
+  return useQuery({
+    queryKey: extractionKeys.comparison(groupId, baseId ?? "", targetId ?? ""),
+    queryFn: async () => {
+      const res = await client.api.groups[":groupId"].extractions.compare.$get({
+        param: { groupId },
+        query: { base: baseId!, target: targetId! },
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(
+          "error" in error ? error.error : "Failed to compare extractions"
+        );
+      }
+      return res.json();
+    },
+    enabled: !!groupId && !!baseId && !!targetId && baseId !== targetId,
+  });
+}
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Makes an earlier extraction version active again (rollback)
+ */
+export function useActivateExtraction() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      groupId,
+      extractionId,
+    }: {
+      groupId: string;
+      extractionId: string;
+      sessionId: string;
+    }) => {
+      const res = await client.api.groups[":groupId"].extractions[
+        ":extractionId"
+      ].activate.$post({
+        param: { groupId, extractionId },
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(
+          "error" in error ? error.error : "Failed to restore extraction"
+        );
+      }
+      return res.json();
+    },
+    onSuccess: (_data, { groupId, sessionId }) => {
+      // Active version drives items, demand, order and coverage
+      queryClient.invalidateQueries({
+        queryKey: extractionKeys.result(groupId),
+      });
+      queryClient.invalidateQueries({
+        queryKey: extractionKeys.history(groupId),
+      });
+      queryClient.invalidateQueries({
+        queryKey: groupKeys.listBySession(sessionId),
+      });
+      queryClient.invalidateQueries({
+        queryKey: demandKeys.bySession(sessionId),
+      });
+      queryClient.invalidateQueries({
+        queryKey: orderKeys.bySession(sessionId),
+      });
+      queryClient.invalidateQueries({
+        queryKey: stationKeys.coverage(sessionId),
+      });
+    },
+  });
+}
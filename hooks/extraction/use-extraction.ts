@@ -53,6 +53,9 @@ export function useExtractGroup() {
       queryClient.invalidateQueries({
         queryKey: extractionKeys.result(groupId),
       });
+      queryClient.invalidateQueries({
+        queryKey: extractionKeys.history(groupId),
+      });
       // Invalidate group list since group status changes
       queryClient.invalidateQueries({
         queryKey: groupKeys.listBySession(sessionId),
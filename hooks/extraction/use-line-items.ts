@@ -0,0 +1,145 @@
+"use client";
+
+import { useMutation, useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { client } from "@/lib/api/client";
+import { extractionKeys } from "./query-keys";
+import { groupKeys } from "../groups";
+import { demandKeys } from "../demand/query-keys";
+import { orderKeys } from "../order/query-keys";
+import { stationKeys } from "../stations/query-keys";
+
+type LineItemInput = {
+  activityCode: string;
+  productCode: string;
+  description?: string | null;
+  quantity: number;
+};
+
+/**
+ * Line item changes affect the group, its extraction, and everything computed from demand
+ */
+function invalidateLineItemQueries(
+  queryClient: QueryClient,
+  groupId: string,
+  sessionId: string
+) {
+  queryClient.invalidateQueries({
+    queryKey: groupKeys.listBySession(sessionId),
+  });
+  queryClient.invalidateQueries({
+    queryKey: extractionKeys.result(groupId),
+  });
+  queryClient.invalidateQueries({
+    queryKey: demandKeys.bySession(sessionId),
+  });
+  queryClient.invalidateQueries({
+    queryKey: orderKeys.bySession(sessionId),
+  });
+  queryClient.invalidateQueries({
+    queryKey: stationKeys.coverage(sessionId),
+  });
+}
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Adds a manual line item to an extracted group
+ */
+export function useCreateLineItem() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      groupId,
+      item,
+    }: {
+      groupId: string;
+      sessionId: string;
+      item: LineItemInput;
+    }) => {
+      const res = await client.api.groups[":groupId"].items.$post({
+        param: { groupId },
+        json: item,
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(
+          "error" in error ? error.error : "Failed to add line item"
+        );
+      }
+      return res.json();
+    },
+    onSuccess: (_data, { groupId, sessionId }) => {
+      invalidateLineItemQueries(queryClient, groupId, sessionId);
+    },
+  });
+}
+
+/**
+ * Corrects product code, quantity or description of a line item
+ */
+export function useUpdateLineItem() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      groupId,
+      itemId,
+      changes,
+    }: {
+      groupId: string;
+      itemId: string;
+      sessionId: string;
+      changes: Partial<LineItemInput>;
+    }) => {
+      const res = await client.api.groups[":groupId"].items[":itemId"].$patch({
+        param: { groupId, itemId },
+        json: changes,
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(
+          "error" in error ? error.error : "Failed to update line item"
+        );
+      }
+      return res.json();
+    },
+    onSuccess: (_data, { groupId, sessionId }) => {
+      invalidateLineItemQueries(queryClient, groupId, sessionId);
+    },
+  });
+}
+
+/**
+ * Removes a line item from a group
+ */
+export function useDeleteLineItem() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      groupId,
+      itemId,
+    }: {
+      groupId: string;
+      itemId: string;
+      sessionId: string;
+    }) => {
+      const res = await client.api.groups[":groupId"].items[":itemId"].$delete({
+        param: { groupId, itemId },
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(
+          "error" in error ? error.error : "Failed to delete line item"
+        );
+      }
+      return res.json();
+    },
+    onSuccess: (_data, { groupId, sessionId }) => {
+      invalidateLineItemQueries(queryClient, groupId, sessionId);
+    },
+  });
+}
@@ -7,6 +7,7 @@ import {
   LoadingListExtractionSchema,
   type LoadingListExtraction,
 } from "@/lib/ai/schemas/loading-list-extraction";
+import { extractionKeys } from "./query-keys";
 import { groupKeys } from "../groups";
 import { demandKeys } from "../demand/query-keys";
 import { orderKeys } from "../order/query-keys";
@@ -60,6 +61,10 @@ interface GroupsQueryData {
       productCode: string;
       description: string | null;
       quantity: number;
+      secondaryCode: string | null;
+      internalCode: string | null;
+      room: string | null;
+      endUser: string | null;
       source: "extraction" | "manual";
     }>;
   }>;
@@ -68,7 +73,7 @@ interface GroupsQueryData {
 /**
  * Hook for streaming extraction using useObject from @ai-sdk/react.
  * Provides real-time partial results as the AI generates them.
- * Updates React Query cache directly when complete (no refetch needed).
+ * Updates React Query cache directly when complete, then refetches for server IDs.
  */
 export function useStreamingExtraction({
   sessionId,
@@ -124,6 +129,10 @@ export function useStreamingExtraction({
                     productCode: item.primaryCode,
                     description: item.description ?? null,
                     quantity: item.quantity,
+                    secondaryCode: item.secondaryCode ?? null,
+                    internalCode: item.internalCode ?? null,
+                    room: item.room ?? null,
+                    endUser: item.endUser ?? null,
                     source: "extraction" as const,
                   })),
                 } as typeof group;
@@ -132,6 +141,14 @@ export function useStreamingExtraction({
           }
         );
 
+        // Server saved a new version before the stream closed - refetch for real IDs
+        queryClient.invalidateQueries({
+          queryKey: groupKeys.listBySession(sessionId),
+        });
+        queryClient.invalidateQueries({
+          queryKey: extractionKeys.history(groupId),
+        });
+
         // Invalidate demand and order since extraction affects them
         queryClient.invalidateQueries({
           queryKey: demandKeys.bySession(sessionId),
@@ -1,3 +1,22 @@
 export { orderKeys } from "./query-keys";
-export { useOrder } from "./use-order";
-export type { OrderItem, OrderSession, OrderResponse } from "./types";
+export { useOrder, useOrderTexts, useAdjustOrderLine } from "./use-order";
+export {
+  useOrderTemplates,
+  useCreateOrderTemplate,
+  useUpdateOrderTemplate,
+  useDeleteOrderTemplate,
+} from "./use-order-templates";
+export {
+  useFinalizedOrder,
+  useOrderHistory,
+  useFinalizedOrderTexts,
+  useFinalizeOrder,
+  useUpdateOrderStatus,
+} from "./use-finalized-orders";
+export type {
+  OrderItem,
+  OrderAdjustment,
+  OrderSession,
+  OrderResponse,
+  SkippedOrderItem,
+} from "./types";
@@ -2,4 +2,13 @@ export const orderKeys = {
   all: ["order"] as const,
   bySession: (sessionId: string) =>
     [...orderKeys.all, "session", sessionId] as const,
+  // Under bySession so order invalidations also refresh the rendered texts
+  texts: (sessionId: string) =>
+    [...orderKeys.bySession(sessionId), "texts"] as const,
+  templates: () => [...orderKeys.all, "templates"] as const,
+  finalized: (sessionId: string) =>
+    [...orderKeys.bySession(sessionId), "finalized"] as const,
+  history: () => [...orderKeys.all, "history"] as const,
+  historyTexts: (orderId: string) =>
+    [...orderKeys.history(), orderId, "texts"] as const,
 };
@@ -1,3 +1,9 @@
+import type { SessionStatus } from "@/lib/sessions/status";
+import type {
+  CoverageMode,
+  ReplenishmentPolicy,
+} from "@/lib/workflow/compute";
+
 export type OrderItem = {
   productCode: string;
   productDescription?: string;
@@ -5,9 +11,29 @@ export type OrderItem = {
   onHandQty: number;
   minQty: number | null;
   maxQty: number | null;
-  recommendedOrderQty: number;
+  unitNeedQty: number; // Units the policy asks for, before pack rounding
+  recommendedOrderQty: number; // Orderable quantity (whole packs, at least the MOQ)
+  packSize: number | null; // null for extra lines (quantity set by hand)
   exceedsMax: boolean;
   isCaptured: boolean; // Derived: true if station exists with images
+  policy: ReplenishmentPolicy | null; // Policy that computed the line (null = extra line)
+  adjustment?: OrderLineAdjustment; // Set when a coordinator changed the quantity
+};
+
+export type OrderLineAdjustment = {
+  computedOrderQty: number | null; // What the formula said (null = extra line)
+  reason: string;
+  changedBy: string;
+  adjustedAt: string;
+};
+
+export type OrderAdjustment = {
+  id: string;
+  productCode: string;
+  orderQty: number | null; // null = back to the computed quantity
+  changedBy: string;
+  reason: string;
+  createdAt: string;
 };
 
 export type SkippedOrderItem = {
@@ -26,6 +52,19 @@ export type CoverageInfo = {
 export type OrderSession = {
   id: string;
   createdAt: string;
+  status: SessionStatus;
+  coverageMode: CoverageMode;
+};
+
+export type DemandChange = {
+  productCode: string;
+  approvedQty: number;
+  currentQty: number;
+};
+
+export type DemandApproval = {
+  approvedAt: string | null; // null until demand is approved (order follows live demand)
+  changes: DemandChange[]; // Live demand differences since approval
 };
 
 export type OrderResponse = {
@@ -33,4 +72,7 @@ export type OrderResponse = {
   orderItems: OrderItem[];
   skippedItems: SkippedOrderItem[];
   coverage: CoverageInfo;
+  blockedReason: string | null; // Strict coverage: missing stations block completion
+  demandApproval: DemandApproval;
+  adjustments: OrderAdjustment[]; // Change history, newest first
 };
@@ -0,0 +1,126 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { client } from "@/lib/api/client";
+import type { OrderStatus } from "@/lib/orders/status";
+import { orderKeys } from "./query-keys";
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * The session's finalized order (null until finalized)
+ */
+export function useFinalizedOrder(sessionId: string) {
+  return useQuery({
+    queryKey: orderKeys.finalized(sessionId),
+    queryFn: async () => {
+      const res = await client.api.sessions[":sessionId"].order.finalized.$get(
+        { param: { sessionId } }
+      );
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(
+          "error" in error ? error.error : "Failed to fetch finalized order"
+        );
+      }
+      return res.json();
+    },
+    enabled: !!sessionId,
+  });
+}
+
+/**
+ * All finalized orders, newest first (kept after sessions are cleaned up)
+ */
+export function useOrderHistory() {
+  return useQuery({
+    queryKey: orderKeys.history(),
+    queryFn: async () => {
+      const res = await client.api.orders.$get();
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(
+          "error" in error ? error.error : "Failed to fetch orders"
+        );
+      }
+      return res.json();
+    },
+  });
+}
+
+/**
+ * Order text of a finalized order, rendered from its stored lines
+ */
+export function useFinalizedOrderTexts(orderId: string | null) {
+  return useQuery({
+    queryKey: orderKeys.historyTexts(orderId ?? ""),
+    queryFn: async () => {
+      const res = await client.api.orders[":id"].texts.$get({
+        param: { id: orderId! },
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(
+          "error" in error ? error.error : "Failed to render order text"
+        );
+      }
+      return res.json();
+    },
+    enabled: !!orderId,
+  });
+}
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+export function useFinalizeOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (sessionId: string) => {
+      const res = await client.api.sessions[":sessionId"].order.finalize.$post({
+        param: { sessionId },
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(
+          "error" in error ? error.error : "Failed to finalize order"
+        );
+      }
+      return res.json();
+    },
+    onSuccess: (_, sessionId) => {
+      queryClient.invalidateQueries({
+        queryKey: orderKeys.finalized(sessionId),
+      });
+      queryClient.invalidateQueries({ queryKey: orderKeys.history() });
+    },
+  });
+}
+
+export function useUpdateOrderStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: OrderStatus }) => {
+      const res = await client.api.orders[":id"].status.$patch({
+        param: { id },
+        json: { status },
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(
+          "error" in error ? error.error : "Failed to update order status"
+        );
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      // Status shows on the session's order page and in the history
+      queryClient.invalidateQueries({ queryKey: orderKeys.all });
+    },
+  });
+}
@@ -0,0 +1,112 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { client } from "@/lib/api/client";
+import { orderKeys } from "./query-keys";
+
+type OrderTemplateFields = {
+  name: string;
+  stockLocation: string;
+  headerFormat: string;
+  lineFormat: string;
+  warningFormat: string;
+};
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Named order text templates and the built-in default
+ */
+export function useOrderTemplates() {
+  return useQuery({
+    queryKey: orderKeys.templates(),
+    queryFn: async () => {
+      const res = await client.api["order-templates"].$get();
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(
+          "error" in error ? error.error : "Failed to fetch order templates"
+        );
+      }
+      return res.json();
+    },
+  });
+}
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+export function useCreateOrderTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (template: OrderTemplateFields) => {
+      const res = await client.api["order-templates"].$post({ json: template });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(
+          "error" in error ? error.error : "Failed to create order template"
+        );
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      // Templates are rendered into every session's order texts
+      queryClient.invalidateQueries({ queryKey: orderKeys.all });
+    },
+  });
+}
+
+export function useUpdateOrderTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      changes,
+    }: {
+      id: string;
+      changes: Partial<OrderTemplateFields>;
+    }) => {
+      const res = await client.api["order-templates"][":id"].$patch({
+        param: { id },
+        json: changes,
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(
+          "error" in error ? error.error : "Failed to update order template"
+        );
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: orderKeys.all });
+    },
+  });
+}
+
+export function useDeleteOrderTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const res = await client.api["order-templates"][":id"].$delete({
+        param: { id },
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(
+          "error" in error ? error.error : "Failed to delete order template"
+        );
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: orderKeys.all });
+    },
+  });
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { client } from "@/lib/api/client";
 import { orderKeys } from "./query-keys";
 import type { OrderResponse } from "./types";
@@ -23,3 +23,69 @@ export function useOrder(sessionId: string) {
     enabled: !!sessionId,
   });
 }
+
+/**
+ * Order text rendered with the default and every named template
+ */
+export function useOrderTexts(sessionId: string) {
+  return useQuery({
+    queryKey: orderKeys.texts(sessionId),
+    queryFn: async () => {
+      const res = await client.api.sessions[":sessionId"].order.texts.$get({
+        param: { sessionId },
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(
+          "error" in error ? error.error : "Failed to render order text"
+        );
+      }
+      return res.json();
+    },
+    enabled: !!sessionId,
+  });
+}
+
+/**
+ * Override a line's order quantity or add an extra line, with a reason
+ * (orderQty null puts the line back to the computed quantity)
+ */
+export function useAdjustOrderLine() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      sessionId,
+      productCode,
+      orderQty,
+      changedBy,
+      reason,
+    }: {
+      sessionId: string;
+      productCode: string;
+      orderQty: number | null;
+      changedBy: string;
+      reason: string;
+    }) => {
+      const res = await client.api.sessions[":sessionId"].order.adjustments[
+        ":productCode"
+      ].$put({
+        param: { sessionId, productCode },
+        json: { orderQty, changedBy, reason },
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(
+          "error" in error ? error.error : "Failed to adjust order"
+        );
+      }
+      return res.json();
+    },
+    onSuccess: (_, { sessionId }) => {
+      // Also refreshes the rendered order texts
+      queryClient.invalidateQueries({
+        queryKey: orderKeys.bySession(sessionId),
+      });
+    },
+  });
+}
@@ -0,0 +1,2 @@
+export * from "./use-products";
+export * from "./query-keys";
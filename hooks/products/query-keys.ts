@@ -0,0 +1,7 @@
+export const productKeys = {
+  all: ["products"] as const,
+  lists: () => [...productKeys.all, "list"] as const,
+  list: (includeRetired: boolean) =>
+    [...productKeys.lists(), { includeRetired }] as const,
+  aliases: () => [...productKeys.all, "aliases"] as const,
+};
@@ -0,0 +1,205 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { client } from "@/lib/api/client";
+import type {
+  PackRounding,
+  ReplenishmentPolicy,
+} from "@/lib/workflow/compute";
+import { productKeys } from "./query-keys";
+
+type ProductFields = {
+  description: string;
+  minQty: number;
+  maxQty: number;
+  replenishmentPolicy?: ReplenishmentPolicy;
+  packSize?: number;
+  minOrderQty?: number;
+  packRounding?: PackRounding;
+};
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+export function useProducts(includeRetired = false) {
+  return useQuery({
+    queryKey: productKeys.list(includeRetired),
+    queryFn: async () => {
+      const res = await client.api.products.$get({
+        query: includeRetired ? { includeRetired: "true" } : {},
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error("error" in error ? error.error : "Failed to fetch products");
+      }
+      return res.json();
+    },
+  });
+}
+
+export function useProductAliases() {
+  return useQuery({
+    queryKey: productKeys.aliases(),
+    queryFn: async () => {
+      const res = await client.api.products.aliases.$get();
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error("error" in error ? error.error : "Failed to fetch product aliases");
+      }
+      return res.json();
+    },
+  });
+}
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+export function useCreateProduct() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (product: ProductFields & { articleNumber: string }) => {
+      const res = await client.api.products.$post({ json: product });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error("error" in error ? error.error : "Failed to create product");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: productKeys.lists() });
+    },
+  });
+}
+
+export function useUpdateProduct() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      changes,
+    }: {
+      id: string;
+      changes: Partial<ProductFields>;
+    }) => {
+      const res = await client.api.products[":id"].$patch({
+        param: { id },
+        json: changes,
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error("error" in error ? error.error : "Failed to update product");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: productKeys.lists() });
+    },
+  });
+}
+
+export function useRetireProduct() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const res = await client.api.products[":id"].retire.$post({
+        param: { id },
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error("error" in error ? error.error : "Failed to retire product");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: productKeys.lists() });
+    },
+  });
+}
+
+export function useRestoreProduct() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const res = await client.api.products[":id"].restore.$post({
+        param: { id },
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error("error" in error ? error.error : "Failed to restore product");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: productKeys.lists() });
+    },
+  });
+}
+
+export function useCreateProductAlias() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (alias: { code: string; articleNumber: string }) => {
+      const res = await client.api.products.aliases.$post({ json: alias });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error("error" in error ? error.error : "Failed to create product alias");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: productKeys.aliases() });
+    },
+  });
+}
+
+export function useDeleteProductAlias() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const res = await client.api.products.aliases[":id"].$delete({
+        param: { id },
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error("error" in error ? error.error : "Failed to delete product alias");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: productKeys.aliases() });
+    },
+  });
+}
+
+/**
+ * Diffs a catalog CSV against the stored catalog; applies it when dryRun is false
+ */
+export function useImportProducts() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ csv, dryRun }: { csv: string; dryRun: boolean }) => {
+      const res = await client.api.products.import.$post({
+        json: { csv, dryRun },
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error("error" in error ? error.error : "Failed to import products");
+      }
+      return res.json();
+    },
+    onSuccess: (data) => {
+      if (data.applied) {
+        queryClient.invalidateQueries({ queryKey: productKeys.lists() });
+      }
+    },
+  });
+}
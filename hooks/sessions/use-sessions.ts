@@ -3,7 +3,11 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { client } from "@/lib/api/client";
 import { sessionKeys } from "./query-keys";
+import { orderKeys } from "../order/query-keys";
+import { stationKeys } from "../stations/query-keys";
 import type { sessionPhase } from "@/lib/db/schema";
+import type { SessionStatus } from "@/lib/sessions/status";
+import type { CoverageMode } from "@/lib/workflow/compute";
 
 // ============================================================================
 // Queries
@@ -109,3 +113,66 @@ export function useUpdatePhase() {
     },
   });
 }
+
+export function useUpdateSessionStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: SessionStatus }) => {
+      const res = await client.api.sessions[":id"].status.$patch({
+        param: { id },
+        json: { status },
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error("error" in error ? error.error : "Failed to update session status");
+      }
+      return res.json();
+    },
+    onSuccess: (_data, { id, status }) => {
+      // Invalidate both lists and the specific session
+      queryClient.invalidateQueries({ queryKey: sessionKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: sessionKeys.detail(id) });
+      // Completing stores the finalized order
+      if (status === "completed") {
+        queryClient.invalidateQueries({ queryKey: orderKeys.finalized(id) });
+        queryClient.invalidateQueries({ queryKey: orderKeys.history() });
+      }
+    },
+  });
+}
+
+/**
+ * Switches how products without a valid station are handled: lenient orders
+ * them with defaults, strict blocks the order until they are captured
+ */
+export function useUpdateCoverageMode() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      coverageMode,
+    }: {
+      id: string;
+      coverageMode: CoverageMode;
+    }) => {
+      const res = await client.api.sessions[":id"]["coverage-mode"].$patch({
+        param: { id },
+        json: { coverageMode },
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error("error" in error ? error.error : "Failed to update coverage mode");
+      }
+      return res.json();
+    },
+    onSuccess: (_data, { id }) => {
+      queryClient.invalidateQueries({ queryKey: sessionKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: sessionKeys.detail(id) });
+      // The mode decides whether coverage blocks and what the order contains
+      queryClient.invalidateQueries({ queryKey: stationKeys.coverage(id) });
+      queryClient.invalidateQueries({ queryKey: orderKeys.bySession(id) });
+    },
+  });
+}
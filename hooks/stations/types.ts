@@ -1,9 +1,22 @@
-import type { StationCapture } from "@/lib/db/schema";
+import type {
+  StationCapture,
+  StationOverride,
+  StationStockPhoto,
+} from "@/lib/db/schema";
+import type {
+  CoverageMode,
+  DuplicateStation,
+  SkippedOrderItem,
+} from "@/lib/workflow/compute";
 
 /**
- * Station with all fields populated
+ * Station with all fields populated, including its stock photos and their
+ * counts, and its manual overrides (newest first)
  */
-export type StationWithDetails = StationCapture;
+export type StationWithDetails = StationCapture & {
+  stockPhotos: StationStockPhoto[];
+  overrides: StationOverride[];
+};
 
 /**
  * Coverage item for a demanded product
@@ -13,17 +26,34 @@ export type CoverageItem = {
   productDescription?: string;
   demandQty: number;
   isCaptured: boolean; // Derived: true if station exists with images
+  missingReason: SkippedOrderItem["reason"] | null; // Why it is not captured yet
   stationId?: string;
   onHandQty: number; // 0 for uncaptured products
   minQty: number | null;
   maxQty: number | null;
 };
 
+/**
+ * Registry station and whether it was counted in this session
+ */
+export type KnownStation = {
+  id: string;
+  productCode: string;
+  location: string | null;
+  minQty: number | null;
+  maxQty: number | null;
+  hasSignPhoto: boolean; // Needed for a stock-only capture (stock is verified against it)
+  lastCountedAt: string | null;
+  isCounted: boolean; // Valid capture with a stock count in this session
+  isDemanded: boolean; // Product is in this session's demand
+};
+
 /**
  * Coverage summary for a session
  */
 export type CoverageSummary = {
-  canProceed: boolean;
+  coverageMode: CoverageMode;
+  canProceed: boolean; // Strict sessions block until every product is captured
   coveredCount: number;
   totalCount: number;
   percentage: number;
@@ -34,5 +64,8 @@ export type CoverageSummary = {
  */
 export type CoverageResponse = {
   coverage: CoverageItem[];
+  missing: string[]; // Demanded products without a valid station
+  knownStations: KnownStation[];
+  duplicateStations: DuplicateStation[];
   summary: CoverageSummary;
 };
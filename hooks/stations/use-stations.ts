@@ -81,15 +81,25 @@ export function useCoverage(sessionId: string) {
 
 /**
  * Phase 1: Create a pending station with "uploading" status (instant)
- * Returns immediately with stationId, form can clear and user can add next item
+ * Returns immediately with stationId, form can clear and user can add next item.
+ * With knownStationId the capture is stock-only (min/max from the registry).
  */
 export function useCreatePendingStation() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({ sessionId }: { sessionId: string }) => {
+    mutationFn: async ({
+      sessionId,
+      knownStationId,
+      expectedProductCode,
+    }: {
+      sessionId: string;
+      knownStationId?: string;
+      expectedProductCode?: string;
+    }) => {
       const res = await client.api.sessions[":sessionId"].stations["create-pending"].$post({
         param: { sessionId },
+        json: { stationId: knownStationId, expectedProductCode },
       });
       if (!res.ok) {
         const error = await res.json();
@@ -113,6 +123,8 @@ export function useCreatePendingStation() {
  * - Uploads directly to Vercel Blob (bypasses server body limit)
  * - Optimistically updates React Query cache for instant UI
  * - onUploadCompleted webhook persists to DB in background
+ * - signImage is null for stock-only captures of known stations
+ * - stockImages holds one or more stock photos (wide or deep shelves)
  */
 export function useUploadStationImages() {
   const queryClient = useQueryClient();
@@ -122,58 +134,68 @@ export function useUploadStationImages() {
       stationId,
       sessionId,
       signImage,
-      stockImage,
+      stockImages,
     }: {
       stationId: string;
       sessionId: string;
-      signImage: File;
-      stockImage: File;
+      signImage: File | null;
+      stockImages: File[];
     }) => {
-      // Get dimensions for both images
-      const [signDimensions, stockDimensions] = await Promise.all([
-        getImageDimensions(signImage),
-        getImageDimensions(stockImage),
-      ]);
+      if (stockImages.length === 0) {
+        throw new Error("At least one stock image is required");
+      }
 
-      // Upload both images in parallel via client upload
-      const signExt = signImage.name.split(".").pop() || "jpg";
-      const stockExt = stockImage.name.split(".").pop() || "jpg";
+      // Get dimensions for the images
+      const [signDimensions, ...stockDimensionsList] = await Promise.all([
+        signImage ? getImageDimensions(signImage) : null,
+        ...stockImages.map(getImageDimensions),
+      ]);
+      const stockDimensions = stockDimensionsList[0]!;
 
-      const [signResult, stockResult] = await Promise.all([
-        upload(`sessions/${sessionId}/stations/${stationId}/sign.${signExt}`, signImage, {
-          access: "public",
-          handleUploadUrl: "/api/blob/station-images",
-          clientPayload: JSON.stringify({
-            stationId,
-            sessionId,
-            imageType: "sign",
-            width: signDimensions.width,
-            height: signDimensions.height,
-          }),
-        }),
-        upload(`sessions/${sessionId}/stations/${stationId}/stock.${stockExt}`, stockImage, {
+      // Upload images in parallel via client upload
+      const uploadImage = (
+        file: File,
+        imageType: "sign" | "stock",
+        dimensions: { width: number; height: number },
+        photoIndex = 0
+      ) => {
+        const ext = file.name.split(".").pop() || "jpg";
+        // Extra stock photos get their own path (stock-2, stock-3, ...)
+        const name = photoIndex > 0 ? `${imageType}-${photoIndex + 1}` : imageType;
+        return upload(`sessions/${sessionId}/stations/${stationId}/${name}.${ext}`, file, {
           access: "public",
           handleUploadUrl: "/api/blob/station-images",
           clientPayload: JSON.stringify({
             stationId,
             sessionId,
-            imageType: "stock",
-            width: stockDimensions.width,
-            height: stockDimensions.height,
+            imageType,
+            photoIndex,
+            totalStockPhotos: stockImages.length,
+            width: dimensions.width,
+            height: dimensions.height,
           }),
-        }),
+        });
+      };
+
+      const [signResult, ...stockResults] = await Promise.all([
+        signImage && signDimensions
+          ? uploadImage(signImage, "sign", signDimensions)
+          : null,
+        ...stockImages.map((file, i) =>
+          uploadImage(file, "stock", stockDimensionsList[i]!, i)
+        ),
       ]);
 
       return {
         stationId,
         sessionId,
-        signUrl: signResult.url,
-        stockUrl: stockResult.url,
+        signUrl: signResult?.url ?? null,
+        stockUrls: stockResults.map((result) => result!.url),
         signDimensions,
         stockDimensions,
       };
     },
-    onSuccess: ({ stationId, sessionId, signUrl, stockUrl, signDimensions, stockDimensions }) => {
+    onSuccess: ({ stationId, sessionId, signUrl, stockUrls, signDimensions, stockDimensions }) => {
       const now = new Date().toISOString();
 
       // Optimistically update the cache with uploaded images
@@ -190,11 +212,15 @@ export function useUploadStationImages() {
               return {
                 ...station,
                 status: "pending" as const,
-                signBlobUrl: signUrl,
-                signWidth: signDimensions.width,
-                signHeight: signDimensions.height,
-                signUploadedAt: now,
-                stockBlobUrl: stockUrl,
+                ...(signUrl && signDimensions
+                  ? {
+                      signBlobUrl: signUrl,
+                      signWidth: signDimensions.width,
+                      signHeight: signDimensions.height,
+                      signUploadedAt: now,
+                    }
+                  : {}),
+                stockBlobUrl: stockUrls[0],
                 stockWidth: stockDimensions.width,
                 stockHeight: stockDimensions.height,
                 stockUploadedAt: now,
@@ -320,17 +346,17 @@ export function useExtractStation() {
       id,
       modelId,
       signImageUrl,
-      stockImageUrl,
+      stockImageUrls,
     }: {
       id: string;
       sessionId: string;
       modelId?: string;
       signImageUrl?: string;
-      stockImageUrl?: string;
+      stockImageUrls?: string[];
     }) => {
       const res = await client.api.stations[":id"].extract.$post({
         param: { id },
-        json: { modelId, signImageUrl, stockImageUrl },
+        json: { modelId, signImageUrl, stockImageUrls },
       });
       if (!res.ok) {
         const error = await res.json();
@@ -355,3 +381,205 @@ export function useExtractStation() {
     },
   });
 }
+
+/**
+ * Sets the location of a registry station (shared across sessions)
+ */
+export function useUpdateRegistryStation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      location,
+    }: {
+      id: string;
+      sessionId: string;
+      location: string | null;
+    }) => {
+      const res = await client.api.stations.registry[":id"].$patch({
+        param: { id },
+        json: { location },
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(
+          "error" in error ? error.error : "Failed to update station"
+        );
+      }
+      return res.json();
+    },
+    onSuccess: (_data, { sessionId }) => {
+      // Known stations are listed with coverage
+      queryClient.invalidateQueries({
+        queryKey: stationKeys.coverage(sessionId),
+      });
+    },
+  });
+}
+
+/**
+ * Picks the authoritative min/max when the sign disagrees with the catalog
+ */
+export function useResolveMinMaxDiscrepancy() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      source,
+    }: {
+      id: string;
+      sessionId: string;
+      source: "sign" | "catalog";
+    }) => {
+      const res = await client.api.stations[":id"]["min-max"].resolve.$post({
+        param: { id },
+        json: { source },
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(
+          "error" in error ? error.error : "Failed to resolve min/max"
+        );
+      }
+      return res.json();
+    },
+    onSuccess: (_data, { sessionId }) => {
+      queryClient.invalidateQueries({
+        queryKey: stationKeys.listBySession(sessionId),
+      });
+      // Min/max feed the order quantities
+      queryClient.invalidateQueries({
+        queryKey: orderKeys.bySession(sessionId),
+      });
+    },
+  });
+}
+
+/**
+ * Confirms a station that needs review, making it valid
+ */
+export function useConfirmStation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id }: { id: string; sessionId: string }) => {
+      const res = await client.api.stations[":id"].confirm.$post({
+        param: { id },
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(
+          "error" in error ? error.error : "Failed to confirm station"
+        );
+      }
+      return res.json();
+    },
+    onSuccess: (_data, { sessionId }) => {
+      queryClient.invalidateQueries({
+        queryKey: stationKeys.listBySession(sessionId),
+      });
+      // Valid stations count towards coverage and the order
+      queryClient.invalidateQueries({
+        queryKey: stationKeys.coverage(sessionId),
+      });
+      queryClient.invalidateQueries({
+        queryKey: orderKeys.bySession(sessionId),
+      });
+    },
+  });
+}
+
+/**
+ * Manually corrects a station's product code, on-hand, min or max
+ * (audited with name and reason) and makes it valid
+ */
+export function useOverrideStation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      changes,
+    }: {
+      id: string;
+      sessionId: string;
+      changes: {
+        productCode?: string;
+        onHandQty?: number;
+        minQty?: number;
+        maxQty?: number;
+        changedBy: string;
+        reason: string;
+      };
+    }) => {
+      const res = await client.api.stations[":id"].$patch({
+        param: { id },
+        json: changes,
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(
+          "error" in error ? error.error : "Failed to update station"
+        );
+      }
+      return res.json();
+    },
+    onSuccess: (_data, { sessionId }) => {
+      queryClient.invalidateQueries({
+        queryKey: stationKeys.listBySession(sessionId),
+      });
+      // Corrected values change coverage and the order
+      queryClient.invalidateQueries({
+        queryKey: stationKeys.coverage(sessionId),
+      });
+      queryClient.invalidateQueries({
+        queryKey: orderKeys.bySession(sessionId),
+      });
+    },
+  });
+}
+
+/**
+ * Chooses how a product captured at several stations counts: merge sums their
+ * stock, keep uses one capture and discards the rest
+ */
+export function useResolveDuplicateStations() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      sessionId,
+      productCode,
+      resolution,
+    }: {
+      sessionId: string;
+      productCode: string;
+      resolution: { rule: "merge" } | { rule: "keep"; keepCaptureId: string };
+    }) => {
+      const res = await client.api.sessions[":sessionId"]["duplicate-stations"][
+        ":productCode"
+      ].$put({
+        param: { sessionId, productCode },
+        json: resolution,
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(
+          "error" in error ? error.error : "Failed to resolve duplicate stations"
+        );
+      }
+      return res.json();
+    },
+    onSuccess: (_data, { sessionId }) => {
+      // The rule decides which stock counts towards coverage and the order
+      queryClient.invalidateQueries({
+        queryKey: stationKeys.coverage(sessionId),
+      });
+      queryClient.invalidateQueries({
+        queryKey: orderKeys.bySession(sessionId),
+      });
+    },
+  });
+}
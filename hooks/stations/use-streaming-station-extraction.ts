@@ -3,6 +3,7 @@
 import { useQueryClient } from "@tanstack/react-query";
 import { useCallback, useRef, useState } from "react";
 import { type StationExtraction } from "@/lib/ai/schemas/station-extraction";
+import { assessStationExtraction } from "@/lib/stations/confidence";
 import { stationKeys } from "./query-keys";
 import { orderKeys } from "../order/query-keys";
 
@@ -46,6 +47,7 @@ interface ExtractionResponse {
       productCode?: string | null;
       minQty?: number | null;
       maxQty?: number | null;
+      confidence?: "high" | "medium" | "low";
       model: string;
     };
     stock: {
@@ -56,28 +58,20 @@ interface ExtractionResponse {
       countingMethod?: string;
       model: string;
     };
+    match: {
+      matchStatus: "matched" | "mismatch" | "uncertain";
+      confidence: "high" | "medium" | "low";
+      reason: string;
+      model: string | null;
+    };
   };
 }
 
 /**
- * Maps extraction status to station capture status
- */
-function mapExtractionStatusToStationStatus(
-  extraction: StationExtraction
-): "valid" | "needs_attention" | "failed" {
-  if (extraction.status === "success") {
-    return "valid";
-  }
-  if (extraction.status === "error") {
-    return "failed";
-  }
-  return "needs_attention"; // warning
-}
-
-/**
- * Hook for station extraction using two parallel AI calls:
+ * Hook for station extraction using parallel AI calls:
  * 1. Sign extraction (GPT-4o Mini) - reads product code, min, max
  * 2. Stock counting (Gemini 2.5 Flash) - counts items in stock photo
+ * 3. Match verification - checks the stock is the product on the sign
  *
  * Updates React Query cache directly when complete (no refetch needed).
  */
@@ -150,15 +144,12 @@ export function useStreamingStationExtraction({
                 // Update this station with extraction result
                 return {
                   ...station,
-                  status: mapExtractionStatusToStationStatus(data.extraction),
+                  // Same status/confidence rules as the server
+                  ...assessStationExtraction(data.extraction),
                   productCode: data.extraction.productCode ?? null,
                   minQty: data.extraction.minQty ?? null,
                   maxQty: data.extraction.maxQty ?? null,
                   onHandQty: data.extraction.onHandQty ?? null,
-                  errorMessage:
-                    data.extraction.status !== "success"
-                      ? data.extraction.message ?? null
-                      : null,
                   extractedAt: new Date().toISOString(),
                 };
               }),
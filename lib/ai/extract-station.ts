@@ -1,15 +1,128 @@
 import { type StationExtraction } from "./schemas/station-extraction";
 import { type SignExtraction } from "./schemas/sign-extraction";
 import { type StockCounting } from "./schemas/stock-counting";
+import { type StockMatch } from "./schemas/stock-match";
 import { extractSign } from "./extract-sign";
 import { extractStockCount } from "./extract-stock-count";
+import { verifyStockMatch } from "./verify-stock-match";
 
 /**
- * Combines sign extraction and stock counting results into a single station extraction.
+ * Match verdict, or uncertain when the check could not run - a failed check
+ * must not fail the count, but the station still needs a look
+ */
+async function safeVerifyStockMatch(
+  signUrl: string,
+  stockUrl: string,
+  modelId?: string
+): Promise<StockMatch> {
+  try {
+    return await verifyStockMatch(signUrl, stockUrl, modelId);
+  } catch (error) {
+    console.error("Stock match verification failed:", error);
+    return {
+      matchStatus: "uncertain",
+      confidence: "low",
+      reason: "Could not verify the stock against the sign",
+    };
+  }
+}
+
+const CONFIDENCE_ORDER = ["low", "medium", "high"] as const;
+
+/**
+ * Verifies every stock photo against the sign - each one adds to the count, so
+ * each must show the sign's product. Any mismatch makes the capture a mismatch,
+ * otherwise any uncertain photo makes it uncertain.
+ */
+async function verifyStockPhotosMatch(
+  signUrl: string,
+  stockUrls: string[],
+  modelId?: string
+): Promise<StockMatch> {
+  const matches = await Promise.all(
+    stockUrls.map((url) => safeVerifyStockMatch(signUrl, url, modelId))
+  );
+  if (matches.length === 1) return matches[0];
+
+  const label = (i: number) => `Photo ${i + 1}`;
+  for (const status of ["mismatch", "uncertain"] as const) {
+    const failing = matches
+      .map((m, i) => ({ ...m, photo: label(i) }))
+      .filter((m) => m.matchStatus === status);
+    if (failing.length > 0) {
+      return {
+        matchStatus: status,
+        confidence: CONFIDENCE_ORDER.find((level) =>
+          failing.some((m) => m.confidence === level)
+        )!,
+        reason: failing.map((m) => `${m.photo}: ${m.reason}`).join(" "),
+      };
+    }
+  }
+
+  return {
+    matchStatus: "matched",
+    // All photos matched - only as sure as the least sure verdict
+    confidence: CONFIDENCE_ORDER.find((level) =>
+      matches.some((m) => m.confidence === level)
+    )!,
+    reason: matches.map((m, i) => `${label(i)}: ${m.reason}`).join(" "),
+  };
+}
+
+/**
+ * Counts each stock photo separately and sums them into one stock result.
+ * One failed photo fails the total - a partial sum would under-count.
+ */
+async function countStockPhotos(
+  stockUrls: string[],
+  modelId?: string
+): Promise<{ total: StockCounting; photos: StockCounting[] }> {
+  const photos = await Promise.all(
+    stockUrls.map((url) => extractStockCount(url, modelId))
+  );
+  if (photos.length === 1) {
+    return { total: photos[0], photos };
+  }
+
+  const label = (i: number) => `Photo ${i + 1}`;
+  const failed = photos.some((p) => p.status === "error" || p.onHandQty === null);
+  const messages = photos
+    .map((p, i) => (p.message ? `${label(i)}: ${p.message}` : null))
+    .filter(Boolean);
+
+  return {
+    total: {
+      status: failed
+        ? "error"
+        : photos.some((p) => p.status === "warning")
+          ? "warning"
+          : "success",
+      message: messages.join(". ") || null,
+      onHandQty: failed
+        ? null
+        : photos.reduce((sum, p) => sum + (p.onHandQty ?? 0), 0),
+      // The total is only as sure as its least sure photo
+      confidence: CONFIDENCE_ORDER.find((level) =>
+        photos.some((p) => p.confidence === level)
+      )!,
+      countingMethod: photos
+        .map((p, i) => `${label(i)}: ${p.countingMethod}`)
+        .join("; "),
+    },
+    photos,
+  };
+}
+
+/**
+ * Combines sign extraction, stock counting and match verification results into
+ * a single station extraction.
  */
 function combineExtractionResults(
   sign: SignExtraction,
-  stock: StockCounting
+  stock: StockCounting,
+  match: StockMatch,
+  stockPhotos: StockCounting[]
 ): StationExtraction {
   // Determine overall status based on both extractions
   let status: "success" | "warning" | "error";
@@ -52,68 +165,91 @@ function combineExtractionResults(
     minQty: sign.minQty,
     maxQty: sign.maxQty,
     onHandQty: stock.onHandQty,
+    // Keep per-call confidence so low-confidence reads can go to review
+    signConfidence: sign.status === "error" ? null : sign.confidence,
+    stockConfidence: stock.status === "error" ? null : stock.confidence,
+    countingMethod: stock.countingMethod || null,
+    stockPhotos: stockPhotos.map((p) => ({
+      status: p.status,
+      onHandQty: p.onHandQty,
+      confidence: p.confidence,
+      countingMethod: p.countingMethod,
+    })),
+    // A verdict only means something when both images were usable
+    ...(sign.status !== "error" && stock.status !== "error"
+      ? {
+          matchStatus: match.matchStatus,
+          matchConfidence: match.confidence,
+          matchReason: match.reason,
+        }
+      : { matchStatus: null, matchConfidence: null, matchReason: null }),
   };
 }
 
 /**
- * Extracts station data from sign and stock images using two separate AI calls.
+ * Extracts station data from sign and stock images using separate AI calls.
  *
  * - Sign extraction: Simple OCR to read product code, min, max (GPT-4o Mini)
- * - Stock counting: Specialized counting with Gemini 2.5 Flash for accuracy
+ * - Stock counting: Specialized counting with Gemini 2.5 Flash for accuracy,
+ *   one call per stock photo (summed)
+ * - Match verification: Checks every stock photo is the product on the sign
  *
  * @param signUrl - Blob URL for the station sign image
- * @param stockUrl - Blob URL for the station stock image
+ * @param stockUrls - Blob URLs for the station stock images (at least one)
  * @param signModelId - Optional model ID for sign extraction
  * @param stockModelId - Optional model ID for stock counting
- * @returns Combined extraction result with productCode, min/max, onHand
+ * @param matchModelId - Optional model ID for match verification
+ * @returns Combined extraction result with productCode, min/max, onHand, match
  */
 export async function extractStation(
   signUrl: string,
-  stockUrl: string,
+  stockUrls: string[],
   signModelId?: string,
-  stockModelId?: string
+  stockModelId?: string,
+  matchModelId?: string
 ): Promise<StationExtraction> {
-  if (!signUrl || !stockUrl) {
-    throw new Error("Both sign and stock images are required");
-  }
-
-  // Run both extractions in parallel for speed
-  const [signResult, stockResult] = await Promise.all([
-    extractSign(signUrl, signModelId),
-    extractStockCount(stockUrl, stockModelId),
-  ]);
-
-  // Combine results into single station extraction
-  return combineExtractionResults(signResult, stockResult);
+  const { combined } = await extractStationDetailed(
+    signUrl,
+    stockUrls,
+    signModelId,
+    stockModelId,
+    matchModelId
+  );
+  return combined;
 }
 
 /**
- * Extracts station data and returns individual results for both sign and stock.
+ * Extracts station data and returns the individual sign, stock and match results.
  * Useful when you need access to confidence levels and counting methods.
  */
 export async function extractStationDetailed(
   signUrl: string,
-  stockUrl: string,
+  stockUrls: string[],
   signModelId?: string,
-  stockModelId?: string
+  stockModelId?: string,
+  matchModelId?: string
 ): Promise<{
   combined: StationExtraction;
   sign: SignExtraction;
   stock: StockCounting;
+  match: StockMatch;
 }> {
-  if (!signUrl || !stockUrl) {
+  if (!signUrl || stockUrls.length === 0) {
     throw new Error("Both sign and stock images are required");
   }
 
-  const [sign, stock] = await Promise.all([
+  // Run all calls in parallel for speed
+  const [sign, stock, match] = await Promise.all([
     extractSign(signUrl, signModelId),
-    extractStockCount(stockUrl, stockModelId),
+    countStockPhotos(stockUrls, stockModelId),
+    verifyStockPhotosMatch(signUrl, stockUrls, matchModelId),
   ]);
 
   return {
-    combined: combineExtractionResults(sign, stock),
+    combined: combineExtractionResults(sign, stock.total, match, stock.photos),
     sign,
-    stock,
+    stock: stock.total,
+    match,
   };
 }
 
@@ -122,15 +258,22 @@ export async function extractStationDetailed(
  */
 export async function safeExtractStation(
   signUrl: string,
-  stockUrl: string,
+  stockUrls: string[],
   signModelId?: string,
-  stockModelId?: string
+  stockModelId?: string,
+  matchModelId?: string
 ): Promise<
   | { success: true; data: StationExtraction }
   | { success: false; error: string }
 > {
   try {
-    const data = await extractStation(signUrl, stockUrl, signModelId, stockModelId);
+    const data = await extractStation(
+      signUrl,
+      stockUrls,
+      signModelId,
+      stockModelId,
+      matchModelId
+    );
     return { success: true, data };
   } catch (error) {
     console.error("Station extraction failed:", error);
@@ -141,3 +284,84 @@ export async function safeExtractStation(
     };
   }
 }
+
+/**
+ * Sign values of a known station (from the station registry), used instead of
+ * reading the sign again
+ */
+export type KnownSign = {
+  productCode: string;
+  minQty: number | null;
+  maxQty: number | null;
+  signBlobUrl: string; // Last sign photo, used for match verification
+};
+
+/**
+ * Stock-only extraction for a known station: the sign is not read again,
+ * product code and min/max come from the stored station. The stock is still
+ * verified against the stored sign photo.
+ */
+export async function extractStationStockOnly(
+  stockUrls: string[],
+  knownSign: KnownSign,
+  stockModelId?: string,
+  matchModelId?: string
+): Promise<{
+  combined: StationExtraction;
+  sign: SignExtraction;
+  stock: StockCounting;
+  match: StockMatch;
+}> {
+  if (stockUrls.length === 0) {
+    throw new Error("Stock image is required");
+  }
+
+  const hasMinMax = knownSign.minQty !== null && knownSign.maxQty !== null;
+  const sign: SignExtraction = {
+    status: hasMinMax ? "success" : "warning",
+    message: hasMinMax ? null : "Known station has no min/max - capture the sign",
+    productCode: knownSign.productCode,
+    minQty: knownSign.minQty,
+    maxQty: knownSign.maxQty,
+    confidence: "high",
+  };
+  const [stock, match] = await Promise.all([
+    countStockPhotos(stockUrls, stockModelId),
+    verifyStockPhotosMatch(knownSign.signBlobUrl, stockUrls, matchModelId),
+  ]);
+
+  return {
+    combined: combineExtractionResults(sign, stock.total, match, stock.photos),
+    sign,
+    stock: stock.total,
+    match,
+  };
+}
+
+/**
+ * Safely runs stock-only extraction with error handling
+ */
+export async function safeExtractStationStockOnly(
+  stockUrls: string[],
+  knownSign: KnownSign,
+  stockModelId?: string
+): Promise<
+  | { success: true; data: StationExtraction }
+  | { success: false; error: string }
+> {
+  try {
+    const { combined } = await extractStationStockOnly(
+      stockUrls,
+      knownSign,
+      stockModelId
+    );
+    return { success: true, data: combined };
+  } catch (error) {
+    console.error("Station stock-only extraction failed:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Unknown extraction error",
+    };
+  }
+}
@@ -54,6 +54,11 @@ export const DEFAULT_SIGN_MODEL = "google/gemini-3-flash";
  */
 export const DEFAULT_COUNTING_MODEL = "google/gemini-3-flash";
 
+/**
+ * Default model for sign-to-stock match verification (compares two images)
+ */
+export const DEFAULT_MATCH_MODEL = "google/gemini-3-flash";
+
 /**
  * Default model for station extraction (legacy, uses sign model)
  * @deprecated Use DEFAULT_SIGN_MODEL and DEFAULT_COUNTING_MODEL instead
@@ -138,6 +138,7 @@ Return a JSON object with these fields:
 - productCode: string or null (UPPERCASE, e.g., "ART.100013", "GHA.000001")
 - minQty: integer or null
 - maxQty: integer or null
+- confidence: "high" | "medium" | "low" (how sure you are of the code and min/max)
 
 ## Status Rules
 - "success": Valid station label with readable product code AND min AND max
@@ -151,7 +152,7 @@ Extract ONLY what you can clearly read. Set fields to null if unreadable.`;
  */
 export const SIGN_EXTRACTION_USER_PROMPT = `Extract product code, min, and max from this station sign label.
 
-Return JSON with: status, message, productCode, minQty, maxQty`;
+Return JSON with: status, message, productCode, minQty, maxQty, confidence`;
 
 /**
  * System prompt for stock counting (specialized counting task).
@@ -202,6 +203,40 @@ Be systematic - describe your counting method.
 
 Return JSON with: status, message, onHandQty, confidence, countingMethod`;
 
+/**
+ * System prompt for sign-to-stock match verification.
+ */
+export const STOCK_MATCH_SYSTEM_PROMPT = `You verify that a warehouse stock photo shows the product named on its station sign.
+
+## Inputs
+1. The station sign: product code, description and a reference photo of the product
+2. The stock photo: the items stored at the station
+
+## Task
+Compare the items in the stock photo with the sign's description and reference photo
+(shape, size, color, packaging). Decide whether they are the same product.
+
+## Output Format
+Return a JSON object with these fields:
+- matchStatus: "matched" | "mismatch" | "uncertain"
+- confidence: "high" | "medium" | "low"
+- reason: string (one sentence on what matched or differed)
+
+## Status Rules
+- "matched": The stock clearly is the product on the sign
+- "mismatch": The stock clearly is a different product (e.g., chairs at a bed station)
+- "uncertain": Cannot tell (items covered or wrapped, reference photo unclear, similar variants)
+
+Do not count items. An empty stock area is "uncertain".`;
+
+/**
+ * User prompt for sign-to-stock match verification.
+ */
+export const STOCK_MATCH_USER_PROMPT = `The first image is the station sign, the second is the stock photo.
+Does the stock show the product on the sign?
+
+Return JSON with: matchStatus, confidence, reason`;
+
 // Legacy prompts for backward compatibility (combined extraction)
 // These are kept but no longer used by the new split extraction
 
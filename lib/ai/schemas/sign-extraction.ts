@@ -7,6 +7,7 @@ import { z } from "zod";
  * - Product code (ART.######, JOE.######, GHA.######)
  * - Min quantity
  * - Max quantity
+ * - Confidence in the reading
  */
 
 export const SignExtractionSchema = z.object({
@@ -39,6 +40,10 @@ export const SignExtractionSchema = z.object({
     .min(0)
     .nullable()
     .describe("Maximum quantity from sign. Null if unreadable."),
+
+  confidence: z
+    .enum(["high", "medium", "low"])
+    .describe("Confidence in the reading: high = sharp and unambiguous, medium = some characters unclear, low = guessed"),
 });
 
 export type SignExtraction = z.infer<typeof SignExtractionSchema>;
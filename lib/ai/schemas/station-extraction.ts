@@ -58,6 +58,58 @@ export const StationExtractionSchema = z.object({
     .nullable()
     .optional()
     .describe("Counted items in stock photo. Null if stock invalid."),
+
+  // Confidence of the separate sign and stock calls
+  signConfidence: z
+    .enum(["high", "medium", "low"])
+    .nullable()
+    .optional()
+    .describe("Confidence in the sign reading. Null if sign not read."),
+
+  stockConfidence: z
+    .enum(["high", "medium", "low"])
+    .nullable()
+    .optional()
+    .describe("Confidence in the stock count. Null if stock not counted."),
+
+  countingMethod: z
+    .string()
+    .nullable()
+    .optional()
+    .describe("How the stock was counted (e.g., 'Counted 3 rows of 2 beds')."),
+
+  // Per-photo counts when the stock was captured in several photos
+  // (onHandQty is their sum)
+  stockPhotos: z
+    .array(
+      z.object({
+        status: z.enum(["success", "warning", "error"]),
+        onHandQty: z.number().int().min(0).nullable(),
+        confidence: z.enum(["high", "medium", "low"]),
+        countingMethod: z.string(),
+      })
+    )
+    .optional()
+    .describe("Count of each stock photo, in capture order."),
+
+  // Sign-to-stock match verification (null when not verified)
+  matchStatus: z
+    .enum(["matched", "mismatch", "uncertain"])
+    .nullable()
+    .optional()
+    .describe("Whether the stock shows the sign's product. Null if not verified."),
+
+  matchConfidence: z
+    .enum(["high", "medium", "low"])
+    .nullable()
+    .optional()
+    .describe("Confidence in the match verdict. Null if not verified."),
+
+  matchReason: z
+    .string()
+    .nullable()
+    .optional()
+    .describe("What matched or differed between sign and stock."),
 });
 
 // TypeScript type
@@ -0,0 +1,26 @@
+import { z } from "zod";
+
+/**
+ * Stock Match Schema
+ *
+ * Verifies that the stock photo shows the product on the station sign
+ * (compared with the sign's description and reference picture).
+ */
+
+export const StockMatchSchema = z.object({
+  matchStatus: z
+    .enum(["matched", "mismatch", "uncertain"])
+    .describe(
+      "'matched' = stock is the sign's product; 'mismatch' = clearly a different product; 'uncertain' = cannot tell"
+    ),
+
+  confidence: z
+    .enum(["high", "medium", "low"])
+    .describe("Confidence in the verdict"),
+
+  reason: z
+    .string()
+    .describe("One sentence on what matched or differed"),
+});
+
+export type StockMatch = z.infer<typeof StockMatchSchema>;
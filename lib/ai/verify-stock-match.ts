@@ -0,0 +1,45 @@
+import { generateObject } from "ai";
+import { StockMatchSchema, type StockMatch } from "./schemas/stock-match";
+import { STOCK_MATCH_SYSTEM_PROMPT, STOCK_MATCH_USER_PROMPT } from "./prompts";
+import { DEFAULT_MATCH_MODEL } from "./models";
+
+/**
+ * Checks that the stock photo shows the product on the station sign,
+ * using the sign's description and reference picture.
+ *
+ * @param signUrl - Blob URL for the station sign image
+ * @param stockUrl - Blob URL for the station stock image
+ * @param modelId - Optional model ID (defaults to DEFAULT_MATCH_MODEL)
+ * @returns Match verdict with confidence and reason
+ */
+export async function verifyStockMatch(
+  signUrl: string,
+  stockUrl: string,
+  modelId?: string
+): Promise<StockMatch> {
+  if (!signUrl || !stockUrl) {
+    throw new Error("Both sign and stock images are required");
+  }
+
+  const selectedModel = modelId || DEFAULT_MATCH_MODEL;
+
+  const { object } = await generateObject({
+    model: selectedModel,
+    schema: StockMatchSchema,
+    schemaName: "StockMatch",
+    schemaDescription: "Whether the stock photo shows the product on the sign",
+    messages: [
+      { role: "system", content: STOCK_MATCH_SYSTEM_PROMPT },
+      {
+        role: "user",
+        content: [
+          { type: "text", text: STOCK_MATCH_USER_PROMPT },
+          { type: "image", image: signUrl },
+          { type: "image", image: stockUrl },
+        ],
+      },
+    ],
+  });
+
+  return object;
+}
@@ -7,6 +7,8 @@ import {
 } from "@/lib/db/schema";
 import { eq, lt } from "drizzle-orm";
 import { del } from "@vercel/blob";
+import { registrySignBlobUrls } from "@/lib/stations/registry";
+import { getStockPhotoUrls } from "@/lib/stations/stock-photos";
 
 /**
  * Deletes a session and all associated data including blob storage cleanup.
@@ -50,7 +52,7 @@ export async function deleteSessionWithCleanup(sessionId: string): Promise<{
     }
   }
 
-  // Station capture blobs (sign + stock images)
+  // Station capture blobs (sign + every stock photo)
   for (const station of stations) {
     if (station.signBlobUrl) {
       blobUrls.push(station.signBlobUrl);
@@ -58,22 +60,31 @@ export async function deleteSessionWithCleanup(sessionId: string): Promise<{
     if (station.stockBlobUrl) {
       blobUrls.push(station.stockBlobUrl);
     }
+    for (const url of await getStockPhotoUrls(station)) {
+      // The first stock photo is mirrored in stockBlobUrl
+      if (url !== station.stockBlobUrl) blobUrls.push(url);
+    }
   }
 
-  // 5. Delete all blobs in parallel (best-effort)
+  // 5. Delete all blobs in parallel (best-effort), except sign photos the
+  //    station registry still shows
+  const registryUrls = await registrySignBlobUrls(blobUrls);
   await Promise.all(
-    blobUrls.map(async (url) => {
-      try {
-        await del(url);
-        deletedBlobs++;
-      } catch (error) {
-        console.error(`Failed to delete blob: ${url}`, error);
-        failedBlobs++;
-      }
-    })
+    blobUrls
+      .filter((url) => !registryUrls.has(url))
+      .map(async (url) => {
+        try {
+          await del(url);
+          deletedBlobs++;
+        } catch (error) {
+          console.error(`Failed to delete blob: ${url}`, error);
+          failedBlobs++;
+        }
+      })
   );
 
-  // 6. Delete the session (cascade deletes all child records via FK)
+  // 6. Delete the session (cascade deletes all child records via FK;
+  //    a finalized order is kept, only unlinked from the session)
   const [deleted] = await db
     .delete(sessions)
     .where(eq(sessions.id, sessionId))
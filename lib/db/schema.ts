@@ -7,6 +7,8 @@ import {
   boolean,
   real,
   jsonb,
+  unique,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 
@@ -18,6 +20,20 @@ export const sessionPhase = [
   "order",
 ] as const;
 
+// Session lifecycle status - transitions enforced server-side (lib/sessions/status.ts)
+export const sessionStatus = [
+  "draft",
+  "capturing_loading_lists",
+  "review_demand",
+  "capturing_inventory",
+  "review_order",
+  "completed",
+] as const;
+
+// How products without a valid station are handled: lenient orders them with
+// pessimistic defaults, strict skips them and blocks the order until captured
+export const coverageMode = ["lenient", "strict"] as const;
+
 export const sessions = pgTable("sessions", {
   id: uuid("id").primaryKey().defaultRandom(),
   createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
@@ -26,6 +42,11 @@ export const sessions = pgTable("sessions", {
   lastPhase: text("last_phase", { enum: sessionPhase })
     .notNull()
     .default("loading-lists"),
+  status: text("status", { enum: sessionStatus }).notNull().default("draft"),
+  completedAt: timestamp("completed_at", { withTimezone: true, mode: "string" }),
+  coverageMode: text("coverage_mode", { enum: coverageMode })
+    .notNull()
+    .default("lenient"),
 });
 
 export type Session = typeof sessions.$inferSelect;
@@ -49,6 +70,11 @@ export const employeeCaptureGroups = pgTable("employee_capture_groups", {
   status: text("status", { enum: employeeCaptureGroupStatus })
     .notNull()
     .default("pending"),
+  // Extraction version currently used for items, demand and order (others are history)
+  activeExtractionId: uuid("active_extraction_id").references(
+    (): AnyPgColumn => loadingListExtractions.id,
+    { onDelete: "set null" }
+  ),
   createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
     .notNull()
     .defaultNow(),
@@ -100,7 +126,16 @@ export const employeeCaptureGroupsRelations = relations(
       references: [sessions.id],
     }),
     images: many(loadingListImages),
-    extraction: one(loadingListExtractions),
+    // Active extraction version
+    extraction: one(loadingListExtractions, {
+      fields: [employeeCaptureGroups.activeExtractionId],
+      references: [loadingListExtractions.id],
+      relationName: "activeExtraction",
+    }),
+    // Full extraction history (every run is kept)
+    extractions: many(loadingListExtractions, {
+      relationName: "groupExtractions",
+    }),
     items: many(loadingListItems),
   })
 );
@@ -142,32 +177,38 @@ export type ExtractionSummaryJson = {
   totalLineItems: number;
 };
 
-// Loading list extractions (raw AI output - audit trail)
-export const loadingListExtractions = pgTable("loading_list_extractions", {
-  id: uuid("id").primaryKey().defaultRandom(),
-  groupId: uuid("group_id")
-    .notNull()
-    .references(() => employeeCaptureGroups.id, { onDelete: "cascade" }),
-
-  // Extraction status: success, warning, error
-  status: text("status", { enum: ["success", "warning", "error"] }).notNull(),
-  message: text("message"),
-
-  // Raw extracted data (JSON) - what AI returned, unvalidated
-  rawActivities: jsonb("raw_activities").notNull().$type<RawActivityJson[]>(),
-  rawLineItems: jsonb("raw_line_items").notNull().$type<RawLineItemJson[]>(),
-  summary: jsonb("summary").notNull().$type<ExtractionSummaryJson>(),
-
-  // Extraction metadata
-  model: text("model"),
-  inputTokens: integer("input_tokens"),
-  outputTokens: integer("output_tokens"),
-  totalCost: real("total_cost"), // USD
-
-  extractedAt: timestamp("extracted_at", { withTimezone: true, mode: "string" })
-    .notNull()
-    .defaultNow(),
-});
+// Loading list extractions (raw AI output - audit trail, one row per run)
+export const loadingListExtractions = pgTable(
+  "loading_list_extractions",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    groupId: uuid("group_id")
+      .notNull()
+      .references(() => employeeCaptureGroups.id, { onDelete: "cascade" }),
+    // Run number within the group (1 = first extraction)
+    version: integer("version").notNull().default(1),
+
+    // Extraction status: success, warning, error
+    status: text("status", { enum: ["success", "warning", "error"] }).notNull(),
+    message: text("message"),
+
+    // Raw extracted data (JSON) - what AI returned, unvalidated
+    rawActivities: jsonb("raw_activities").notNull().$type<RawActivityJson[]>(),
+    rawLineItems: jsonb("raw_line_items").notNull().$type<RawLineItemJson[]>(),
+    summary: jsonb("summary").notNull().$type<ExtractionSummaryJson>(),
+
+    // Extraction metadata
+    model: text("model"),
+    inputTokens: integer("input_tokens"),
+    outputTokens: integer("output_tokens"),
+    totalCost: real("total_cost"), // USD
+
+    extractedAt: timestamp("extracted_at", { withTimezone: true, mode: "string" })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [unique().on(table.groupId, table.version)]
+);
 
 export type LoadingListExtraction = typeof loadingListExtractions.$inferSelect;
 export type NewLoadingListExtraction = typeof loadingListExtractions.$inferInsert;
@@ -178,8 +219,11 @@ export type NewLoadingListExtraction = typeof loadingListExtractions.$inferInser
 
 // Source of item: extraction or manual entry
 export const loadingListItemSource = ["extraction", "manual"] as const;
+export const loadingListItemCatalogStatus = ["known", "suspicious", "unknown"] as const;
+export type LoadingListItemCatalogStatus =
+  (typeof loadingListItemCatalogStatus)[number];
 
-// Loading list items - all extracted line items (no catalog validation)
+// Loading list items - all extracted line items, flagged against the catalog at save time
 export const loadingListItems = pgTable("loading_list_items", {
   id: uuid("id").primaryKey().defaultRandom(),
   groupId: uuid("group_id")
@@ -195,6 +239,16 @@ export const loadingListItems = pgTable("loading_list_items", {
   description: text("description"), // From AI extraction
   quantity: integer("quantity").notNull().default(1),
 
+  // Line metadata from extraction (where the item goes and alternative codes)
+  secondaryCode: text("secondary_code"),
+  internalCode: text("internal_code"),
+  room: text("room"),
+  endUser: text("end_user"),
+
+  // Catalog check at save time (null for items saved before validation existed)
+  catalogStatus: text("catalog_status", { enum: loadingListItemCatalogStatus }),
+  suggestedCode: text("suggested_code"), // Closest catalog article when suspicious
+
   // Source tracking
   source: text("source", { enum: loadingListItemSource })
     .notNull()
@@ -219,6 +273,7 @@ export const loadingListExtractionsRelations = relations(
     group: one(employeeCaptureGroups, {
       fields: [loadingListExtractions.groupId],
       references: [employeeCaptureGroups.id],
+      relationName: "groupExtractions",
     }),
     items: many(loadingListItems),
   })
@@ -239,6 +294,60 @@ export const loadingListItemsRelations = relations(
   })
 );
 
+// ============================================================================
+// Activity Ownership
+// ============================================================================
+
+// Group chosen to count an activity listed on more than one loading list
+export const activityOwners = pgTable(
+  "activity_owners",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    sessionId: uuid("session_id")
+      .notNull()
+      .references(() => sessions.id, { onDelete: "cascade" }),
+    activityCode: text("activity_code").notNull(),
+    groupId: uuid("group_id")
+      .notNull()
+      .references(() => employeeCaptureGroups.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [unique().on(table.sessionId, table.activityCode)]
+);
+
+export type ActivityOwner = typeof activityOwners.$inferSelect;
+export type NewActivityOwner = typeof activityOwners.$inferInsert;
+
+// ============================================================================
+// Demand Snapshot (Flow 2.4)
+// ============================================================================
+
+// JSON type for approved demand lines
+export type DemandSnapshotItemJson = {
+  productCode: string;
+  demandQty: number;
+  description: string | null;
+};
+
+// Demand as approved by the coordinator - the order is computed from this, so
+// later loading list changes only apply after re-approval
+export const demandSnapshots = pgTable("demand_snapshots", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  sessionId: uuid("session_id")
+    .notNull()
+    .unique()
+    .references(() => sessions.id, { onDelete: "cascade" }),
+  items: jsonb("items").$type<DemandSnapshotItemJson[]>().notNull(),
+  approvedAt: timestamp("approved_at", { withTimezone: true, mode: "string" })
+    .notNull()
+    .defaultNow(),
+});
+
+export type DemandSnapshot = typeof demandSnapshots.$inferSelect;
+export type NewDemandSnapshot = typeof demandSnapshots.$inferInsert;
+
 
 // ============================================================================
 // Station Capture (T6/T7)
@@ -261,12 +370,48 @@ export const matchStatusEnum = [
   "invalid_images",
 ] as const;
 
+// Count status of a single stock photo (as reported by the counting model)
+export const stockPhotoCountStatus = ["success", "warning", "error"] as const;
+
+// How several captures of the same product in a session are counted:
+// merge sums the stock of split stations, keep uses one capture and discards the rest
+export const stationDuplicateRule = ["merge", "keep"] as const;
+
+// Station registry - physical dock stations shared across sessions
+// (one per canonical product, kept up to date from valid captures)
+export const stations = pgTable("stations", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  productCode: text("product_code").notNull().unique(), // Canonical article number
+  minQty: integer("min_qty"),
+  maxQty: integer("max_qty"),
+  location: text("location"), // Free text, e.g. "Dock 2, rack B"
+  signBlobUrl: text("sign_blob_url"), // Latest sign photo
+  signReadAt: timestamp("sign_read_at", { withTimezone: true, mode: "string" }),
+  lastCountedAt: timestamp("last_counted_at", {
+    withTimezone: true,
+    mode: "string",
+  }),
+  createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
+    .notNull()
+    .defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true, mode: "string" })
+    .notNull()
+    .defaultNow(),
+});
+
+export type Station = typeof stations.$inferSelect;
+export type NewStation = typeof stations.$inferInsert;
+
 // Station capture table - one station = sign image + stock image
 export const stationCaptures = pgTable("station_captures", {
   id: uuid("id").primaryKey().defaultRandom(),
   sessionId: uuid("session_id")
     .notNull()
     .references(() => sessions.id, { onDelete: "cascade" }),
+  // Registry station this capture counted (linked after a valid extraction)
+  stationId: uuid("station_id").references(() => stations.id, {
+    onDelete: "set null",
+  }),
   status: text("status", { enum: stationCaptureStatus })
     .notNull()
     .default("pending"),
@@ -289,6 +434,9 @@ export const stationCaptures = pgTable("station_captures", {
     mode: "string",
   }),
 
+  // Product a guided capture asked for (the sign is checked against it)
+  expectedProductCode: text("expected_product_code"),
+
   // Extraction results (populated after AI extraction)
   productCode: text("product_code"),
   minQty: integer("min_qty"),
@@ -301,6 +449,8 @@ export const stationCaptures = pgTable("station_captures", {
   matchConfidence: real("match_confidence"),
   matchStatus: text("match_status", { enum: matchStatusEnum }),
   matchReason: text("match_reason"),
+  // How the stock was counted (from the counting model)
+  countingMethod: text("counting_method"),
 
   // Issues/warnings from extraction
   issues: jsonb("issues").$type<StationIssueJson[]>(),
@@ -325,16 +475,336 @@ export const stationCaptures = pgTable("station_captures", {
 export type StationIssueJson = {
   code: string;
   message: string;
+  // Catalog values, set on min/max discrepancies so either side can be picked
+  catalogMinQty?: number;
+  catalogMaxQty?: number;
 };
 
 export type StationCapture = typeof stationCaptures.$inferSelect;
 export type NewStationCapture = typeof stationCaptures.$inferInsert;
 
+// Stock photos of a station capture - wide or deep shelves take several photos,
+// each counted separately and summed into the capture's onHandQty.
+// The first photo (orderIndex 0) is mirrored in stationCaptures.stockBlobUrl.
+export const stationStockPhotos = pgTable(
+  "station_stock_photos",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    captureId: uuid("capture_id")
+      .notNull()
+      .references(() => stationCaptures.id, { onDelete: "cascade" }),
+    orderIndex: integer("order_index").notNull().default(0),
+    blobUrl: text("blob_url").notNull(),
+    width: integer("width"),
+    height: integer("height"),
+    uploadedAt: timestamp("uploaded_at", { withTimezone: true, mode: "string" })
+      .notNull()
+      .defaultNow(),
+    // Count of this photo alone (populated after extraction)
+    countStatus: text("count_status", { enum: stockPhotoCountStatus }),
+    onHandQty: integer("on_hand_qty"),
+    countConfidence: real("count_confidence"),
+    countingMethod: text("counting_method"),
+  },
+  (table) => [unique().on(table.captureId, table.orderIndex)]
+);
+
+export type StationStockPhoto = typeof stationStockPhotos.$inferSelect;
+export type NewStationStockPhoto = typeof stationStockPhotos.$inferInsert;
+
+// JSON type for the values a station override changes
+export type StationValuesJson = {
+  productCode: string | null;
+  onHandQty: number | null;
+  minQty: number | null;
+  maxQty: number | null;
+};
+
+// Manual corrections of a capture's values (audit trail - never updated)
+export const stationOverrides = pgTable("station_overrides", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  captureId: uuid("capture_id")
+    .notNull()
+    .references(() => stationCaptures.id, { onDelete: "cascade" }),
+  // Shared access code login has no user accounts - the editor gives a name
+  changedBy: text("changed_by").notNull(),
+  reason: text("reason").notNull(),
+  // Values before this change, after it, and as last read by the AI
+  previousValues: jsonb("previous_values").$type<StationValuesJson>().notNull(),
+  newValues: jsonb("new_values").$type<StationValuesJson>().notNull(),
+  aiValues: jsonb("ai_values").$type<StationValuesJson>().notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
+    .notNull()
+    .defaultNow(),
+});
+
+export type StationOverride = typeof stationOverrides.$inferSelect;
+export type NewStationOverride = typeof stationOverrides.$inferInsert;
+
+// User's choice for a product captured at more than one station in a session
+export const stationDuplicateResolutions = pgTable(
+  "station_duplicate_resolutions",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    sessionId: uuid("session_id")
+      .notNull()
+      .references(() => sessions.id, { onDelete: "cascade" }),
+    productCode: text("product_code").notNull(), // Canonical product ID
+    rule: text("rule", { enum: stationDuplicateRule }).notNull(),
+    // Capture that counts when the rule is keep (null for merge)
+    keepCaptureId: uuid("keep_capture_id").references(
+      () => stationCaptures.id,
+      { onDelete: "cascade" }
+    ),
+    createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [unique().on(table.sessionId, table.productCode)]
+);
+
+export type StationDuplicateResolution =
+  typeof stationDuplicateResolutions.$inferSelect;
+export type NewStationDuplicateResolution =
+  typeof stationDuplicateResolutions.$inferInsert;
+
 // Station capture relations
-export const stationCapturesRelations = relations(stationCaptures, ({ one }) => ({
+export const stationCapturesRelations = relations(
+  stationCaptures,
+  ({ one, many }) => ({
+    session: one(sessions, {
+      fields: [stationCaptures.sessionId],
+      references: [sessions.id],
+    }),
+    station: one(stations, {
+      fields: [stationCaptures.stationId],
+      references: [stations.id],
+    }),
+    stockPhotos: many(stationStockPhotos),
+    overrides: many(stationOverrides),
+  })
+);
+
+export const stationOverridesRelations = relations(
+  stationOverrides,
+  ({ one }) => ({
+    capture: one(stationCaptures, {
+      fields: [stationOverrides.captureId],
+      references: [stationCaptures.id],
+    }),
+  })
+);
+
+export const stationStockPhotosRelations = relations(
+  stationStockPhotos,
+  ({ one }) => ({
+    capture: one(stationCaptures, {
+      fields: [stationStockPhotos.captureId],
+      references: [stationCaptures.id],
+    }),
+  })
+);
+
+export const stationsRelations = relations(stations, ({ many }) => ({
+  captures: many(stationCaptures),
+}));
+
+
+// ============================================================================
+// Product Catalog
+// ============================================================================
+
+// How a product's order quantity is computed (lib/workflow/compute.ts):
+// cover demand only, top the station up to max, or reorder only when the stock
+// left after demand falls below min
+export const replenishmentPolicy = [
+  "demand_only",
+  "top_up_to_max",
+  "reorder_below_min",
+] as const;
+
+// How an order quantity is rounded to whole packs: always up, or to the
+// nearest pack (never below one pack or the minimum order quantity)
+export const packRounding = ["up", "nearest"] as const;
+
+// Products - master catalog (article number, description, station min/max)
+export const products = pgTable("products", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  articleNumber: text("article_number").notNull().unique(),
+  description: text("description").notNull(),
+  minQty: integer("min_qty").notNull().default(0),
+  maxQty: integer("max_qty").notNull().default(0),
+  replenishmentPolicy: text("replenishment_policy", { enum: replenishmentPolicy })
+    .notNull()
+    .default("demand_only"),
+  // Orderable quantities: whole packs of pack_size, at least min_order_qty
+  packSize: integer("pack_size").notNull().default(1),
+  minOrderQty: integer("min_order_qty").notNull().default(0),
+  packRounding: text("pack_rounding", { enum: packRounding })
+    .notNull()
+    .default("up"),
+  // Retired products stay for history but are no longer resolved or stocked
+  retiredAt: timestamp("retired_at", { withTimezone: true, mode: "string" }),
+  createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
+    .notNull()
+    .defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true, mode: "string" })
+    .notNull()
+    .defaultNow(),
+});
+
+export type ProductRow = typeof products.$inferSelect;
+export type NewProductRow = typeof products.$inferInsert;
+
+// Product aliases - alternative codes (JOE/GHA/ART/...) printed on loading
+// lists or signs that resolve to a catalog article (lib/products/aliases.ts)
+export const productAliases = pgTable("product_aliases", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  code: text("code").notNull().unique(),
+  productId: uuid("product_id")
+    .notNull()
+    .references(() => products.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
+    .notNull()
+    .defaultNow(),
+});
+
+export type ProductAliasRow = typeof productAliases.$inferSelect;
+
+export const productsRelations = relations(products, ({ many }) => ({
+  aliases: many(productAliases),
+}));
+
+export const productAliasesRelations = relations(productAliases, ({ one }) => ({
+  product: one(products, {
+    fields: [productAliases.productId],
+    references: [products.id],
+  }),
+}));
+
+// ============================================================================
+// Order Text Templates
+// ============================================================================
+
+// Named copy/paste order text formats per warehouse (the spec template is the
+// built-in default, see lib/workflow/order-text.ts for the placeholders)
+export const orderTemplates = pgTable("order_templates", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: text("name").notNull().unique(),
+  stockLocation: text("stock_location").notNull(),
+  headerFormat: text("header_format").notNull(),
+  lineFormat: text("line_format").notNull(), // One line per product
+  warningFormat: text("warning_format").notNull(), // Suffix for lines with warnings
+  createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
+    .notNull()
+    .defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true, mode: "string" })
+    .notNull()
+    .defaultNow(),
+});
+
+export type OrderTemplate = typeof orderTemplates.$inferSelect;
+export type NewOrderTemplate = typeof orderTemplates.$inferInsert;
+
+// ============================================================================
+// Order Adjustments
+// ============================================================================
+
+// Coordinator changes to the computed order - one row per change (history);
+// the newest row per product applies
+export const orderAdjustments = pgTable("order_adjustments", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  sessionId: uuid("session_id")
+    .notNull()
+    .references(() => sessions.id, { onDelete: "cascade" }),
+  productCode: text("product_code").notNull(), // Canonical product ID
+  // Quantity to order instead of the computed one (null = back to computed;
+  // a product not in demand is added as an extra line)
+  orderQty: integer("order_qty"),
+  // Shared access code login has no user accounts - the editor gives a name
+  changedBy: text("changed_by").notNull(),
+  reason: text("reason").notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
+    .notNull()
+    .defaultNow(),
+});
+
+export type OrderAdjustment = typeof orderAdjustments.$inferSelect;
+export type NewOrderAdjustment = typeof orderAdjustments.$inferInsert;
+
+// ============================================================================
+// Finalized Orders
+// ============================================================================
+
+// Finalized order lifecycle - transitions enforced server-side (lib/orders/status.ts)
+export const orderStatus = ["draft", "sent", "confirmed", "received"] as const;
+
+// What was asked of the warehouse - a snapshot taken when the session is
+// completed (or on "finalize order" for sessions completed before that).
+// Kept when the session is cleaned up (session_id is set null).
+export const orders = pgTable("orders", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  sessionId: uuid("session_id")
+    .unique()
+    .references(() => sessions.id, { onDelete: "set null" }),
+  // Session start, kept for when the session itself is gone
+  sessionCreatedAt: timestamp("session_created_at", {
+    withTimezone: true,
+    mode: "string",
+  }).notNull(),
+  status: text("status", { enum: orderStatus }).notNull().default("draft"),
+  finalizedAt: timestamp("finalized_at", { withTimezone: true, mode: "string" })
+    .notNull()
+    .defaultNow(),
+  sentAt: timestamp("sent_at", { withTimezone: true, mode: "string" }),
+  confirmedAt: timestamp("confirmed_at", { withTimezone: true, mode: "string" }),
+  receivedAt: timestamp("received_at", { withTimezone: true, mode: "string" }),
+});
+
+export type Order = typeof orders.$inferSelect;
+export type NewOrder = typeof orders.$inferInsert;
+
+// Order lines as computed when the order was finalized (never updated)
+export const orderLines = pgTable("order_lines", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  orderId: uuid("order_id")
+    .notNull()
+    .references(() => orders.id, { onDelete: "cascade" }),
+  productCode: text("product_code").notNull(),
+  productDescription: text("product_description"),
+  demandQty: integer("demand_qty").notNull(),
+  onHandQty: integer("on_hand_qty").notNull(),
+  minQty: integer("min_qty"),
+  maxQty: integer("max_qty"),
+  recommendedOrderQty: integer("recommended_order_qty").notNull(),
+  exceedsMax: boolean("exceeds_max").notNull(),
+  isCaptured: boolean("is_captured").notNull(), // false: pessimistic defaults
+  // Units needed before pack rounding (null for lines from before rounding)
+  unitNeedQty: integer("unit_need_qty"),
+  packSize: integer("pack_size"),
+  // Policy that produced the computed quantity (null for extra lines)
+  replenishmentPolicy: text("replenishment_policy", {
+    enum: replenishmentPolicy,
+  }),
+  // Set when a coordinator adjusted the line (null computed = extra line)
+  computedOrderQty: integer("computed_order_qty"),
+  adjustmentReason: text("adjustment_reason"),
+});
+
+export type OrderLine = typeof orderLines.$inferSelect;
+export type NewOrderLine = typeof orderLines.$inferInsert;
+
+export const ordersRelations = relations(orders, ({ one, many }) => ({
   session: one(sessions, {
-    fields: [stationCaptures.sessionId],
+    fields: [orders.sessionId],
     references: [sessions.id],
   }),
+  lines: many(orderLines),
 }));
 
+export const orderLinesRelations = relations(orderLines, ({ one }) => ({
+  order: one(orders, {
+    fields: [orderLines.orderId],
+    references: [orders.id],
+  }),
+}));
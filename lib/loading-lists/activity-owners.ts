@@ -0,0 +1,59 @@
+import { db } from "@/lib/db";
+import { activityOwners } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import {
+  applyActivityOwnership,
+  findDuplicateActivities,
+  type DuplicateActivity,
+  type GroupForComputation,
+} from "@/lib/workflow/compute";
+
+/**
+ * Coordinator's owner choices for a session (activity code → group id)
+ */
+export async function getActivityOwners(
+  sessionId: string
+): Promise<Map<string, string>> {
+  const rows = await db
+    .select()
+    .from(activityOwners)
+    .where(eq(activityOwners.sessionId, sessionId));
+
+  return new Map(rows.map((row) => [row.activityCode, row.groupId]));
+}
+
+/**
+ * Count each activity once: finds activities listed by several groups and keeps
+ * only the owner's items. Returns the deduplicated groups and the duplicates found.
+ */
+export async function dedupeSessionActivities(
+  sessionId: string,
+  groups: GroupForComputation[]
+): Promise<{ groups: GroupForComputation[]; duplicates: DuplicateActivity[] }> {
+  const duplicates = findDuplicateActivities(
+    groups,
+    await getActivityOwners(sessionId)
+  );
+
+  return {
+    groups: applyActivityOwnership(groups, duplicates),
+    duplicates,
+  };
+}
+
+/**
+ * Record which group owns an activity (replaces an earlier choice)
+ */
+export async function setActivityOwner(
+  sessionId: string,
+  activityCode: string,
+  groupId: string
+): Promise<void> {
+  await db
+    .insert(activityOwners)
+    .values({ sessionId, activityCode, groupId })
+    .onConflictDoUpdate({
+      target: [activityOwners.sessionId, activityOwners.activityCode],
+      set: { groupId },
+    });
+}
@@ -0,0 +1,289 @@
+import { db } from "@/lib/db";
+import {
+  employeeCaptureGroups,
+  loadingListExtractions,
+  loadingListItems,
+  type EmployeeCaptureGroup,
+  type LoadingListExtraction as LoadingListExtractionRow,
+  type LoadingListItem,
+} from "@/lib/db/schema";
+import { eq, sql } from "drizzle-orm";
+import type { LoadingListExtraction } from "@/lib/ai/schemas/loading-list-extraction";
+import type { GroupForComputation } from "@/lib/workflow/compute";
+import { loadCatalogChecker } from "@/lib/products/validation";
+
+// Concurrent runs on one group are rare; a few retries settle the version race
+const MAX_VERSION_ATTEMPTS = 3;
+
+export interface ExtractionMetadata {
+  model: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  totalCost?: number;
+}
+
+/**
+ * Group status implied by an extraction result
+ */
+function groupStatusFor(status: "success" | "warning" | "error") {
+  return status === "error" ? ("needs_attention" as const) : ("extracted" as const);
+}
+
+/**
+ * Save extraction as a new version and make it the group's active one.
+ * Previous versions and their items are kept for comparison and rollback.
+ */
+export async function saveExtraction(
+  groupId: string,
+  extraction: LoadingListExtraction,
+  metadata?: ExtractionMetadata
+): Promise<{ extractionId: string; version: number; itemCount: number }> {
+  // Next run number is computed inside the insert; a concurrent run that takes
+  // the same number hits the (group_id, version) constraint and we try again
+  let insertedExtraction: { id: string; version: number } | undefined;
+  for (
+    let attempt = 0;
+    !insertedExtraction && attempt < MAX_VERSION_ATTEMPTS;
+    attempt++
+  ) {
+    [insertedExtraction] = await db
+      .insert(loadingListExtractions)
+      .values({
+        groupId,
+        version: sql`(
+          select coalesce(max(${loadingListExtractions.version}), 0) + 1
+          from ${loadingListExtractions}
+          where ${loadingListExtractions.groupId} = ${groupId}
+        )`,
+        status: extraction.status,
+        message: extraction.message,
+        rawActivities: extraction.activities,
+        rawLineItems: extraction.lineItems,
+        summary: extraction.summary,
+        model: metadata?.model,
+        inputTokens: metadata?.inputTokens,
+        outputTokens: metadata?.outputTokens,
+        totalCost: metadata?.totalCost,
+      })
+      .onConflictDoNothing({
+        target: [loadingListExtractions.groupId, loadingListExtractions.version],
+      })
+      .returning({
+        id: loadingListExtractions.id,
+        version: loadingListExtractions.version,
+      });
+  }
+
+  if (!insertedExtraction) {
+    throw new Error("Could not allocate an extraction version");
+  }
+
+  const extractionId = insertedExtraction.id;
+
+  // Insert ALL items, flagging codes the catalog does not know
+  if (extraction.lineItems.length > 0) {
+    const checker = await loadCatalogChecker();
+    await db.insert(loadingListItems).values(
+      extraction.lineItems.map((item) => ({
+        ...checker.check(item.primaryCode, item.secondaryCode),
+        groupId,
+        extractionId,
+        activityCode: item.activityCode,
+        productCode: item.primaryCode,
+        description: item.description,
+        quantity: item.quantity,
+        secondaryCode: item.secondaryCode,
+        internalCode: item.internalCode,
+        room: item.room,
+        endUser: item.endUser,
+        source: "extraction" as const,
+      }))
+    );
+  }
+
+  await db
+    .update(employeeCaptureGroups)
+    .set({
+      activeExtractionId: extractionId,
+      status: groupStatusFor(extraction.status),
+    })
+    .where(eq(employeeCaptureGroups.id, groupId));
+
+  return {
+    extractionId,
+    version: insertedExtraction.version,
+    itemCount: extraction.lineItems.length,
+  };
+}
+
+/**
+ * Make an earlier extraction version active again (rollback)
+ */
+export async function activateExtraction(
+  groupId: string,
+  extraction: { id: string; status: "success" | "warning" | "error" }
+): Promise<void> {
+  await db
+    .update(employeeCaptureGroups)
+    .set({
+      activeExtractionId: extraction.id,
+      status: groupStatusFor(extraction.status),
+    })
+    .where(eq(employeeCaptureGroups.id, groupId));
+}
+
+/**
+ * Narrows a group's items to those of its active extraction version.
+ * Groups load every stored item; only the active version feeds demand and order.
+ */
+export function withActiveItems<
+  T extends {
+    activeExtractionId: string | null;
+    items: Pick<LoadingListItem, "extractionId">[];
+  },
+>(group: T): T {
+  return {
+    ...group,
+    items: group.activeExtractionId
+      ? group.items.filter(
+          (item) => item.extractionId === group.activeExtractionId
+        )
+      : [],
+  };
+}
+
+/**
+ * Maps a group loaded with its active extraction and items to the shape used by
+ * demand, coverage and order computation (only active-version items)
+ */
+export function toGroupForComputation(
+  group: EmployeeCaptureGroup & {
+    extraction: LoadingListExtractionRow | null;
+    items: LoadingListItem[];
+  }
+): GroupForComputation {
+  return {
+    id: group.id,
+    employeeLabel: group.employeeLabel,
+    extraction: group.extraction
+      ? {
+          status: group.extraction.status,
+          rawActivities: group.extraction.rawActivities,
+          summary: group.extraction.summary,
+          totalCost: group.extraction.totalCost,
+        }
+      : null,
+    items: withActiveItems(group).items.map((item) => ({
+      productCode: item.productCode,
+      quantity: item.quantity,
+      activityCode: item.activityCode,
+      description: item.description,
+      secondaryCode: item.secondaryCode,
+      internalCode: item.internalCode,
+      room: item.room,
+      endUser: item.endUser,
+    })),
+  };
+}
+
+// ============================================================================
+// Version Comparison
+// ============================================================================
+
+export type ExtractionItemChange = "added" | "removed" | "changed" | "unchanged";
+
+export interface ExtractionItemDiff {
+  activityCode: string;
+  productCode: string;
+  description: string | null;
+  baseQty: number;
+  targetQty: number;
+  change: ExtractionItemChange;
+}
+
+type ComparableItem = Pick<
+  LoadingListItem,
+  "activityCode" | "productCode" | "description" | "quantity"
+>;
+
+/**
+ * Items of a version as the AI extracted them. Manual additions and corrections
+ * change the version's stored items, so comparisons use the raw output and
+ * count manual edits separately.
+ */
+export function extractedItems(
+  extraction: Pick<LoadingListExtractionRow, "rawLineItems">
+): ComparableItem[] {
+  return extraction.rawLineItems.map((item) => ({
+    activityCode: item.activityCode,
+    productCode: item.primaryCode,
+    description: item.description ?? null,
+    quantity: item.quantity,
+  }));
+}
+
+/**
+ * Number of a version's items added or corrected by hand
+ */
+export function countManualEdits(items: Pick<LoadingListItem, "source">[]): number {
+  return items.filter((item) => item.source === "manual").length;
+}
+
+/**
+ * Sums quantities per activity + product (the same line may appear twice)
+ */
+function aggregateItems(items: ComparableItem[]) {
+  const map = new Map<string, ComparableItem>();
+  for (const item of items) {
+    const key = `${item.activityCode}|${item.productCode}`;
+    const existing = map.get(key);
+    if (existing) {
+      existing.quantity += item.quantity;
+    } else {
+      map.set(key, { ...item });
+    }
+  }
+  return map;
+}
+
+/**
+ * Item-by-item diff between two extraction versions, keyed by activity + product
+ */
+export function compareExtractionItems(
+  baseItems: ComparableItem[],
+  targetItems: ComparableItem[]
+): ExtractionItemDiff[] {
+  const base = aggregateItems(baseItems);
+  const target = aggregateItems(targetItems);
+  const keys = new Set([...base.keys(), ...target.keys()]);
+
+  const diffs: ExtractionItemDiff[] = [];
+  for (const key of keys) {
+    const b = base.get(key);
+    const t = target.get(key);
+    const item = (t ?? b)!;
+    const baseQty = b?.quantity ?? 0;
+    const targetQty = t?.quantity ?? 0;
+
+    diffs.push({
+      activityCode: item.activityCode,
+      productCode: item.productCode,
+      description: item.description,
+      baseQty,
+      targetQty,
+      change: !b
+        ? "added"
+        : !t
+          ? "removed"
+          : baseQty !== targetQty
+            ? "changed"
+            : "unchanged",
+    });
+  }
+
+  return diffs.sort(
+    (a, b) =>
+      a.activityCode.localeCompare(b.activityCode) ||
+      a.productCode.localeCompare(b.productCode)
+  );
+}
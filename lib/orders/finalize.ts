@@ -0,0 +1,78 @@
+import { db } from "@/lib/db";
+import { orderLines, orders, type Session } from "@/lib/db/schema";
+import { asc, desc, eq } from "drizzle-orm";
+import type { ComputedOrderItem } from "@/lib/workflow/compute";
+
+/**
+ * Finalized orders - what was asked of the warehouse, stored as computed at the
+ * time so it can be shown after the session is cleaned up.
+ */
+
+/**
+ * Store a session's computed order as its finalized order (status draft).
+ * Returns null when the session already has one - finalized orders are never
+ * recomputed.
+ */
+export async function finalizeOrder(
+  session: Pick<Session, "id" | "createdAt">,
+  items: ComputedOrderItem[]
+) {
+  const [order] = await db
+    .insert(orders)
+    .values({ sessionId: session.id, sessionCreatedAt: session.createdAt })
+    .onConflictDoNothing({ target: orders.sessionId })
+    .returning();
+
+  if (!order) return null;
+
+  try {
+    if (items.length > 0) {
+      await db.insert(orderLines).values(
+        items.map((item) => ({
+          orderId: order.id,
+          productCode: item.productCode,
+          productDescription: item.productDescription ?? null,
+          demandQty: item.demandQty,
+          onHandQty: item.onHandQty,
+          minQty: item.minQty,
+          maxQty: item.maxQty,
+          unitNeedQty: item.unitNeedQty,
+          recommendedOrderQty: item.recommendedOrderQty,
+          packSize: item.packSize,
+          exceedsMax: item.exceedsMax,
+          isCaptured: item.isCaptured,
+          replenishmentPolicy: item.policy,
+          computedOrderQty: item.adjustment?.computedOrderQty ?? null,
+          adjustmentReason: item.adjustment?.reason ?? null,
+        }))
+      );
+    }
+  } catch (error) {
+    // No transactions over HTTP - drop the order so finalizing can be retried
+    await db.delete(orders).where(eq(orders.id, order.id));
+    throw error;
+  }
+
+  return order;
+}
+
+/**
+ * A session's finalized order with its lines, null until finalized
+ */
+export async function getSessionOrder(sessionId: string) {
+  const order = await db.query.orders.findFirst({
+    where: eq(orders.sessionId, sessionId),
+    with: { lines: { orderBy: asc(orderLines.productCode) } },
+  });
+  return order ?? null;
+}
+
+/**
+ * All finalized orders with their lines, newest first
+ */
+export async function listOrders() {
+  return db.query.orders.findMany({
+    orderBy: desc(orders.finalizedAt),
+    with: { lines: { orderBy: asc(orderLines.productCode) } },
+  });
+}
@@ -0,0 +1,55 @@
+import type { orderStatus } from "@/lib/db/schema";
+
+/**
+ * Finalized order lifecycle.
+ * Pure logic only - safe to import from client components.
+ */
+
+export type OrderStatus = (typeof orderStatus)[number];
+
+/**
+ * Allowed transitions per status.
+ * Orders only move forward - what was sent cannot be taken back.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<
+  OrderStatus,
+  readonly OrderStatus[]
+> = {
+  draft: ["sent"],
+  sent: ["confirmed"],
+  confirmed: ["received"],
+  received: [],
+};
+
+/**
+ * Timestamp column set when an order reaches a status
+ */
+export const ORDER_STATUS_TIMESTAMP = {
+  sent: "sentAt",
+  confirmed: "confirmedAt",
+  received: "receivedAt",
+} as const;
+
+/**
+ * Check whether an order may move from one status to another
+ */
+export function canTransitionOrder(
+  from: OrderStatus,
+  to: OrderStatus
+): boolean {
+  return ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Next status of an order, null once received
+ */
+export function nextOrderStatus(status: OrderStatus): OrderStatus | null {
+  return ORDER_STATUS_TRANSITIONS[status][0] ?? null;
+}
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  draft: "Draft",
+  sent: "Sent",
+  confirmed: "Confirmed",
+  received: "Received",
+};
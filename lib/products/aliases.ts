@@ -0,0 +1,107 @@
+/**
+ * Product cross-references - maps alternative codes (JOE/GHA/ART/...) to the
+ * canonical product ID used for demand aggregation, station matching and ordering
+ */
+
+import { db } from "@/lib/db";
+import { productAliases, products } from "@/lib/db/schema";
+import { asc, eq, isNull } from "drizzle-orm";
+import { getProductCatalog } from "./catalog";
+
+export type ProductAlias = {
+  code: string; // Alternative code as printed on loading lists or signs
+  canonicalCode: string; // Catalog article number it resolves to
+};
+
+/**
+ * Load the aliases of active products (stored in product_aliases, managed from
+ * the catalog screen). Aliases of retired products no longer resolve.
+ */
+export async function getProductAliases(): Promise<ProductAlias[]> {
+  return db
+    .select({
+      code: productAliases.code,
+      canonicalCode: products.articleNumber,
+    })
+    .from(productAliases)
+    .innerJoin(products, eq(productAliases.productId, products.id))
+    .where(isNull(products.retiredAt))
+    .orderBy(asc(productAliases.code));
+}
+
+export type ProductMatch = "alias" | "catalog" | "secondary_code" | "unresolved";
+
+export type ProductResolution = {
+  canonicalCode: string;
+  matchedBy: ProductMatch;
+};
+
+export type ProductResolver = (
+  primaryCode: string,
+  secondaryCode?: string | null
+) => ProductResolution;
+
+/**
+ * Normalize a product code for lookup (AI output may vary in case/whitespace)
+ */
+export function normalizeProductCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Build a resolver over a set of catalog codes and aliases.
+ *
+ * Resolution order:
+ * 1. Primary code is an alias → its canonical product
+ * 2. Primary code is a catalog article → itself
+ * 3. Same two checks for the secondary code
+ * 4. Unresolved → primary code as-is (kept as its own demand line)
+ */
+export function createProductResolver(
+  catalogCodes: Iterable<string>,
+  aliases: ProductAlias[]
+): ProductResolver {
+  const catalog = new Set(Array.from(catalogCodes, normalizeProductCode));
+  const aliasMap = new Map(
+    aliases.map((a) => [
+      normalizeProductCode(a.code),
+      normalizeProductCode(a.canonicalCode),
+    ])
+  );
+
+  const lookup = (code: string): ProductResolution | null => {
+    const alias = aliasMap.get(code);
+    if (alias) return { canonicalCode: alias, matchedBy: "alias" };
+    if (catalog.has(code)) return { canonicalCode: code, matchedBy: "catalog" };
+    return null;
+  };
+
+  return (primaryCode, secondaryCode) => {
+    const primary = normalizeProductCode(primaryCode);
+    const byPrimary = lookup(primary);
+    if (byPrimary) return byPrimary;
+
+    if (secondaryCode) {
+      const bySecondary = lookup(normalizeProductCode(secondaryCode));
+      if (bySecondary) {
+        return { canonicalCode: bySecondary.canonicalCode, matchedBy: "secondary_code" };
+      }
+    }
+
+    return { canonicalCode: primary, matchedBy: "unresolved" };
+  };
+}
+
+/**
+ * Resolver over the current catalog and alias list (load once per request)
+ */
+export async function loadProductResolver(): Promise<ProductResolver> {
+  const [catalog, aliases] = await Promise.all([
+    getProductCatalog(),
+    getProductAliases(),
+  ]);
+  return createProductResolver(
+    catalog.map((p) => p.articleNumber),
+    aliases
+  );
+}
@@ -0,0 +1,251 @@
+/**
+ * Catalog CSV format - same columns as the warehouse master spreadsheet
+ * (products_en.csv): article number, description, min, max, followed by the
+ * optional order rule columns (policy, pack size, minimum order, rounding)
+ */
+
+import { packRounding, replenishmentPolicy } from "@/lib/db/schema";
+import type { ProductOrderRules } from "@/lib/workflow/compute";
+import type { Product } from "./catalog";
+
+// Order rule columns are optional (the warehouse spreadsheet has none) -
+// a rule that is not in the file keeps the stored value
+export type CatalogCsvProduct = Product & Partial<ProductOrderRules>;
+
+export type CatalogCsvError = {
+  line: number;
+  message: string;
+};
+
+const HEADER = ["articleNumber", "description", "minQty", "maxQty"] as const;
+const RULE_HEADER = [
+  "replenishmentPolicy",
+  "packSize",
+  "minOrderQty",
+  "packRounding",
+] as const;
+
+// Accepted header spellings per column (compared lower-case, without spaces/underscores)
+const HEADER_ALIASES: Record<
+  (typeof HEADER)[number] | (typeof RULE_HEADER)[number],
+  string[]
+> = {
+  articleNumber: ["articlenumber", "article", "articlenr", "code", "productcode"],
+  description: ["description", "omschrijving", "name"],
+  minQty: ["minqty", "min", "minimum"],
+  maxQty: ["maxqty", "max", "maximum"],
+  replenishmentPolicy: ["replenishmentpolicy", "policy", "replenishment"],
+  packSize: ["packsize", "pack"],
+  minOrderQty: ["minorderqty", "minorder", "moq"],
+  packRounding: ["packrounding", "rounding"],
+};
+
+function normalizeHeader(value: string): string {
+  return value.trim().toLowerCase().replace(/[\s_.-]/g, "");
+}
+
+/**
+ * Parse a min/max cell, null unless it is a whole number >= 0
+ */
+function parseQty(value: string | undefined): number | null {
+  if (!value) return null;
+  const qty = Number(value);
+  return Number.isInteger(qty) && qty >= 0 ? qty : null;
+}
+
+/**
+ * Split one CSV line into fields (supports quoted fields with "" escapes)
+ */
+function splitLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let current = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      fields.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+
+  return fields.map((f) => f.trim());
+}
+
+/**
+ * Parse a catalog CSV. Comma and semicolon delimiters are both accepted
+ * (spreadsheets in Dutch locale export with semicolons).
+ */
+export function parseCatalogCsv(text: string): {
+  products: CatalogCsvProduct[];
+  errors: CatalogCsvError[];
+} {
+  const lines = text
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/)
+    .map((line, index) => ({ line, number: index + 1 }))
+    .filter(({ line }) => line.trim() !== "");
+
+  if (lines.length === 0) {
+    return { products: [], errors: [{ line: 1, message: "File is empty" }] };
+  }
+
+  const headerLine = lines[0].line;
+  const delimiter =
+    headerLine.split(";").length > headerLine.split(",").length ? ";" : ",";
+  const header = splitLine(headerLine, delimiter).map(normalizeHeader);
+
+  const columnIndex = {} as Record<(typeof HEADER)[number], number>;
+  for (const column of HEADER) {
+    const index = header.findIndex((h) => HEADER_ALIASES[column].includes(h));
+    if (index === -1) {
+      return {
+        products: [],
+        errors: [{ line: 1, message: `Missing column: ${column}` }],
+      };
+    }
+    columnIndex[column] = index;
+  }
+
+  const ruleIndex = {} as Record<(typeof RULE_HEADER)[number], number>;
+  for (const column of RULE_HEADER) {
+    ruleIndex[column] = header.findIndex((h) =>
+      HEADER_ALIASES[column].includes(h)
+    );
+  }
+  // An empty cell (or a missing column) keeps the stored rule
+  const ruleCell = (fields: string[], column: (typeof RULE_HEADER)[number]) =>
+    ruleIndex[column] === -1 ? undefined : fields[ruleIndex[column]] || undefined;
+
+  const products: CatalogCsvProduct[] = [];
+  const errors: CatalogCsvError[] = [];
+  const seen = new Set<string>();
+
+  for (const { line, number } of lines.slice(1)) {
+    const fields = splitLine(line, delimiter);
+    const articleNumber = (fields[columnIndex.articleNumber] ?? "").toUpperCase();
+    const description = fields[columnIndex.description] ?? "";
+    const minQty = parseQty(fields[columnIndex.minQty]);
+    const maxQty = parseQty(fields[columnIndex.maxQty]);
+
+    if (!articleNumber) {
+      errors.push({ line: number, message: "Missing article number" });
+      continue;
+    }
+    if (seen.has(articleNumber)) {
+      errors.push({ line: number, message: `Duplicate article ${articleNumber}` });
+      continue;
+    }
+    if (!description) {
+      errors.push({ line: number, message: `${articleNumber}: missing description` });
+      continue;
+    }
+    if (minQty === null || maxQty === null) {
+      errors.push({
+        line: number,
+        message: `${articleNumber}: min/max must be whole numbers`,
+      });
+      continue;
+    }
+    if (minQty > maxQty) {
+      errors.push({
+        line: number,
+        message: `${articleNumber}: min is greater than max`,
+      });
+      continue;
+    }
+
+    const policyCell = ruleCell(fields, "replenishmentPolicy");
+    const policy = replenishmentPolicy.find((p) => p === policyCell);
+    if (policyCell && !policy) {
+      errors.push({
+        line: number,
+        message: `${articleNumber}: policy must be one of ${replenishmentPolicy.join(", ")}`,
+      });
+      continue;
+    }
+    const roundingCell = ruleCell(fields, "packRounding");
+    const rounding = packRounding.find((r) => r === roundingCell);
+    if (roundingCell && !rounding) {
+      errors.push({
+        line: number,
+        message: `${articleNumber}: rounding must be one of ${packRounding.join(", ")}`,
+      });
+      continue;
+    }
+    const packSizeCell = ruleCell(fields, "packSize");
+    const packSize = parseQty(packSizeCell);
+    if (packSizeCell && (packSize === null || packSize < 1)) {
+      errors.push({
+        line: number,
+        message: `${articleNumber}: pack size must be a whole number of at least 1`,
+      });
+      continue;
+    }
+    const minOrderCell = ruleCell(fields, "minOrderQty");
+    const minOrderQty = parseQty(minOrderCell);
+    if (minOrderCell && minOrderQty === null) {
+      errors.push({
+        line: number,
+        message: `${articleNumber}: minimum order must be a whole number`,
+      });
+      continue;
+    }
+
+    seen.add(articleNumber);
+    products.push({
+      articleNumber,
+      description,
+      minQty,
+      maxQty,
+      ...(policy && { replenishmentPolicy: policy }),
+      ...(packSize !== null && { packSize }),
+      ...(minOrderQty !== null && { minOrderQty }),
+      ...(rounding && { packRounding: rounding }),
+    });
+  }
+
+  return { products, errors };
+}
+
+function escapeField(value: string | number): string {
+  const text = String(value);
+  return /[",;\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize the catalog to CSV (re-importable with parseCatalogCsv)
+ */
+export function serializeCatalogCsv(
+  products: (Product & ProductOrderRules)[]
+): string {
+  const rows = products.map((p) =>
+    [
+      p.articleNumber,
+      p.description,
+      p.minQty,
+      p.maxQty,
+      p.replenishmentPolicy,
+      p.packSize,
+      p.minOrderQty,
+      p.packRounding,
+    ]
+      .map(escapeField)
+      .join(",")
+  );
+  return [[...HEADER, ...RULE_HEADER].join(","), ...rows].join("\n") + "\n";
+}
@@ -0,0 +1,153 @@
+import { db } from "@/lib/db";
+import { products, type ProductRow } from "@/lib/db/schema";
+import type { BatchItem } from "drizzle-orm/batch";
+import { eq, inArray } from "drizzle-orm";
+import type { Product } from "./catalog";
+import type { CatalogCsvProduct } from "./csv";
+
+// Catalog fields an import can change
+const CATALOG_FIELDS = [
+  "description",
+  "minQty",
+  "maxQty",
+  "replenishmentPolicy",
+  "packSize",
+  "minOrderQty",
+  "packRounding",
+] as const;
+
+type CatalogFields = Pick<ProductRow, (typeof CATALOG_FIELDS)[number]>;
+
+export type CatalogChange = {
+  articleNumber: string;
+  description: string;
+  before: CatalogFields;
+  after: CatalogFields;
+};
+
+export type CatalogDiff = {
+  added: CatalogCsvProduct[]; // New articles (or retired ones coming back)
+  changed: CatalogChange[]; // Description, min/max or order rules differ
+  removed: Product[]; // Active articles missing from the file (will be retired)
+  unchangedCount: number;
+};
+
+function pickCatalogFields(product: CatalogFields): CatalogFields {
+  return {
+    description: product.description,
+    minQty: product.minQty,
+    maxQty: product.maxQty,
+    replenishmentPolicy: product.replenishmentPolicy,
+    packSize: product.packSize,
+    minOrderQty: product.minOrderQty,
+    packRounding: product.packRounding,
+  };
+}
+
+/**
+ * Compare the stored catalog with an imported file. Order rules missing from
+ * the file keep their stored values.
+ */
+export function diffCatalog(
+  current: ProductRow[],
+  incoming: CatalogCsvProduct[]
+): CatalogDiff {
+  const currentByCode = new Map(current.map((p) => [p.articleNumber, p]));
+  const incomingCodes = new Set(incoming.map((p) => p.articleNumber));
+
+  const added: CatalogCsvProduct[] = [];
+  const changed: CatalogChange[] = [];
+  let unchangedCount = 0;
+
+  for (const product of incoming) {
+    const existing = currentByCode.get(product.articleNumber);
+
+    if (!existing || existing.retiredAt) {
+      added.push(product);
+      continue;
+    }
+
+    const before = pickCatalogFields(existing);
+    const after: CatalogFields = {
+      ...before,
+      description: product.description,
+      minQty: product.minQty,
+      maxQty: product.maxQty,
+      replenishmentPolicy:
+        product.replenishmentPolicy ?? before.replenishmentPolicy,
+      packSize: product.packSize ?? before.packSize,
+      minOrderQty: product.minOrderQty ?? before.minOrderQty,
+      packRounding: product.packRounding ?? before.packRounding,
+    };
+
+    if (CATALOG_FIELDS.some((field) => before[field] !== after[field])) {
+      changed.push({
+        articleNumber: product.articleNumber,
+        description: product.description,
+        before,
+        after,
+      });
+    } else {
+      unchangedCount++;
+    }
+  }
+
+  const removed = current
+    .filter((p) => !p.retiredAt && !incomingCodes.has(p.articleNumber))
+    .map((p) => ({
+      articleNumber: p.articleNumber,
+      description: p.description,
+      minQty: p.minQty,
+      maxQty: p.maxQty,
+    }));
+
+  return { added, changed, removed, unchangedCount };
+}
+
+/**
+ * Apply a catalog diff: insert/restore added, update changed, retire removed.
+ * All statements run in one batch, so the import is applied completely or not at all.
+ */
+export async function applyCatalogDiff(diff: CatalogDiff): Promise<void> {
+  const now = new Date().toISOString();
+  const queries: BatchItem<"pg">[] = [];
+
+  for (const product of diff.added) {
+    queries.push(
+      db
+        .insert(products)
+        .values(product)
+        .onConflictDoUpdate({
+          target: products.articleNumber,
+          set: { ...product, retiredAt: null, updatedAt: now },
+        })
+    );
+  }
+
+  for (const change of diff.changed) {
+    queries.push(
+      db
+        .update(products)
+        .set({ ...change.after, updatedAt: now })
+        .where(eq(products.articleNumber, change.articleNumber))
+    );
+  }
+
+  if (diff.removed.length > 0) {
+    queries.push(
+      db
+        .update(products)
+        .set({ retiredAt: now, updatedAt: now })
+        .where(
+          inArray(
+            products.articleNumber,
+            diff.removed.map((p) => p.articleNumber)
+          )
+        )
+    );
+  }
+
+  const [first, ...rest] = queries;
+  if (!first) return;
+  await db.batch([first, ...rest]);
+}
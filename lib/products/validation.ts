@@ -0,0 +1,154 @@
+/**
+ * Catalog validation for extracted codes - flags codes that do not resolve to a
+ * catalog product and suggests the closest article (OCR misreads like ART.10013)
+ */
+
+import type { LoadingListItemCatalogStatus } from "@/lib/db/schema";
+import type { ComputedDemandItem } from "@/lib/workflow/compute";
+import { getProductCatalog } from "./catalog";
+import {
+  createProductResolver,
+  getProductAliases,
+  normalizeProductCode,
+  type ProductAlias,
+  type ProductResolver,
+} from "./aliases";
+
+// Codes further than this many edits from every article get no suggestion
+const MAX_SUGGESTION_DISTANCE = 2;
+
+export type CatalogCheck = {
+  catalogStatus: LoadingListItemCatalogStatus;
+  suggestedCode: string | null;
+};
+
+export type CatalogChecker = {
+  resolve: ProductResolver;
+  check: (primaryCode: string, secondaryCode?: string | null) => CatalogCheck;
+  suggest: (code: string) => string | null;
+};
+
+/**
+ * Levenshtein edit distance (insert, delete, substitute)
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Closest catalog article within MAX_SUGGESTION_DISTANCE edits (ties go to the
+ * alphabetically first article), null when nothing is close enough
+ */
+export function suggestProductCode(
+  code: string,
+  catalogCodes: string[]
+): string | null {
+  const target = normalizeProductCode(code);
+  let best: { code: string; distance: number } | null = null;
+
+  for (const candidate of catalogCodes) {
+    // Length difference is a lower bound on the distance
+    if (Math.abs(candidate.length - target.length) > MAX_SUGGESTION_DISTANCE) {
+      continue;
+    }
+    const distance = editDistance(target, candidate);
+    if (
+      distance <= MAX_SUGGESTION_DISTANCE &&
+      (!best ||
+        distance < best.distance ||
+        (distance === best.distance && candidate < best.code))
+    ) {
+      best = { code: candidate, distance };
+    }
+  }
+
+  return best?.code ?? null;
+}
+
+/**
+ * Build a checker over a set of catalog codes and aliases.
+ *
+ * - known: resolves via alias, catalog or secondary code
+ * - suspicious: unresolved, but a close catalog article exists (likely misread)
+ * - unknown: unresolved and nothing close in the catalog
+ */
+export function createCatalogChecker(
+  catalogCodes: Iterable<string>,
+  aliases: ProductAlias[]
+): CatalogChecker {
+  const codes = Array.from(catalogCodes, normalizeProductCode).sort();
+  const resolve = createProductResolver(codes, aliases);
+  const suggest = (code: string) => suggestProductCode(code, codes);
+
+  return {
+    resolve,
+    suggest,
+    check: (primaryCode, secondaryCode) => {
+      const { matchedBy } = resolve(primaryCode, secondaryCode);
+      if (matchedBy !== "unresolved") {
+        return { catalogStatus: "known", suggestedCode: null };
+      }
+
+      const suggestedCode = suggest(primaryCode);
+      return {
+        catalogStatus: suggestedCode ? "suspicious" : "unknown",
+        suggestedCode,
+      };
+    },
+  };
+}
+
+/**
+ * Checker over the current catalog and alias list (load once per request)
+ */
+export async function loadCatalogChecker(): Promise<CatalogChecker> {
+  const [catalog, aliases] = await Promise.all([
+    getProductCatalog(),
+    getProductAliases(),
+  ]);
+  return createCatalogChecker(
+    catalog.map((p) => p.articleNumber),
+    aliases
+  );
+}
+
+export type UnresolvedDemandCode = {
+  productCode: string;
+  demandQty: number;
+  suggestedCode: string | null;
+  employeeLabels: string[];
+};
+
+/**
+ * Demand lines whose code did not resolve to a catalog product
+ * (these are ordered under the raw code unless corrected)
+ */
+export function collectUnresolvedDemand(
+  demandItems: ComputedDemandItem[],
+  checker: CatalogChecker
+): UnresolvedDemandCode[] {
+  return demandItems
+    .filter((item) => item.sources.every((s) => s.matchedBy === "unresolved"))
+    .map((item) => ({
+      productCode: item.productCode,
+      demandQty: item.demandQty,
+      suggestedCode: checker.suggest(item.productCode),
+      employeeLabels: Array.from(
+        new Set(item.sources.map((s) => s.employeeLabel ?? "Group"))
+      ),
+    }));
+}
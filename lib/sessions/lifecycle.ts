@@ -0,0 +1,34 @@
+import { db } from "@/lib/db";
+import { sessions } from "@/lib/db/schema";
+import { and, eq } from "drizzle-orm";
+import { isSessionReadOnly } from "./status";
+
+/**
+ * Error returned by mutating routes when the session is already completed
+ */
+export const SESSION_LOCKED_ERROR =
+  "Session is completed and can no longer be modified";
+
+/**
+ * Returns true if the session exists and no longer accepts writes.
+ * Missing sessions are not reported as locked - callers handle 404 themselves.
+ */
+export async function isSessionLocked(sessionId: string): Promise<boolean> {
+  const session = await db.query.sessions.findFirst({
+    where: eq(sessions.id, sessionId),
+    columns: { status: true },
+  });
+
+  return !!session && isSessionReadOnly(session.status);
+}
+
+/**
+ * Moves a draft session into loading list capture.
+ * Called when the first group is created; no-op for any other status.
+ */
+export async function startLoadingListCapture(sessionId: string): Promise<void> {
+  await db
+    .update(sessions)
+    .set({ status: "capturing_loading_lists" })
+    .where(and(eq(sessions.id, sessionId), eq(sessions.status, "draft")));
+}
@@ -0,0 +1,65 @@
+import type { sessionPhase, sessionStatus } from "@/lib/db/schema";
+
+/**
+ * Session lifecycle state machine (FR-3).
+ * Pure logic only - safe to import from client components.
+ */
+
+export type SessionStatus = (typeof sessionStatus)[number];
+export type SessionPhase = (typeof sessionPhase)[number];
+
+/**
+ * Allowed transitions per status.
+ * Sessions move forward one step at a time, or back one step to reopen the
+ * previous capture/review phase. `completed` is terminal.
+ */
+export const SESSION_STATUS_TRANSITIONS: Record<
+  SessionStatus,
+  readonly SessionStatus[]
+> = {
+  draft: ["capturing_loading_lists"],
+  capturing_loading_lists: ["review_demand"],
+  review_demand: ["capturing_inventory", "capturing_loading_lists"],
+  capturing_inventory: ["review_order", "review_demand"],
+  review_order: ["completed", "capturing_inventory"],
+  completed: [],
+};
+
+/**
+ * Workflow phase (page) a session is resumed on for each status
+ */
+export const SESSION_STATUS_PHASE: Record<SessionStatus, SessionPhase> = {
+  draft: "loading-lists",
+  capturing_loading_lists: "loading-lists",
+  review_demand: "demand",
+  capturing_inventory: "inventory",
+  review_order: "order",
+  completed: "order",
+};
+
+/**
+ * Statuses past demand review - the order is computed from approved demand,
+ * so a session only gets here once its demand is approved
+ */
+export const DEMAND_APPROVED_STATUSES: readonly SessionStatus[] = [
+  "capturing_inventory",
+  "review_order",
+  "completed",
+];
+
+/**
+ * Check whether a session may move from one status to another
+ */
+export function canTransitionSession(
+  from: SessionStatus,
+  to: SessionStatus
+): boolean {
+  return SESSION_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Completed sessions are read-only - no captures, extractions or deletes
+ */
+export function isSessionReadOnly(status: SessionStatus): boolean {
+  return status === "completed";
+}
@@ -0,0 +1,207 @@
+/**
+ * Sign versus catalog check - flags captures whose sign min/max disagree with
+ * the catalog article, or whose code is not in the catalog at all. Guided
+ * captures are also checked against the product they were taken for.
+ */
+
+import { db } from "@/lib/db";
+import {
+  products,
+  stationCaptures,
+  stations,
+  type StationCapture,
+  type StationIssueJson,
+} from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { getProductsByCode, type Product } from "@/lib/products/catalog";
+import { loadCatalogChecker, type CatalogChecker } from "@/lib/products/validation";
+import {
+  MIN_MAX_MISMATCH_ISSUE,
+  NOT_IN_CATALOG_ISSUE,
+  UNEXPECTED_PRODUCT_ISSUE,
+} from "./issues";
+
+const CATALOG_ISSUE_CODES = [
+  NOT_IN_CATALOG_ISSUE,
+  MIN_MAX_MISMATCH_ISSUE,
+  UNEXPECTED_PRODUCT_ISSUE,
+];
+
+/** Which side of a min/max discrepancy is authoritative */
+export type MinMaxSource = "sign" | "catalog";
+
+/**
+ * Catalog issues for a capture (none until a product code was read)
+ */
+export function detectCatalogIssues(
+  capture: Pick<StationCapture, "productCode" | "minQty" | "maxQty">,
+  productsByCode: Map<string, Product>,
+  checker: CatalogChecker
+): StationIssueJson[] {
+  if (!capture.productCode) return [];
+
+  const { canonicalCode, matchedBy } = checker.resolve(capture.productCode);
+  const product = productsByCode.get(canonicalCode);
+
+  if (matchedBy === "unresolved" || !product) {
+    const suggestedCode = checker.suggest(capture.productCode);
+    return [
+      {
+        code: NOT_IN_CATALOG_ISSUE,
+        message: suggestedCode
+          ? `${capture.productCode} is not in the catalog - did you mean ${suggestedCode}?`
+          : `${capture.productCode} is not in the catalog`,
+      },
+    ];
+  }
+
+  // Only compare values the sign actually showed
+  const minDiffers = capture.minQty !== null && capture.minQty !== product.minQty;
+  const maxDiffers = capture.maxQty !== null && capture.maxQty !== product.maxQty;
+  if (!minDiffers && !maxDiffers) return [];
+
+  return [
+    {
+      code: MIN_MAX_MISMATCH_ISSUE,
+      message: `Sign shows min ${capture.minQty ?? "?"} / max ${capture.maxQty ?? "?"}, catalog has min ${product.minQty} / max ${product.maxQty}`,
+      catalogMinQty: product.minQty,
+      catalogMaxQty: product.maxQty,
+    },
+  ];
+}
+
+/**
+ * Issue when a guided capture's sign shows another product than expected
+ * (aliases of the expected product count as the same product)
+ */
+export function detectExpectedProductIssues(
+  capture: Pick<StationCapture, "productCode" | "expectedProductCode">,
+  checker: CatalogChecker
+): StationIssueJson[] {
+  if (!capture.productCode || !capture.expectedProductCode) return [];
+
+  const { canonicalCode } = checker.resolve(capture.productCode);
+  if (canonicalCode === capture.expectedProductCode) return [];
+
+  return [
+    {
+      code: UNEXPECTED_PRODUCT_ISSUE,
+      message: `Sign shows ${capture.productCode}, but this capture was for ${capture.expectedProductCode}`,
+    },
+  ];
+}
+
+/**
+ * Replace the catalog issues of a capture, keeping issues from other checks
+ */
+function mergeCatalogIssues(
+  existing: StationIssueJson[] | null,
+  catalogIssues: StationIssueJson[]
+): StationIssueJson[] | null {
+  const issues = [
+    ...(existing ?? []).filter((i) => !CATALOG_ISSUE_CODES.includes(i.code)),
+    ...catalogIssues,
+  ];
+  return issues.length > 0 ? issues : null;
+}
+
+/**
+ * Re-run the catalog check for a capture after extraction and store the result
+ */
+export async function refreshCatalogIssues(captureId: string): Promise<void> {
+  const capture = await db.query.stationCaptures.findFirst({
+    where: eq(stationCaptures.id, captureId),
+  });
+  if (!capture) return;
+
+  const [productsByCode, checker] = await Promise.all([
+    getProductsByCode(),
+    loadCatalogChecker(),
+  ]);
+
+  await db
+    .update(stationCaptures)
+    .set({
+      issues: mergeCatalogIssues(capture.issues, [
+        ...detectCatalogIssues(capture, productsByCode, checker),
+        ...detectExpectedProductIssues(capture, checker),
+      ]),
+    })
+    .where(eq(stationCaptures.id, captureId));
+}
+
+/**
+ * Settle a min/max discrepancy by picking the authoritative side.
+ *
+ * - sign: the catalog article takes the sign values (the sign was updated)
+ * - catalog: the capture and its registry station take the catalog values
+ *
+ * Returns an error when the capture has no min/max discrepancy, or when the
+ * merged values would leave min above max (a sign may carry only one of them).
+ */
+export async function resolveMinMaxDiscrepancy(
+  capture: StationCapture,
+  source: MinMaxSource
+): Promise<{ station: StationCapture } | { error: string }> {
+  const issue = capture.issues?.find((i) => i.code === MIN_MAX_MISMATCH_ISSUE);
+  if (!issue || !capture.productCode) {
+    return { error: "Station has no min/max discrepancy" };
+  }
+
+  const checker = await loadCatalogChecker();
+  const { canonicalCode } = checker.resolve(capture.productCode);
+  const now = new Date().toISOString();
+
+  let minQty = capture.minQty;
+  let maxQty = capture.maxQty;
+
+  if (source === "sign") {
+    const product = await db.query.products.findFirst({
+      where: eq(products.articleNumber, canonicalCode),
+    });
+    if (!product) {
+      return { error: "Catalog article not found" };
+    }
+    if ((minQty ?? product.minQty) > (maxQty ?? product.maxQty)) {
+      return { error: "Sign values would leave the catalog min above max" };
+    }
+
+    await db
+      .update(products)
+      .set({
+        ...(minQty !== null ? { minQty } : {}),
+        ...(maxQty !== null ? { maxQty } : {}),
+        updatedAt: now,
+      })
+      .where(eq(products.id, product.id));
+  } else {
+    minQty = issue.catalogMinQty ?? minQty;
+    maxQty = issue.catalogMaxQty ?? maxQty;
+    if (minQty !== null && maxQty !== null && minQty > maxQty) {
+      return { error: "Catalog values would leave the station min above max" };
+    }
+    // Stock-only captures of this station must not bring the sign values back
+    if (capture.stationId) {
+      await db
+        .update(stations)
+        .set({ minQty, maxQty, updatedAt: now })
+        .where(eq(stations.id, capture.stationId));
+    }
+  }
+
+  // Only the discrepancy is settled - other sign checks still apply
+  const remainingIssues = capture.issues!.filter(
+    (i) => i.code !== MIN_MAX_MISMATCH_ISSUE
+  );
+  const [updated] = await db
+    .update(stationCaptures)
+    .set({
+      minQty,
+      maxQty,
+      issues: remainingIssues.length > 0 ? remainingIssues : null,
+    })
+    .where(eq(stationCaptures.id, capture.id))
+    .returning();
+
+  return { station: updated };
+}
@@ -0,0 +1,136 @@
+/**
+ * Station extraction confidence - turns the sign and stock results into the
+ * persisted confidence, match and issue fields, and sends low-confidence reads
+ * to review instead of marking them valid
+ */
+
+import type { StationExtraction } from "@/lib/ai/schemas/station-extraction";
+import type { NewStationCapture, StationIssueJson } from "@/lib/db/schema";
+import {
+  LOW_COUNT_CONFIDENCE_ISSUE,
+  LOW_SIGN_CONFIDENCE_ISSUE,
+  STOCK_MATCH_UNCERTAIN_ISSUE,
+  STOCK_MISMATCH_ISSUE,
+} from "./issues";
+
+export type ConfidenceLevel = "high" | "medium" | "low";
+
+// Models report levels, the confidence columns store scores
+const CONFIDENCE_SCORES: Record<ConfidenceLevel, number> = {
+  high: 0.9,
+  medium: 0.6,
+  low: 0.3,
+};
+
+// Scores below this go to review
+export const REVIEW_CONFIDENCE_THRESHOLD = 0.5;
+
+/**
+ * Confidence level for a stored score (null when nothing was scored)
+ */
+export function confidenceLevel(score: number | null): ConfidenceLevel | null {
+  if (score === null) return null;
+  if (score >= CONFIDENCE_SCORES.high) return "high";
+  if (score >= CONFIDENCE_SCORES.medium) return "medium";
+  return "low";
+}
+
+/**
+ * Stored score for a model confidence level (null when nothing was scored)
+ */
+export function confidenceScore(
+  level: ConfidenceLevel | null | undefined
+): number | null {
+  return level ? CONFIDENCE_SCORES[level] : null;
+}
+
+export type StationAssessment = Required<
+  Pick<
+    NewStationCapture,
+    | "status"
+    | "errorMessage"
+    | "signConfidence"
+    | "stockCountConfidence"
+    | "matchConfidence"
+    | "matchStatus"
+    | "matchReason"
+    | "countingMethod"
+    | "issues"
+  >
+>;
+
+/**
+ * Persisted fields for an extraction result.
+ *
+ * - error: failed, images marked invalid
+ * - warning: needs attention
+ * - success: valid, unless the sign or the count has low confidence or the
+ *   stock was not verified to be the sign's product
+ */
+export function assessStationExtraction(
+  extraction: StationExtraction
+): StationAssessment {
+  const signConfidence = confidenceScore(extraction.signConfidence);
+  const stockCountConfidence = confidenceScore(extraction.stockConfidence);
+
+  const issues: StationIssueJson[] = [];
+  if (signConfidence !== null && signConfidence < REVIEW_CONFIDENCE_THRESHOLD) {
+    issues.push({
+      code: LOW_SIGN_CONFIDENCE_ISSUE,
+      message: "The sign was hard to read - check the product code and min/max",
+    });
+  }
+  if (
+    stockCountConfidence !== null &&
+    stockCountConfidence < REVIEW_CONFIDENCE_THRESHOLD
+  ) {
+    issues.push({
+      code: LOW_COUNT_CONFIDENCE_ISSUE,
+      message: extraction.countingMethod
+        ? `The count is an estimate (${extraction.countingMethod}) - check it against the photo`
+        : "The count is an estimate - check it against the photo",
+    });
+  }
+
+  if (extraction.matchStatus === "mismatch") {
+    issues.push({
+      code: STOCK_MISMATCH_ISSUE,
+      message: extraction.matchReason
+        ? `The stock does not look like the product on the sign: ${extraction.matchReason}`
+        : "The stock does not look like the product on the sign",
+    });
+  } else if (extraction.matchStatus === "uncertain") {
+    issues.push({
+      code: STOCK_MATCH_UNCERTAIN_ISSUE,
+      message: extraction.matchReason
+        ? `Could not confirm the stock is the product on the sign: ${extraction.matchReason}`
+        : "Could not confirm the stock is the product on the sign",
+    });
+  }
+
+  const status =
+    extraction.status === "error"
+      ? "failed"
+      : extraction.status === "warning" || issues.length > 0
+        ? "needs_attention"
+        : "valid";
+
+  return {
+    status,
+    errorMessage:
+      extraction.status !== "success" ? (extraction.message ?? null) : null,
+    signConfidence,
+    stockCountConfidence,
+    matchConfidence: confidenceScore(extraction.matchConfidence),
+    matchStatus:
+      extraction.status === "error"
+        ? "invalid_images"
+        : (extraction.matchStatus ?? null),
+    matchReason:
+      extraction.status === "error"
+        ? (extraction.message ?? null)
+        : (extraction.matchReason ?? null),
+    countingMethod: extraction.countingMethod ?? null,
+    issues: issues.length > 0 ? issues : null,
+  };
+}
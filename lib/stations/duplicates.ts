@@ -0,0 +1,77 @@
+import { db } from "@/lib/db";
+import {
+  stationDuplicateResolutions,
+  type StationCapture,
+  type StationDuplicateResolution,
+} from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import {
+  applyStationResolutions,
+  findDuplicateStations,
+  type DuplicateStation,
+} from "@/lib/workflow/compute";
+import type { ProductResolver } from "@/lib/products/aliases";
+
+/**
+ * User's duplicate station choices for a session (product code → rule)
+ */
+export async function getStationResolutions(
+  sessionId: string
+): Promise<
+  Map<string, Pick<StationDuplicateResolution, "rule" | "keepCaptureId">>
+> {
+  const rows = await db
+    .select()
+    .from(stationDuplicateResolutions)
+    .where(eq(stationDuplicateResolutions.sessionId, sessionId));
+
+  return new Map(
+    rows.map((row) => [
+      row.productCode,
+      { rule: row.rule, keepCaptureId: row.keepCaptureId },
+    ])
+  );
+}
+
+/**
+ * Count each product's stock once: finds products captured at several stations
+ * and applies the merge or keep rule. Returns the stations the order uses and
+ * the duplicates found.
+ */
+export async function dedupeSessionStations(
+  sessionId: string,
+  stations: StationCapture[],
+  resolve: ProductResolver
+): Promise<{ stations: StationCapture[]; duplicates: DuplicateStation[] }> {
+  const duplicates = findDuplicateStations(
+    stations,
+    resolve,
+    await getStationResolutions(sessionId)
+  );
+
+  return {
+    stations: applyStationResolutions(stations, duplicates, resolve),
+    duplicates,
+  };
+}
+
+/**
+ * Record how a duplicated product counts (replaces an earlier choice)
+ */
+export async function setStationResolution(
+  sessionId: string,
+  productCode: string,
+  rule: StationDuplicateResolution["rule"],
+  keepCaptureId: string | null
+): Promise<void> {
+  await db
+    .insert(stationDuplicateResolutions)
+    .values({ sessionId, productCode, rule, keepCaptureId })
+    .onConflictDoUpdate({
+      target: [
+        stationDuplicateResolutions.sessionId,
+        stationDuplicateResolutions.productCode,
+      ],
+      set: { rule, keepCaptureId },
+    });
+}
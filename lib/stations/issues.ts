@@ -0,0 +1,32 @@
+/**
+ * Station issue codes stored in station_captures.issues (shared with the UI)
+ */
+
+/** The product code read from the sign is not a catalog article */
+export const NOT_IN_CATALOG_ISSUE = "not_in_catalog";
+
+/** Sign min/max differ from the catalog article */
+export const MIN_MAX_MISMATCH_ISSUE = "catalog_min_max_mismatch";
+
+/** The sign was read with low confidence - min/max need a check */
+export const LOW_SIGN_CONFIDENCE_ISSUE = "low_sign_confidence";
+
+/** The stock was counted with low confidence - the count needs a check */
+export const LOW_COUNT_CONFIDENCE_ISSUE = "low_count_confidence";
+
+/** The stock photo shows a different product than the sign */
+export const STOCK_MISMATCH_ISSUE = "stock_mismatch";
+
+/** Could not tell whether the stock photo shows the sign's product */
+export const STOCK_MATCH_UNCERTAIN_ISSUE = "stock_match_uncertain";
+
+/** The sign shows another product than the guided capture asked for */
+export const UNEXPECTED_PRODUCT_ISSUE = "unexpected_product";
+
+/** Issues settled when a user reviews a station (confirms or corrects it) */
+export const REVIEW_ISSUE_CODES = [
+  LOW_SIGN_CONFIDENCE_ISSUE,
+  LOW_COUNT_CONFIDENCE_ISSUE,
+  STOCK_MISMATCH_ISSUE,
+  STOCK_MATCH_UNCERTAIN_ISSUE,
+];
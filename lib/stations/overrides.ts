@@ -0,0 +1,133 @@
+/**
+ * Station review - confirming or manually correcting a capture's values.
+ * Corrections are recorded in station_overrides with the AI values they replace.
+ */
+
+import { db } from "@/lib/db";
+import {
+  stationCaptures,
+  stationOverrides,
+  type NewStationCapture,
+  type StationCapture,
+  type StationValuesJson,
+} from "@/lib/db/schema";
+import { and, desc, eq, gte } from "drizzle-orm";
+import { normalizeProductCode } from "@/lib/products/aliases";
+import { REVIEW_ISSUE_CODES } from "./issues";
+
+/**
+ * A capture's current values (what an override changes)
+ */
+export function stationValues(capture: StationCapture): StationValuesJson {
+  return {
+    productCode: capture.productCode,
+    onHandQty: capture.onHandQty,
+    minQty: capture.minQty,
+    maxQty: capture.maxQty,
+  };
+}
+
+/**
+ * Fields that make a reviewed capture valid: review issues are settled and the
+ * user vouched that the stock is the sign's product
+ */
+export function reviewedStationFields(
+  capture: StationCapture
+): Pick<
+  NewStationCapture,
+  "status" | "errorMessage" | "issues" | "matchStatus" | "matchReason"
+> {
+  const issues = (capture.issues ?? []).filter(
+    (i) => !REVIEW_ISSUE_CODES.includes(i.code)
+  );
+
+  return {
+    status: "valid",
+    errorMessage: null,
+    issues: issues.length > 0 ? issues : null,
+    ...(capture.matchStatus !== "matched"
+      ? { matchStatus: "matched" as const, matchReason: "Confirmed by user" }
+      : {}),
+  };
+}
+
+/**
+ * Capture values with the requested changes applied (product code normalized)
+ */
+export function applyStationChanges(
+  capture: StationCapture,
+  changes: Partial<StationValuesJson>
+): StationValuesJson {
+  const values = stationValues(capture);
+  return {
+    productCode:
+      changes.productCode !== undefined && changes.productCode !== null
+        ? normalizeProductCode(changes.productCode)
+        : values.productCode,
+    onHandQty: changes.onHandQty ?? values.onHandQty,
+    minQty: changes.minQty ?? values.minQty,
+    maxQty: changes.maxQty ?? values.maxQty,
+  };
+}
+
+/**
+ * Why the values cannot make a valid station, null when they can
+ */
+export function stationValuesError(values: StationValuesJson): string | null {
+  if (
+    !values.productCode ||
+    values.onHandQty === null ||
+    values.minQty === null ||
+    values.maxQty === null
+  ) {
+    return "Product code, on-hand, min and max are all needed for a valid station";
+  }
+  if (values.minQty > values.maxQty) {
+    return "Min cannot be greater than max";
+  }
+  return null;
+}
+
+/**
+ * Override a capture's values (checked with stationValuesError) and mark it
+ * valid, recording who changed what and why.
+ *
+ * The AI values are those of the last extraction: taken from the previous
+ * override when the capture was already corrected since then.
+ */
+export async function overrideStation(
+  capture: StationCapture,
+  newValues: StationValuesJson,
+  { changedBy, reason }: { changedBy: string; reason: string }
+): Promise<StationCapture> {
+  const previousValues = stationValues(capture);
+
+  const [lastOverride] = await db
+    .select({ aiValues: stationOverrides.aiValues })
+    .from(stationOverrides)
+    .where(
+      and(
+        eq(stationOverrides.captureId, capture.id),
+        gte(stationOverrides.createdAt, capture.extractedAt ?? capture.createdAt)
+      )
+    )
+    .orderBy(desc(stationOverrides.createdAt))
+    .limit(1);
+
+  await db.insert(stationOverrides).values({
+    captureId: capture.id,
+    changedBy: changedBy.trim(),
+    reason: reason.trim(),
+    previousValues,
+    newValues,
+    aiValues: lastOverride?.aiValues ?? previousValues,
+  });
+
+  const [updated] = await db
+    .update(stationCaptures)
+    .set({ ...newValues, ...reviewedStationFields(capture) })
+    .where(eq(stationCaptures.id, capture.id))
+    .returning();
+
+  return updated;
+}
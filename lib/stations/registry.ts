@@ -0,0 +1,184 @@
+/**
+ * Station registry - the physical dock stations, shared across sessions.
+ * Session captures link to the registry station of their canonical product.
+ */
+
+import { db } from "@/lib/db";
+import { stationCaptures, stations, type Station } from "@/lib/db/schema";
+import { asc, eq, inArray } from "drizzle-orm";
+import { copy, del } from "@vercel/blob";
+import type { KnownSign } from "@/lib/ai/extract-station";
+import type { ProductResolver } from "@/lib/products/aliases";
+
+/**
+ * All known stations ordered by product code
+ */
+export async function listRegistryStations(): Promise<Station[]> {
+  return db.select().from(stations).orderBy(asc(stations.productCode));
+}
+
+/**
+ * A registry station by id, null when it does not exist
+ */
+export async function getRegistryStation(id: string): Promise<Station | null> {
+  const station = await db.query.stations.findFirst({
+    where: eq(stations.id, id),
+  });
+
+  return station ?? null;
+}
+
+/**
+ * Error returned for a stock-only capture of a station without a sign photo
+ */
+export const NO_REGISTRY_SIGN_ERROR =
+  "This station has no sign photo on file - capture the sign";
+
+/**
+ * Stored sign values for a stock-only capture, null when the station has no
+ * sign photo - without one the stock cannot be verified, so the sign has to be
+ * captured again
+ */
+export function registryKnownSign(station: Station): KnownSign | null {
+  if (!station.signBlobUrl) return null;
+
+  return {
+    productCode: station.productCode,
+    minQty: station.minQty,
+    maxQty: station.maxQty,
+    signBlobUrl: station.signBlobUrl,
+  };
+}
+
+/**
+ * Update a registry station's own details, null when it does not exist
+ */
+export async function updateRegistryStation(
+  id: string,
+  data: Pick<Station, "location">
+): Promise<Station | null> {
+  const [station] = await db
+    .update(stations)
+    .set({ ...data, updatedAt: new Date().toISOString() })
+    .where(eq(stations.id, id))
+    .returning();
+
+  return station ?? null;
+}
+
+/**
+ * Blob URLs still used as a registry sign photo (stations registered before
+ * the registry kept its own copy) - these must not be deleted with a capture
+ */
+export async function registrySignBlobUrls(urls: string[]): Promise<Set<string>> {
+  if (urls.length === 0) return new Set();
+  const rows = await db
+    .select({ signBlobUrl: stations.signBlobUrl })
+    .from(stations)
+    .where(inArray(stations.signBlobUrl, urls));
+  return new Set(rows.map((r) => r.signBlobUrl!));
+}
+
+/**
+ * Copy a capture's sign photo to a blob the registry owns - session blobs are
+ * deleted with their capture or session, the registry photo must outlive them.
+ * Returns null when the copy failed.
+ */
+async function copySignToRegistry(
+  stationId: string,
+  signBlobUrl: string
+): Promise<string | null> {
+  const ext = new URL(signBlobUrl).pathname.split(".").pop() || "jpg";
+  try {
+    const blob = await copy(
+      signBlobUrl,
+      `stations/${stationId}/sign-${Date.now()}.${ext}`,
+      { access: "public" }
+    );
+    return blob.url;
+  } catch (error) {
+    console.error(`Failed to copy sign photo for station ${stationId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Link a capture to the registry station of its product after extraction.
+ *
+ * Valid captures register unknown stations and refresh the sign values
+ * (min/max, sign photo) and last count date. Captures that need attention
+ * only link to a station that is already known - a misread code must not
+ * add a station to the registry.
+ */
+export async function linkCaptureToRegistry(
+  captureId: string,
+  resolve: ProductResolver
+): Promise<void> {
+  const capture = await db.query.stationCaptures.findFirst({
+    where: eq(stationCaptures.id, captureId),
+  });
+  if (!capture?.productCode) return;
+
+  const productCode = resolve(capture.productCode).canonicalCode;
+  const isValid = capture.status === "valid";
+  const now = new Date().toISOString();
+
+  let station = await db.query.stations.findFirst({
+    where: eq(stations.productCode, productCode),
+  });
+
+  if (!station) {
+    if (!isValid) return;
+    [station] = await db
+      .insert(stations)
+      .values({ productCode })
+      .onConflictDoNothing()
+      .returning();
+    // Registered concurrently by another capture
+    station ??= await db.query.stations.findFirst({
+      where: eq(stations.productCode, productCode),
+    });
+    if (!station) return;
+  }
+
+  if (isValid) {
+    // Stock-only captures took min/max from the registry - nothing new to store
+    const signRead =
+      !!capture.signBlobUrl && capture.minQty !== null && capture.maxQty !== null;
+    // Keep the previous registry photo when the copy fails
+    const signBlobUrl = signRead
+      ? await copySignToRegistry(station.id, capture.signBlobUrl!)
+      : null;
+    await db
+      .update(stations)
+      .set({
+        ...(signRead
+          ? {
+              minQty: capture.minQty,
+              maxQty: capture.maxQty,
+              ...(signBlobUrl ? { signBlobUrl } : {}),
+              signReadAt: now,
+            }
+          : {}),
+        ...(capture.onHandQty !== null ? { lastCountedAt: now } : {}),
+        updatedAt: now,
+      })
+      .where(eq(stations.id, station.id));
+
+    // Replaced registry photo (best-effort; older rows point at session blobs,
+    // which their capture or session still owns)
+    const previous = station.signBlobUrl;
+    if (signBlobUrl && previous && new URL(previous).pathname.startsWith("/stations/")) {
+      try {
+        await del(previous);
+      } catch {
+        console.error(`Failed to delete blob: ${previous}`);
+      }
+    }
+  }
+
+  await db
+    .update(stationCaptures)
+    .set({ stationId: station.id })
+    .where(eq(stationCaptures.id, captureId));
+}
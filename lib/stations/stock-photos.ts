@@ -0,0 +1,152 @@
+/**
+ * Station stock photos - a capture may have several stock photos (wide or deep
+ * shelves), each counted separately. The first one is mirrored in
+ * stationCaptures.stockBlobUrl.
+ */
+
+import { del } from "@vercel/blob";
+import { db } from "@/lib/db";
+import { stationStockPhotos, type StationCapture } from "@/lib/db/schema";
+import type { StationExtraction } from "@/lib/ai/schemas/station-extraction";
+import { and, asc, eq, gte, lt } from "drizzle-orm";
+import { confidenceScore } from "./confidence";
+
+/**
+ * Stock photo URLs of a capture in capture order
+ * (captures from before multi-photo support only have stockBlobUrl)
+ */
+export async function getStockPhotoUrls(
+  capture: Pick<StationCapture, "id" | "stockBlobUrl">
+): Promise<string[]> {
+  const photos = await db
+    .select({ blobUrl: stationStockPhotos.blobUrl })
+    .from(stationStockPhotos)
+    .where(eq(stationStockPhotos.captureId, capture.id))
+    .orderBy(asc(stationStockPhotos.orderIndex));
+
+  if (photos.length > 0) return photos.map((p) => p.blobUrl);
+  return capture.stockBlobUrl ? [capture.stockBlobUrl] : [];
+}
+
+/**
+ * Error for stock photo URLs sent with an extraction that are not uploads of
+ * this capture, null when they all are. Uploads are recognised by their blob
+ * path - the photo rows may not be stored yet while the upload webhook runs.
+ */
+export function stockPhotoUrlsError(
+  capture: Pick<StationCapture, "id" | "sessionId">,
+  urls: string[]
+): string | null {
+  const prefix = `/sessions/${capture.sessionId}/stations/${capture.id}/stock`;
+
+  for (const url of urls) {
+    const { protocol, hostname, pathname } = new URL(url);
+    if (
+      protocol !== "https:" ||
+      !hostname.endsWith(".public.blob.vercel-storage.com") ||
+      !pathname.startsWith(prefix)
+    ) {
+      return "Stock images must be photos uploaded for this station";
+    }
+  }
+  return null;
+}
+
+/**
+ * Store an uploaded stock photo (upload webhook and extraction may both
+ * report the same photo - the last write wins)
+ */
+export async function saveStockPhoto(
+  captureId: string,
+  orderIndex: number,
+  photo: { blobUrl: string; width?: number; height?: number }
+): Promise<void> {
+  const now = new Date().toISOString();
+  await db
+    .insert(stationStockPhotos)
+    .values({ captureId, orderIndex, ...photo, uploadedAt: now })
+    .onConflictDoUpdate({
+      target: [stationStockPhotos.captureId, stationStockPhotos.orderIndex],
+      set: {
+        blobUrl: photo.blobUrl,
+        ...(photo.width !== undefined ? { width: photo.width } : {}),
+        ...(photo.height !== undefined ? { height: photo.height } : {}),
+        uploadedAt: now,
+      },
+    });
+}
+
+/**
+ * Store the per-photo counts of an extraction for the photos that were counted,
+ * dropping photos that are no longer part of the capture (rows and blobs)
+ */
+export async function saveStockPhotoCounts(
+  captureId: string,
+  stockUrls: string[],
+  counts: StationExtraction["stockPhotos"]
+): Promise<void> {
+  const previous = await db
+    .select({ blobUrl: stationStockPhotos.blobUrl })
+    .from(stationStockPhotos)
+    .where(eq(stationStockPhotos.captureId, captureId));
+
+  for (const [orderIndex, blobUrl] of stockUrls.entries()) {
+    const count = counts?.[orderIndex];
+    const countFields = {
+      countStatus: count?.status ?? null,
+      onHandQty: count?.onHandQty ?? null,
+      countConfidence: confidenceScore(count?.confidence),
+      countingMethod: count?.countingMethod ?? null,
+    };
+
+    await db
+      .insert(stationStockPhotos)
+      .values({ captureId, orderIndex, blobUrl, ...countFields })
+      .onConflictDoUpdate({
+        target: [stationStockPhotos.captureId, stationStockPhotos.orderIndex],
+        // The counted photo is the one that belongs at this position
+        set: { blobUrl, ...countFields },
+      });
+  }
+
+  await db
+    .delete(stationStockPhotos)
+    .where(
+      and(
+        eq(stationStockPhotos.captureId, captureId),
+        gte(stationStockPhotos.orderIndex, stockUrls.length)
+      )
+    );
+
+  // Dropped or replaced photos are no longer referenced by the capture
+  const orphaned = previous
+    .map((p) => p.blobUrl)
+    .filter((url) => !stockUrls.includes(url));
+  for (const url of new Set(orphaned)) {
+    try {
+      await del(url);
+    } catch (error) {
+      console.error(`Failed to delete blob: ${url}`, error);
+    }
+  }
+}
+
+/**
+ * Whether every stock photo the client announced has been stored
+ * (uploads finish in any order; extraction must not start with some missing)
+ */
+export async function hasAllStockPhotos(
+  captureId: string,
+  expectedCount: number
+): Promise<boolean> {
+  const photos = await db
+    .select({ orderIndex: stationStockPhotos.orderIndex })
+    .from(stationStockPhotos)
+    .where(
+      and(
+        eq(stationStockPhotos.captureId, captureId),
+        lt(stationStockPhotos.orderIndex, expectedCount)
+      )
+    );
+  return photos.length >= expectedCount;
+}
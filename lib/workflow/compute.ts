@@ -1,24 +1,49 @@
 import type {
+  coverageMode,
+  packRounding,
+  replenishmentPolicy,
+  OrderAdjustment,
   StationCapture,
+  StationDuplicateResolution,
   LoadingListItem,
   LoadingListExtraction,
 } from "@/lib/db/schema";
+import type { ProductMatch, ProductResolver } from "@/lib/products/aliases";
 
 // ============================================================================
 // Types
 // ============================================================================
 
 export type ComputedDemandItem = {
-  productCode: string;
+  productCode: string; // Canonical product ID
   demandQty: number;
   description?: string | null; // From AI extraction
   sources: Array<{
     groupId: string;
     employeeLabel: string | null;
     activityCode: string;
+    productCode: string; // Code as extracted (may be an alias)
+    matchedBy: ProductMatch;
+    quantity: number;
+    room: string | null;
+    endUser: string | null;
+    secondaryCode: string | null;
+    internalCode: string | null;
   }>;
 };
 
+// Demand fields the order and coverage need (live demand or approved snapshot)
+export type DemandLine = Pick<
+  ComputedDemandItem,
+  "productCode" | "demandQty" | "description"
+>;
+
+export type DemandChange = {
+  productCode: string;
+  approvedQty: number; // 0 when the product was added after approval
+  currentQty: number; // 0 when the product was removed after approval
+};
+
 export type ComputedOrderItem = {
   productCode: string;
   productDescription?: string | null; // From AI extraction
@@ -26,9 +51,20 @@ export type ComputedOrderItem = {
   onHandQty: number;
   minQty: number | null;
   maxQty: number | null;
-  recommendedOrderQty: number;
+  unitNeedQty: number; // Units the policy asks for, before pack rounding
+  recommendedOrderQty: number; // Orderable quantity (whole packs, at least the MOQ)
+  packSize: number | null; // null for extra lines (quantity set by hand)
   exceedsMax: boolean;
   isCaptured: boolean; // Derived: true if station exists with images
+  policy: ReplenishmentPolicy | null; // Policy that computed the line (null = extra line)
+  adjustment?: OrderLineAdjustment; // Set when a coordinator changed the quantity
+};
+
+export type OrderLineAdjustment = {
+  computedOrderQty: number | null; // What the formula said (null = extra line)
+  reason: string;
+  changedBy: string;
+  adjustedAt: string;
 };
 
 export type SkippedOrderItem = {
@@ -37,6 +73,44 @@ export type SkippedOrderItem = {
   reason: "no_station" | "station_invalid" | "missing_data";
 };
 
+export type CoverageMode = (typeof coverageMode)[number];
+
+export type ReplenishmentPolicy = (typeof replenishmentPolicy)[number];
+
+export type PackRounding = (typeof packRounding)[number];
+
+/** Catalog settings that decide a product's order quantity */
+export type ProductOrderRules = {
+  replenishmentPolicy: ReplenishmentPolicy;
+  packSize: number;
+  minOrderQty: number;
+  packRounding: PackRounding;
+};
+
+/** Rules for products not in the catalog: demand-first, single units */
+export const DEFAULT_ORDER_RULES: ProductOrderRules = {
+  replenishmentPolicy: "demand_only",
+  packSize: 1,
+  minOrderQty: 0,
+  packRounding: "up",
+};
+
+export type DuplicateStation = {
+  productCode: string; // Canonical product ID
+  captures: Array<{
+    captureId: string;
+    status: StationCapture["status"];
+    onHandQty: number | null;
+    minQty: number | null;
+    maxQty: number | null;
+    createdAt: string;
+    isCounted: boolean; // Usable for the order on its own
+  }>;
+  rule: StationDuplicateResolution["rule"];
+  keepCaptureId: string | null; // Capture that counts when the rule is keep
+  resolved: boolean; // false while the default rule is used
+};
+
 export type CoverageInfo = {
   covered: string[];
   missing: string[];
@@ -75,7 +149,28 @@ export type GroupForComputation = {
     quantity: number;
     activityCode: string;
     description: string | null;
+    secondaryCode?: string | null;
+    internalCode?: string | null;
+    room?: string | null;
+    endUser?: string | null;
+  }>;
+};
+
+export type DuplicateActivity = {
+  activityCode: string;
+  groups: Array<{
+    groupId: string;
+    employeeLabel: string | null;
+    itemCount: number;
+    totalQuantity: number;
   }>;
+  ownerGroupId: string;
+  ownerChosen: boolean; // false while the default owner is used
+};
+
+export type DemandItemFilter = {
+  room?: string;
+  endUser?: string;
 };
 
 // ============================================================================
@@ -84,10 +179,12 @@ export type GroupForComputation = {
 
 /**
  * Compute demand from extracted loading list items.
- * All extracted items are included - no catalog validation.
+ * All extracted items are included - codes are resolved to their canonical
+ * product (primary, then secondary code) so aliases aggregate on one line.
  */
 export function computeDemandFromGroups(
-  groups: GroupForComputation[]
+  groups: GroupForComputation[],
+  resolve: ProductResolver
 ): ComputedDemandItem[] {
   const demandMap = new Map<string, ComputedDemandItem>();
 
@@ -101,31 +198,37 @@ export function computeDemandFromGroups(
       // Skip invalid quantity
       if (typeof item.quantity !== "number" || item.quantity <= 0) continue;
 
-      const existing = demandMap.get(item.productCode);
+      const { canonicalCode, matchedBy } = resolve(
+        item.productCode,
+        item.secondaryCode
+      );
+      const existing = demandMap.get(canonicalCode);
+      const source = {
+        groupId: group.id,
+        employeeLabel: group.employeeLabel,
+        activityCode: item.activityCode,
+        productCode: item.productCode,
+        matchedBy,
+        quantity: item.quantity,
+        room: item.room ?? null,
+        endUser: item.endUser ?? null,
+        secondaryCode: item.secondaryCode ?? null,
+        internalCode: item.internalCode ?? null,
+      };
 
       if (existing) {
         existing.demandQty += item.quantity;
-        existing.sources.push({
-          groupId: group.id,
-          employeeLabel: group.employeeLabel,
-          activityCode: item.activityCode,
-        });
+        existing.sources.push(source);
         // Keep first non-null description encountered
         if (!existing.description && item.description) {
           existing.description = item.description;
         }
       } else {
-        demandMap.set(item.productCode, {
-          productCode: item.productCode,
+        demandMap.set(canonicalCode, {
+          productCode: canonicalCode,
           demandQty: item.quantity,
           description: item.description, // From AI extraction
-          sources: [
-            {
-              groupId: group.id,
-              employeeLabel: group.employeeLabel,
-              activityCode: item.activityCode,
-            },
-          ],
+          sources: [source],
         });
       }
     }
@@ -136,54 +239,351 @@ export function computeDemandFromGroups(
   );
 }
 
+/**
+ * Keep only items delivered to the given room and/or end user
+ */
+export function filterGroupItems(
+  groups: GroupForComputation[],
+  filter: DemandItemFilter
+): GroupForComputation[] {
+  if (!filter.room && !filter.endUser) return groups;
+
+  return groups.map((group) => ({
+    ...group,
+    items: group.items.filter(
+      (item) =>
+        (!filter.room || item.room === filter.room) &&
+        (!filter.endUser || item.endUser === filter.endUser)
+    ),
+  }));
+}
+
+/**
+ * Distinct rooms and end users across items that count towards demand
+ */
+export function collectDemandFilterOptions(groups: GroupForComputation[]): {
+  rooms: string[];
+  endUsers: string[];
+} {
+  const rooms = new Set<string>();
+  const endUsers = new Set<string>();
+
+  for (const group of groups) {
+    if (!group.extraction || group.extraction.status === "error") continue;
+    for (const item of group.items) {
+      if (item.room) rooms.add(item.room);
+      if (item.endUser) endUsers.add(item.endUser);
+    }
+  }
+
+  return {
+    rooms: Array.from(rooms).sort(),
+    endUsers: Array.from(endUsers).sort(),
+  };
+}
+
+// ============================================================================
+// Duplicate Activities (same activity on several loading lists)
+// ============================================================================
+
+/**
+ * Find activities whose items appear in more than one counted group.
+ *
+ * The owner is the coordinator's choice when it still lists the activity,
+ * otherwise the group with the most items for it (ties by group id, so demand,
+ * coverage and order always agree).
+ */
+export function findDuplicateActivities(
+  groups: GroupForComputation[],
+  chosenOwners: Map<string, string>
+): DuplicateActivity[] {
+  const byActivity = new Map<string, DuplicateActivity["groups"]>();
+
+  for (const group of groups) {
+    if (!group.extraction || group.extraction.status === "error") continue;
+
+    const perActivity = new Map<string, { itemCount: number; totalQuantity: number }>();
+    for (const item of group.items) {
+      const entry = perActivity.get(item.activityCode) ?? {
+        itemCount: 0,
+        totalQuantity: 0,
+      };
+      entry.itemCount += 1;
+      entry.totalQuantity += item.quantity;
+      perActivity.set(item.activityCode, entry);
+    }
+
+    for (const [activityCode, entry] of perActivity) {
+      const listed = byActivity.get(activityCode) ?? [];
+      listed.push({
+        groupId: group.id,
+        employeeLabel: group.employeeLabel,
+        ...entry,
+      });
+      byActivity.set(activityCode, listed);
+    }
+  }
+
+  const duplicates: DuplicateActivity[] = [];
+  for (const [activityCode, listed] of byActivity) {
+    if (listed.length < 2) continue;
+
+    const chosen = chosenOwners.get(activityCode);
+    const ownerChosen = listed.some((g) => g.groupId === chosen);
+    const fallback = [...listed].sort(
+      (a, b) => b.itemCount - a.itemCount || a.groupId.localeCompare(b.groupId)
+    )[0];
+
+    duplicates.push({
+      activityCode,
+      groups: listed,
+      ownerGroupId: ownerChosen ? chosen! : fallback.groupId,
+      ownerChosen,
+    });
+  }
+
+  return duplicates.sort((a, b) => a.activityCode.localeCompare(b.activityCode));
+}
+
+/**
+ * Drop duplicated activities' items from every group except the owner,
+ * so each activity is counted once
+ */
+export function applyActivityOwnership(
+  groups: GroupForComputation[],
+  duplicates: DuplicateActivity[]
+): GroupForComputation[] {
+  if (duplicates.length === 0) return groups;
+
+  const owners = new Map(duplicates.map((d) => [d.activityCode, d.ownerGroupId]));
+  return groups.map((group) => ({
+    ...group,
+    items: group.items.filter((item) => {
+      const owner = owners.get(item.activityCode);
+      return !owner || owner === group.id;
+    }),
+  }));
+}
+
+// ============================================================================
+// Demand Approval
+// ============================================================================
+
+/**
+ * Products whose quantity differs between the approved snapshot and current demand
+ */
+export function compareDemand(
+  approved: DemandLine[],
+  current: DemandLine[]
+): DemandChange[] {
+  const approvedQty = new Map(approved.map((d) => [d.productCode, d.demandQty]));
+  const currentQty = new Map(current.map((d) => [d.productCode, d.demandQty]));
+  const productCodes = new Set([...approvedQty.keys(), ...currentQty.keys()]);
+
+  const changes: DemandChange[] = [];
+  for (const productCode of productCodes) {
+    const before = approvedQty.get(productCode) ?? 0;
+    const after = currentQty.get(productCode) ?? 0;
+    if (before !== after) {
+      changes.push({ productCode, approvedQty: before, currentQty: after });
+    }
+  }
+
+  return changes.sort((a, b) => a.productCode.localeCompare(b.productCode));
+}
+
 // ============================================================================
 // Order Computation
 // ============================================================================
 
+/**
+ * A capture has its photos: sign and stock, or only stock for a known station
+ * (stock-only capture, min/max come from the station registry)
+ */
+export function hasCaptureImages(
+  station: Pick<StationCapture, "signBlobUrl" | "stockBlobUrl" | "stationId">
+): boolean {
+  return !!station.stockBlobUrl && (!!station.signBlobUrl || !!station.stationId);
+}
+
+/**
+ * Only stock verified to be the sign's product counts toward the order
+ * (captures from before match verification have no verdict and still count)
+ */
+export function hasVerifiedStock(
+  station: Pick<StationCapture, "matchStatus">
+): boolean {
+  return station.matchStatus === "matched" || station.matchStatus === null;
+}
+
+/**
+ * Canonical product of a station sign (null until the sign is extracted)
+ */
+export function stationProductCode(
+  station: Pick<StationCapture, "productCode">,
+  resolve: ProductResolver
+): string | null {
+  return station.productCode ? resolve(station.productCode).canonicalCode : null;
+}
+
+/**
+ * Why a demanded product has no usable station (null when its station counts):
+ * - no_station: no capture shows the product
+ * - station_invalid: capture without images, not valid, or stock not the sign's product
+ * - missing_data: valid capture without on-hand or max
+ */
+export function stationSkipReason(
+  station: StationCapture | undefined
+): SkippedOrderItem["reason"] | null {
+  if (!station) return "no_station";
+  if (
+    !hasCaptureImages(station) ||
+    station.status !== "valid" ||
+    !hasVerifiedStock(station)
+  ) {
+    return "station_invalid";
+  }
+  if (station.onHandQty === null || station.maxQty === null) {
+    return "missing_data";
+  }
+  return null;
+}
+
+export const REPLENISHMENT_POLICY_LABELS: Record<ReplenishmentPolicy, string> = {
+  demand_only: "Demand only",
+  top_up_to_max: "Top up to max",
+  reorder_below_min: "Reorder below min",
+};
+
+/**
+ * Order quantity for a counted station under a replenishment policy:
+ * - demand_only: max(0, demand - onHand) (spec demand-first formula)
+ * - top_up_to_max: bring the stock left after demand back up to max
+ *   (max + demand - onHand)
+ * - reorder_below_min: nothing while the stock left after demand stays at or
+ *   above min (a missing min counts as 0), otherwise top up like top_up_to_max
+ */
+export function replenishmentOrderQty(
+  policy: ReplenishmentPolicy,
+  demandQty: number,
+  station: { onHandQty: number; minQty: number | null; maxQty: number }
+): number {
+  const { onHandQty, minQty, maxQty } = station;
+  const topUp = Math.max(0, maxQty + demandQty - onHandQty);
+
+  switch (policy) {
+    case "demand_only":
+      return Math.max(0, demandQty - onHandQty);
+    case "top_up_to_max":
+      return topUp;
+    case "reorder_below_min":
+      return onHandQty - demandQty >= (minQty ?? 0) ? 0 : topUp;
+  }
+}
+
+/**
+ * Whether the stock left after demand is covered would overflow the station
+ * (onHand + order - demand > max)
+ */
+export function exceedsStationMax(
+  onHandQty: number,
+  orderQty: number,
+  demandQty: number,
+  maxQty: number
+): boolean {
+  return onHandQty + orderQty - demandQty > maxQty;
+}
+
+/**
+ * Round a unit need to an orderable quantity: nothing when nothing is needed,
+ * otherwise at least the minimum order quantity, in whole packs. Nearest
+ * rounding never goes below one pack or the minimum order quantity.
+ */
+export function roundToPacks(
+  unitNeedQty: number,
+  rules: Pick<ProductOrderRules, "packSize" | "minOrderQty" | "packRounding">
+): number {
+  if (unitNeedQty <= 0) return 0;
+
+  const packSize = Math.max(1, rules.packSize);
+  const qty = Math.max(unitNeedQty, rules.minOrderQty);
+  const roundedUp = Math.ceil(qty / packSize) * packSize;
+  if (rules.packRounding === "up") return roundedUp;
+
+  const nearest = Math.round(qty / packSize) * packSize;
+  return nearest >= Math.max(1, rules.minOrderQty) ? nearest : roundedUp;
+}
+
 /**
  * Compute order items from demand and station captures.
  *
  * For products WITH station capture: use actual on-hand, min, max from station
- * For products WITHOUT station capture: assume on-hand=0, min=0, max=demand
- *   (pessimistic defaults - order exactly what's demanded)
+ * and the product's replenishment policy (demand_only when not set)
+ * For products WITHOUT station capture (stations whose stock does not match
+ * the sign count as not captured):
+ * - lenient: assume on-hand=0, min=0, max=demand
+ *   (pessimistic defaults - order exactly what's demanded, whatever the policy)
+ * - strict: skip the product with the reason (coverage blocking rule)
+ *
+ * The unit need is then rounded to the product's packs and minimum order
+ * quantity (products not in the catalog are ordered in single units).
  */
 export function computeOrderItems(
-  demandItems: ComputedDemandItem[],
-  stations: StationCapture[]
+  demandItems: DemandLine[],
+  stations: StationCapture[],
+  resolve: ProductResolver,
+  mode: CoverageMode = "lenient",
+  orderRules: ReadonlyMap<string, ProductOrderRules> = new Map()
 ): { computed: ComputedOrderItem[]; skipped: SkippedOrderItem[] } {
   const computed: ComputedOrderItem[] = [];
   const skipped: SkippedOrderItem[] = [];
 
   for (const demand of demandItems) {
-    // Find station for this product
-    const station = stations.find((s) => s.productCode === demand.productCode);
-
-    // isCaptured: station exists with valid data
-    const isCaptured = !!(
-      station?.signBlobUrl &&
-      station?.stockBlobUrl &&
-      station.status === "valid" &&
-      station.onHandQty !== null &&
-      station.maxQty !== null
+    // Find station for this product (sign may show an alias code)
+    const station = stations.find(
+      (s) => stationProductCode(s, resolve) === demand.productCode
     );
+    const skipReason = stationSkipReason(station);
+    const rules = orderRules.get(demand.productCode) ?? DEFAULT_ORDER_RULES;
 
-    if (isCaptured) {
+    if (!skipReason) {
       // Use actual station data
-      const onHandQty = station.onHandQty!;
-      const maxQty = station.maxQty!;
-      const recommendedOrderQty = Math.max(0, demand.demandQty - onHandQty);
-      const exceedsMax = onHandQty + recommendedOrderQty > maxQty;
+      const onHandQty = station!.onHandQty!;
+      const maxQty = station!.maxQty!;
+      const policy = rules.replenishmentPolicy;
+      const unitNeedQty = replenishmentOrderQty(policy, demand.demandQty, {
+        onHandQty,
+        minQty: station!.minQty,
+        maxQty,
+      });
+      const recommendedOrderQty = roundToPacks(unitNeedQty, rules);
+      const exceedsMax = exceedsStationMax(
+        onHandQty,
+        recommendedOrderQty,
+        demand.demandQty,
+        maxQty
+      );
 
       computed.push({
         productCode: demand.productCode,
         productDescription: demand.description,
         demandQty: demand.demandQty,
         onHandQty,
-        minQty: station.minQty,
+        minQty: station!.minQty,
         maxQty,
+        unitNeedQty,
         recommendedOrderQty,
+        packSize: rules.packSize,
         exceedsMax,
         isCaptured: true,
+        policy,
+      });
+    } else if (mode === "strict") {
+      // No guessing - the product waits until its station is captured
+      skipped.push({
+        productCode: demand.productCode,
+        demandQty: demand.demandQty,
+        reason: skipReason,
       });
     } else {
       // No station capture - use pessimistic defaults
@@ -191,7 +591,7 @@ export function computeOrderItems(
       const onHandQty = 0;
       const minQty = 0;
       const maxQty = demand.demandQty; // Max = demand (no buffer)
-      const recommendedOrderQty = demand.demandQty; // Order full demand
+      const unitNeedQty = demand.demandQty; // Order full demand
 
       computed.push({
         productCode: demand.productCode,
@@ -200,9 +600,12 @@ export function computeOrderItems(
         onHandQty,
         minQty,
         maxQty,
-        recommendedOrderQty,
-        exceedsMax: false, // Can't exceed max when max = demand
+        unitNeedQty,
+        recommendedOrderQty: roundToPacks(unitNeedQty, rules),
+        packSize: rules.packSize,
+        exceedsMax: false, // Max = demand is a guess, not a station limit
         isCaptured: false,
+        policy: "demand_only", // Nothing known on hand to top up from
       });
     }
   }
@@ -213,6 +616,102 @@ export function computeOrderItems(
   return { computed, skipped };
 }
 
+/**
+ * Adjustment that applies per product: the newest change, unless it put the
+ * product back to its computed quantity
+ */
+export function activeOrderAdjustments(
+  adjustments: OrderAdjustment[]
+): OrderAdjustment[] {
+  const newest = new Map<string, OrderAdjustment>();
+  for (const adjustment of adjustments) {
+    const current = newest.get(adjustment.productCode);
+    if (!current || adjustment.createdAt > current.createdAt) {
+      newest.set(adjustment.productCode, adjustment);
+    }
+  }
+  return [...newest.values()].filter((a) => a.orderQty !== null);
+}
+
+/**
+ * Order items with coordinator adjustments applied: the adjusted quantity
+ * replaces the computed one (kept on the adjustment), and products not in
+ * demand are added as extra lines with their station's values when counted,
+ * rounded to the product's packs like computed lines.
+ */
+export function applyOrderAdjustments(
+  computed: ComputedOrderItem[],
+  adjustments: OrderAdjustment[],
+  stations: StationCapture[],
+  resolve: ProductResolver,
+  orderRules: ReadonlyMap<string, ProductOrderRules> = new Map()
+): ComputedOrderItem[] {
+  const active = activeOrderAdjustments(adjustments);
+  if (active.length === 0) return computed;
+
+  const byProduct = new Map(active.map((a) => [a.productCode, a]));
+  const toAdjustment = (
+    adjustment: OrderAdjustment,
+    computedOrderQty: number | null
+  ): OrderLineAdjustment => ({
+    computedOrderQty,
+    reason: adjustment.reason,
+    changedBy: adjustment.changedBy,
+    adjustedAt: adjustment.createdAt,
+  });
+
+  const items = computed.map((item) => {
+    const adjustment = byProduct.get(item.productCode);
+    if (!adjustment) return item;
+
+    const orderQty = adjustment.orderQty!;
+    return {
+      ...item,
+      recommendedOrderQty: orderQty,
+      // Defaults (no station) have no real max to exceed
+      exceedsMax:
+        item.isCaptured && item.maxQty !== null
+          ? exceedsStationMax(item.onHandQty, orderQty, item.demandQty, item.maxQty)
+          : false,
+      adjustment: toAdjustment(adjustment, item.recommendedOrderQty),
+    };
+  });
+
+  for (const adjustment of active) {
+    if (computed.some((item) => item.productCode === adjustment.productCode)) {
+      continue;
+    }
+
+    const unitNeedQty = adjustment.orderQty!;
+    const rules = orderRules.get(adjustment.productCode) ?? DEFAULT_ORDER_RULES;
+    const orderQty = roundToPacks(unitNeedQty, rules);
+    const station = stations.find(
+      (s) =>
+        stationProductCode(s, resolve) === adjustment.productCode &&
+        stationSkipReason(s) === null
+    );
+    items.push({
+      productCode: adjustment.productCode,
+      productDescription: null,
+      demandQty: 0,
+      onHandQty: station?.onHandQty ?? 0,
+      minQty: station?.minQty ?? null,
+      maxQty: station?.maxQty ?? null,
+      unitNeedQty,
+      recommendedOrderQty: orderQty,
+      packSize: rules.packSize,
+      exceedsMax: station
+        ? exceedsStationMax(station.onHandQty!, orderQty, 0, station.maxQty!)
+        : false,
+      isCaptured: !!station,
+      policy: null,
+      adjustment: toAdjustment(adjustment, null),
+    });
+  }
+
+  return items.sort((a, b) => a.productCode.localeCompare(b.productCode));
+}
+
 // ============================================================================
 // Coverage Computation
 // ============================================================================
@@ -229,13 +728,14 @@ export function computeOrderItems(
  * - isComplete: true when all products have station captures (100% coverage)
  */
 export function computeCoverage(
-  demandItems: ComputedDemandItem[],
-  stations: StationCapture[]
+  demandItems: DemandLine[],
+  stations: StationCapture[],
+  resolve: ProductResolver
 ): CoverageInfo {
   const demandedProducts = demandItems.map((d) => d.productCode);
   const validStationProducts = stations
-    .filter((s) => s.status === "valid" && s.onHandQty !== null && s.maxQty !== null)
-    .map((s) => s.productCode)
+    .filter((s) => stationSkipReason(s) === null)
+    .map((s) => stationProductCode(s, resolve))
     .filter((p): p is string => p !== null);
 
   // Products with station captures (accurate data)
@@ -261,6 +761,106 @@ export function computeCoverage(
   };
 }
 
+// ============================================================================
+// Duplicate Stations (same product captured at several stations)
+// ============================================================================
+
+/**
+ * Find products captured by more than one station in a session.
+ *
+ * The rule is the user's choice when it still applies, otherwise the newest
+ * counted capture is kept (newest capture when none is counted yet).
+ */
+export function findDuplicateStations(
+  stations: StationCapture[],
+  resolve: ProductResolver,
+  resolutions: Map<
+    string,
+    Pick<StationDuplicateResolution, "rule" | "keepCaptureId">
+  >
+): DuplicateStation[] {
+  const byProduct = new Map<string, StationCapture[]>();
+  for (const station of stations) {
+    const productCode = stationProductCode(station, resolve);
+    if (!productCode) continue;
+    byProduct.set(productCode, [...(byProduct.get(productCode) ?? []), station]);
+  }
+
+  const duplicates: DuplicateStation[] = [];
+  for (const [productCode, listed] of byProduct) {
+    if (listed.length < 2) continue;
+
+    const captures = [...listed].sort((a, b) =>
+      a.createdAt.localeCompare(b.createdAt)
+    );
+    const chosen = resolutions.get(productCode);
+    const resolved =
+      chosen?.rule === "merge" ||
+      captures.some((c) => c.id === chosen?.keepCaptureId);
+    const fallback =
+      captures.findLast((c) => stationSkipReason(c) === null) ?? captures[captures.length - 1];
+
+    duplicates.push({
+      productCode,
+      captures: captures.map((c) => ({
+        captureId: c.id,
+        status: c.status,
+        onHandQty: c.onHandQty,
+        minQty: c.minQty,
+        maxQty: c.maxQty,
+        createdAt: c.createdAt,
+        isCounted: stationSkipReason(c) === null,
+      })),
+      rule: resolved ? chosen!.rule : "keep",
+      keepCaptureId: resolved ? chosen!.keepCaptureId : fallback.id,
+      resolved,
+    });
+  }
+
+  return duplicates.sort((a, b) => a.productCode.localeCompare(b.productCode));
+}
+
+/**
+ * Replace each duplicated product's captures with the one station the order
+ * uses: the kept capture, or for merge the first capture with the stock of all
+ * of them summed (min/max from the first). A merge is only counted when every
+ * capture is - a partial sum would under-count.
+ */
+export function applyStationResolutions(
+  stations: StationCapture[],
+  duplicates: DuplicateStation[],
+  resolve: ProductResolver
+): StationCapture[] {
+  if (duplicates.length === 0) return stations;
+
+  const byProduct = new Map(duplicates.map((d) => [d.productCode, d]));
+  const result: StationCapture[] = [];
+
+  for (const station of stations) {
+    const productCode = stationProductCode(station, resolve);
+    const duplicate = productCode ? byProduct.get(productCode) : undefined;
+
+    if (!duplicate) {
+      result.push(station);
+    } else if (duplicate.rule === "keep") {
+      if (station.id === duplicate.keepCaptureId) result.push(station);
+    } else if (station.id === duplicate.captures[0].captureId) {
+      const merged = duplicate.captures.map(
+        (c) => stations.find((s) => s.id === c.captureId)!
+      );
+      const uncounted = merged.find((s) => stationSkipReason(s) !== null);
+      result.push(
+        uncounted ?? {
+          ...merged[0],
+          onHandQty: merged.reduce((sum, s) => sum + s.onHandQty!, 0),
+        }
+      );
+    }
+  }
+
+  return result;
+}
+
 // ============================================================================
 // Extraction Stats
 // ============================================================================
@@ -0,0 +1,125 @@
+import { db } from "@/lib/db";
+import {
+  demandSnapshots,
+  employeeCaptureGroups,
+  sessions,
+  type DemandSnapshot,
+  type Session,
+} from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { toGroupForComputation } from "@/lib/loading-lists/extractions";
+import { dedupeSessionActivities } from "@/lib/loading-lists/activity-owners";
+import type { ProductResolver } from "@/lib/products/aliases";
+import {
+  canTransitionSession,
+  SESSION_STATUS_PHASE,
+} from "@/lib/sessions/status";
+import {
+  compareDemand,
+  computeDemandFromGroups,
+  type ComputedDemandItem,
+  type DemandChange,
+  type DemandLine,
+} from "./compute";
+
+/**
+ * Current demand computed from the session's loading lists
+ * (active extraction versions, duplicated activities counted once)
+ */
+export async function computeSessionDemand(
+  sessionId: string,
+  resolve: ProductResolver
+): Promise<ComputedDemandItem[]> {
+  const groups = await db.query.employeeCaptureGroups.findMany({
+    where: eq(employeeCaptureGroups.sessionId, sessionId),
+    with: {
+      extraction: true,
+      items: true,
+    },
+  });
+
+  const { groups: countedGroups } = await dedupeSessionActivities(
+    sessionId,
+    groups.map(toGroupForComputation)
+  );
+
+  return computeDemandFromGroups(countedGroups, resolve);
+}
+
+/**
+ * Approved demand for a session, null until demand is approved
+ */
+export async function getDemandSnapshot(
+  sessionId: string
+): Promise<DemandSnapshot | null> {
+  const snapshot = await db.query.demandSnapshots.findFirst({
+    where: eq(demandSnapshots.sessionId, sessionId),
+  });
+
+  return snapshot ?? null;
+}
+
+/**
+ * Store demand as approved (replaces an earlier approval) and move the
+ * session on to inventory capture when it is still reviewing demand
+ */
+export async function approveDemand(
+  session: Pick<Session, "id" | "status">,
+  items: DemandLine[]
+): Promise<DemandSnapshot> {
+  const snapshotItems = items.map((item) => ({
+    productCode: item.productCode,
+    demandQty: item.demandQty,
+    description: item.description ?? null,
+  }));
+  const approvedAt = new Date().toISOString();
+
+  const [snapshot] = await db
+    .insert(demandSnapshots)
+    .values({ sessionId: session.id, items: snapshotItems, approvedAt })
+    .onConflictDoUpdate({
+      target: demandSnapshots.sessionId,
+      set: { items: snapshotItems, approvedAt },
+    })
+    .returning();
+
+  if (canTransitionSession(session.status, "capturing_inventory")) {
+    await db
+      .update(sessions)
+      .set({
+        status: "capturing_inventory",
+        lastPhase: SESSION_STATUS_PHASE.capturing_inventory,
+      })
+      .where(eq(sessions.id, session.id));
+  }
+
+  return snapshot;
+}
+
+/**
+ * Demand the order is computed from: the approved snapshot when there is one,
+ * otherwise live demand. Changes list what differs from live demand since approval.
+ */
+export async function getOrderDemand(
+  sessionId: string,
+  resolve: ProductResolver
+): Promise<{
+  items: DemandLine[];
+  approvedAt: string | null;
+  changes: DemandChange[];
+}> {
+  const [live, snapshot] = await Promise.all([
+    computeSessionDemand(sessionId, resolve),
+    getDemandSnapshot(sessionId),
+  ]);
+
+  if (!snapshot) {
+    return { items: live, approvedAt: null, changes: [] };
+  }
+
+  return {
+    items: snapshot.items,
+    approvedAt: snapshot.approvedAt,
+    changes: compareDemand(snapshot.items, live),
+  };
+}
@@ -0,0 +1,167 @@
+import type { OrderTemplate, Session } from "@/lib/db/schema";
+import type { ComputedOrderItem } from "./compute";
+
+/**
+ * Copy/paste order text (spec/5_bussiness_rules.md §4).
+ * Pure logic only - templates are plain strings with {placeholder} fields.
+ */
+
+export type OrderTextTemplate = Pick<
+  OrderTemplate,
+  "name" | "stockLocation" | "headerFormat" | "lineFormat" | "warningFormat"
+>;
+
+/** Line fields a template can show (computed items and finalized lines) */
+export type OrderTextItem = Pick<
+  ComputedOrderItem,
+  | "productCode"
+  | "productDescription"
+  | "demandQty"
+  | "onHandQty"
+  | "minQty"
+  | "maxQty"
+  | "recommendedOrderQty"
+  | "exceedsMax"
+> & {
+  unitNeedQty: number | null; // null: finalized before pack rounding
+  packSize: number | null;
+};
+
+/** Placeholders each part of a template may use */
+export const ORDER_TEMPLATE_PLACEHOLDERS = {
+  headerFormat: ["sessionCreatedAtISO", "stockLocation", "lineCount"],
+  lineFormat: [
+    "productCode",
+    "description",
+    "demandQty",
+    "onHandQty",
+    "minQty",
+    "maxQty",
+    "recommendedOrderQty",
+    "unitNeedQty",
+    "packSize",
+    "warningSuffix",
+  ],
+  warningFormat: ["warnings"],
+} as const;
+
+export const EXCEEDS_MAX_WARNING = "Exceeds station max (onHand + order - demand > max)";
+
+/** The spec template - used when no named template is picked */
+export const DEFAULT_ORDER_TEMPLATE: OrderTextTemplate = {
+  name: "Standard",
+  stockLocation: "EB5",
+  headerFormat:
+    "Order Request – Session: {sessionCreatedAtISO}\nStock location: {stockLocation}",
+  lineFormat:
+    "{productCode} | Demand={demandQty} | OnHand={onHandQty} | Max={maxQty} | Order={recommendedOrderQty}{warningSuffix}",
+  warningFormat: " | WARN: {warnings}",
+};
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+function fill(format: string, values: Record<string, string>): string {
+  return format.replace(PLACEHOLDER_PATTERN, (match, key: string) =>
+    key in values ? values[key] : match
+  );
+}
+
+/**
+ * Warnings of an order line (the recommendation itself is never changed)
+ */
+export function orderLineWarnings(
+  item: Pick<OrderTextItem, "exceedsMax">
+): string[] {
+  return item.exceedsMax ? [EXCEEDS_MAX_WARNING] : [];
+}
+
+/**
+ * Validation error for a template (unknown placeholders, empty fields),
+ * null when it can be used
+ */
+export function orderTemplateError(template: OrderTextTemplate): string | null {
+  if (!template.name.trim() || !template.stockLocation.trim()) {
+    return "Name and stock location are required";
+  }
+  if (!template.lineFormat.trim()) {
+    return "Line format is required";
+  }
+
+  for (const part of Object.keys(ORDER_TEMPLATE_PLACEHOLDERS) as Array<
+    keyof typeof ORDER_TEMPLATE_PLACEHOLDERS
+  >) {
+    const allowed: readonly string[] = ORDER_TEMPLATE_PLACEHOLDERS[part];
+    for (const [, key] of template[part].matchAll(PLACEHOLDER_PATTERN)) {
+      if (!allowed.includes(key)) {
+        return `Unknown placeholder {${key}} - allowed: ${allowed.map((k) => `{${k}}`).join(", ")}`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Render the order text: header, then one line per product sorted by product code
+ */
+export function renderOrderText(
+  template: OrderTextTemplate,
+  session: Pick<Session, "createdAt">,
+  items: OrderTextItem[]
+): string {
+  const header = fill(template.headerFormat, {
+    // Second precision, as in the spec example (2025-12-18T07:32:00Z)
+    sessionCreatedAtISO: new Date(session.createdAt)
+      .toISOString()
+      .replace(/\.\d{3}Z$/, "Z"),
+    stockLocation: template.stockLocation,
+    lineCount: String(items.length),
+  });
+
+  const lines = [...items]
+    .sort((a, b) => a.productCode.localeCompare(b.productCode))
+    .map((item) => {
+      const warnings = orderLineWarnings(item);
+      return fill(template.lineFormat, {
+        productCode: item.productCode,
+        description: item.productDescription ?? "",
+        demandQty: String(item.demandQty),
+        onHandQty: String(item.onHandQty),
+        minQty: item.minQty === null ? "" : String(item.minQty),
+        maxQty: item.maxQty === null ? "" : String(item.maxQty),
+        recommendedOrderQty: String(item.recommendedOrderQty),
+        unitNeedQty: String(item.unitNeedQty ?? item.recommendedOrderQty),
+        packSize: item.packSize === null ? "" : String(item.packSize),
+        warningSuffix:
+          warnings.length > 0
+            ? fill(template.warningFormat, { warnings: warnings.join("; ") })
+            : "",
+      });
+    });
+
+  return [header, ...lines].filter((part) => part !== "").join("\n");
+}
+
+/**
+ * Order text rendered with the default template and every named template
+ */
+export function renderOrderTexts(
+  templates: Array<OrderTextTemplate & { id: string }>,
+  session: Pick<Session, "createdAt">,
+  items: OrderTextItem[]
+): Array<{
+  templateId: string | null;
+  name: string;
+  stockLocation: string;
+  text: string;
+}> {
+  return [
+    { templateId: null, template: DEFAULT_ORDER_TEMPLATE },
+    ...templates.map((t) => ({ templateId: t.id, template: t })),
+  ].map(({ templateId, template }) => ({
+    templateId,
+    name: template.name,
+    stockLocation: template.stockLocation,
+    text: renderOrderText(template, session, items),
+  }));
+}
@@ -0,0 +1,115 @@
+import { db } from "@/lib/db";
+import {
+  orderAdjustments,
+  stationCaptures,
+  type NewOrderAdjustment,
+  type OrderAdjustment,
+  type Session,
+} from "@/lib/db/schema";
+import { desc, eq } from "drizzle-orm";
+import type { ProductResolver } from "@/lib/products/aliases";
+import { getProductOrderRules } from "@/lib/products/catalog";
+import { dedupeSessionStations } from "@/lib/stations/duplicates";
+import { getOrderDemand } from "./demand";
+import {
+  applyOrderAdjustments,
+  computeCoverage,
+  computeOrderItems,
+  type ComputedOrderItem,
+  type CoverageInfo,
+  type SkippedOrderItem,
+} from "./compute";
+
+/**
+ * A session's order adjustments, newest first (the full change history)
+ */
+export async function getOrderAdjustments(
+  sessionId: string
+): Promise<OrderAdjustment[]> {
+  return db
+    .select()
+    .from(orderAdjustments)
+    .where(eq(orderAdjustments.sessionId, sessionId))
+    .orderBy(desc(orderAdjustments.createdAt));
+}
+
+/**
+ * Record a coordinator change to the order (kept as history, never updated)
+ */
+export async function addOrderAdjustment(
+  adjustment: NewOrderAdjustment
+): Promise<OrderAdjustment> {
+  const [created] = await db
+    .insert(orderAdjustments)
+    .values(adjustment)
+    .returning();
+  return created;
+}
+
+/**
+ * Order for a session: approved demand against its stations (one per product,
+ * duplicates merged or kept as chosen), following the session's coverage mode
+ * and each product's replenishment policy and packs, with the coordinator's
+ * adjustments applied (skipped products stay out)
+ */
+export async function computeSessionOrder(
+  session: Pick<Session, "id" | "coverageMode">,
+  resolve: ProductResolver
+): Promise<{
+  demand: Awaited<ReturnType<typeof getOrderDemand>>;
+  computed: ComputedOrderItem[];
+  skipped: SkippedOrderItem[];
+  coverage: CoverageInfo;
+  adjustments: OrderAdjustment[];
+}> {
+  const [demand, adjustments, orderRules] = await Promise.all([
+    getOrderDemand(session.id, resolve),
+    getOrderAdjustments(session.id),
+    getProductOrderRules(),
+  ]);
+  const { stations } = await dedupeSessionStations(
+    session.id,
+    await db.query.stationCaptures.findMany({
+      where: eq(stationCaptures.sessionId, session.id),
+    }),
+    resolve
+  );
+
+  const { computed, skipped } = computeOrderItems(
+    demand.items,
+    stations,
+    resolve,
+    session.coverageMode,
+    orderRules
+  );
+
+  const skippedCodes = new Set(skipped.map((item) => item.productCode));
+
+  return {
+    demand,
+    computed: applyOrderAdjustments(
+      computed,
+      adjustments.filter((a) => !skippedCodes.has(a.productCode)),
+      stations,
+      resolve,
+      orderRules
+    ),
+    skipped,
+    coverage: computeCoverage(demand.items, stations, resolve),
+    adjustments,
+  };
+}
+
+/**
+ * Error when strict coverage blocks the order, null when it may proceed
+ * (lenient sessions always may - missing stations use defaults)
+ */
+export function coverageBlockError(
+  session: Pick<Session, "coverageMode">,
+  coverage: CoverageInfo
+): string | null {
+  if (session.coverageMode !== "strict" || coverage.isComplete) return null;
+
+  const count = coverage.missing.length;
+  return `${count} demanded product${count !== 1 ? "s have" : " has"} no valid station: ${coverage.missing.join(", ")}`;
+}
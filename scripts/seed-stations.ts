@@ -15,6 +15,9 @@ import { db } from "@/lib/db";
 import { stationCaptures, sessions, employeeCaptureGroups } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
 import { computeDemandFromGroups } from "@/lib/workflow/compute";
+import { toGroupForComputation } from "@/lib/loading-lists/extractions";
+import { dedupeSessionActivities } from "@/lib/loading-lists/activity-owners";
+import { loadProductResolver } from "@/lib/products/aliases";
 
 async function seedStations(sessionId: string) {
   console.log(`\nSeeding stations for session: ${sessionId}\n`);
@@ -38,27 +41,16 @@ async function seedStations(sessionId: string) {
     },
   });
 
-  // Transform to GroupForComputation format
-  const groupsForComputation = groups.map((group) => ({
-    id: group.id,
-    employeeLabel: group.employeeLabel,
-    extraction: group.extraction
-      ? {
-          status: group.extraction.status,
-          rawActivities: group.extraction.rawActivities,
-          summary: group.extraction.summary,
-          totalCost: group.extraction.totalCost,
-        }
-      : null,
-    items: group.items.map((item) => ({
-      productCode: item.productCode,
-      quantity: item.quantity,
-      activityCode: item.activityCode,
-      description: item.description,
-    })),
-  }));
+  // Transform to GroupForComputation format (duplicated activities counted once)
+  const { groups: groupsForComputation } = await dedupeSessionActivities(
+    sessionId,
+    groups.map(toGroupForComputation)
+  );
 
-  const demandItems = computeDemandFromGroups(groupsForComputation);
+  const demandItems = computeDemandFromGroups(
+    groupsForComputation,
+    await loadProductResolver()
+  );
 
   if (demandItems.length === 0) {
     console.error("No demand items found for this session.");